@@ -8,6 +8,7 @@ import CreateTournamentPage from "./pages/CreateTournamentPage";
 import Lobby from "./pages/Lobby";
 import TournamentPage from "./pages/TournamentPage";
 import TablePage from "./pages/TablePage";
+import Settings from "./pages/Settings";
 
 import { getBackend } from "./linera/lineraClient";
 import { fetchSummary, fetchTournaments } from "./linera/pokerApi";
@@ -54,6 +55,9 @@ const App: React.FC = () => {
       {/* Страница стола. tableId берём из URL-параметра */}
       <Route path="/tables/:tableId" element={<TablePage />} />
 
+      {/* Настройки клиента (хоткеи стола) */}
+      <Route path="/settings" element={<Settings />} />
+
       {/* опциональный fallback, если нужен */}
       {/* <Route path="*" element={<LandingPage />} /> */}
     </Routes>
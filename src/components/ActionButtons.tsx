@@ -1,15 +1,28 @@
 // src/components/ActionButtons.tsx
 
 import React from "react";
+import type { LegalActions } from "../utils/legalActions";
+import BetSizer from "./BetSizer";
+import { formatKey, type HotkeyBindings } from "../config/hotkeys";
+
+/** Кнопки панели; эти же строки TablePage передаёт в handleSendAction */
+export type ActionButtonKind = "fold" | "check_or_call" | "bet_or_raise" | "all_in";
 
 type ActionButtonsProps = {
+  /** Результат computeLegalActions: какие кнопки активны и границы ставки */
+  legal: LegalActions;
   betSize: number;
-  minBet: number;
-  maxBet: number;
-  isHeroTurn: boolean;
-  canCheck: boolean;
-  betButtonLabel: string;
-  onBetSizeChange: (raw: string) => void;
+  /** Банк после колла героя — база для пресетов 1/3, 1/2, 2/3, pot */
+  pot: number;
+  smallBlind: number;
+  bigBlind: number;
+  /** Запрос в полёте — все кнопки временно неактивны */
+  busy?: boolean;
+  /** Действие, выбранное хоткеем и ждущее подтверждения (Enter) */
+  armed?: ActionButtonKind | null;
+  /** Привязки клавиш для подсказок на кнопках; null — хоткеи выключены */
+  hotkeys?: HotkeyBindings | null;
+  onBetSizeChange: (amount: number) => void;
   onFold: () => void;
   onCheckCall: () => void;
   onBetRaise: () => void;
@@ -17,67 +30,91 @@ type ActionButtonsProps = {
 };
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({
+  legal,
   betSize,
-  minBet,
-  maxBet,
-  isHeroTurn,
-  canCheck,
-  betButtonLabel,
+  pot,
+  smallBlind,
+  bigBlind,
+  busy = false,
+  armed = null,
+  hotkeys = null,
   onBetSizeChange,
   onFold,
   onCheckCall,
   onBetRaise,
   onAllIn,
 }) => {
+  const canBetRaise = legal.canBet || legal.canRaise;
+  const betButtonLabel = legal.canRaise ? "Raise to" : "Bet";
+  const allInAmount = legal.hero?.stack ?? 0;
+
+  const ring = (kind: ActionButtonKind) =>
+    armed === kind ? " ring-2 ring-yellow-300 ring-offset-2 ring-offset-black" : "";
+
+  const hint = (key: string | undefined) =>
+    hotkeys && key ? (
+      <kbd className="ml-1.5 px-1 rounded border border-white/30 text-[9px] text-gray-300 font-mono">
+        {formatKey(key)}
+      </kbd>
+    ) : null;
+
   return (
     <div className="flex flex-col gap-2 text-xs">
       {/* Bet size */}
-      <div className="flex items-center gap-2">
-        <span>Bet size:</span>
-        <input
-          type="number"
-          className="w-24 rounded bg-black/60 border border-white/20 px-2 py-1"
-          value={betSize}
-          min={minBet}
-          max={maxBet > 0 ? maxBet : undefined}
-          onChange={(e) => onBetSizeChange(e.target.value)}
-          disabled={!isHeroTurn}
-        />
-        <span className="text-[10px] text-gray-400">
-          min {minBet}
-          {maxBet > 0 ? ` · max ${maxBet}` : ""}
-        </span>
-      </div>
+      <BetSizer
+        legal={legal}
+        value={betSize}
+        pot={pot}
+        smallBlind={smallBlind}
+        bigBlind={bigBlind}
+        disabled={!canBetRaise || busy}
+        onChange={onBetSizeChange}
+      />
 
       {/* Buttons */}
       <div className="flex flex-wrap gap-2">
         <button
-          className="px-4 py-2 rounded-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-900 disabled:text-gray-500"
+          className={
+            "px-4 py-2 rounded-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-900 disabled:text-gray-500" +
+            ring("fold")
+          }
           onClick={onFold}
-          disabled={!isHeroTurn}
+          disabled={!legal.canFold || busy}
         >
-          Fold
+          Fold{hint(hotkeys?.fold)}
         </button>
         <button
-          className="px-4 py-2 rounded-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-900 disabled:text-gray-500"
+          className={
+            "px-4 py-2 rounded-full bg-gray-700 hover:bg-gray-600 disabled:bg-gray-900 disabled:text-gray-500" +
+            ring("check_or_call")
+          }
           onClick={onCheckCall}
-          disabled={!isHeroTurn}
+          disabled={!(legal.canCheck || legal.canCall) || busy}
         >
-          {canCheck ? "Check" : "Call"}
+          {legal.canCall ? `Call ${legal.callAmount.toLocaleString()}` : "Check"}
+          {hint(hotkeys?.checkCall)}
         </button>
         <button
-          className="px-4 py-2 rounded-full bg-red-600 hover:bg-red-500 disabled:bg-gray-900 disabled:text-gray-500"
+          className={
+            "px-4 py-2 rounded-full bg-red-600 hover:bg-red-500 disabled:bg-gray-900 disabled:text-gray-500" +
+            ring("bet_or_raise")
+          }
           onClick={onBetRaise}
-          disabled={!isHeroTurn}
+          disabled={!canBetRaise || busy}
         >
           {betButtonLabel}
+          {hint(hotkeys?.raise)}
         </button>
         <button
-          className="px-4 py-2 rounded-full bg-red-800 hover:bg-red-700 disabled:bg-gray-900 disabled:text-gray-500"
+          className={
+            "px-4 py-2 rounded-full bg-red-800 hover:bg-red-700 disabled:bg-gray-900 disabled:text-gray-500" +
+            ring("all_in")
+          }
           onClick={onAllIn}
-          disabled={!isHeroTurn}
+          disabled={!legal.canAllIn || busy}
         >
-          All-in
+          All-in{allInAmount > 0 ? ` ${allInAmount.toLocaleString()}` : ""}
+          {hint(hotkeys?.allIn)}
         </button>
       </div>
     </div>
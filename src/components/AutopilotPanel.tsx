@@ -0,0 +1,120 @@
+// src/components/AutopilotPanel.tsx
+//
+// Панель админского автопилота (см. linera/autopilot.ts) для TournamentPage.
+
+import React, { useState } from "react";
+import { useAutopilot } from "../hooks/useAutopilot";
+import { AUTOPILOT_TICK_SECS } from "../linera/autopilot";
+import type { TournamentId } from "../linera/pokerApi";
+import { formatClock } from "../utils/tournamentClock";
+
+type AutopilotPanelProps = {
+  tournamentId: TournamentId;
+  /** Длина уровня из конфига турнира; null — конфиг неизвестен, вводим руками */
+  levelDurationMinutes: number | null;
+};
+
+const STATUS_LABEL = {
+  idle: "Off",
+  running: "Running",
+  paused: "Paused",
+  blocked: "Blocked by another tab",
+} as const;
+
+const LOG_COLOR = {
+  info: "text-gray-300",
+  tick: "text-gray-500",
+  level: "text-emerald-300",
+  error: "text-red-300",
+} as const;
+
+const button =
+  "flex-1 inline-flex items-center justify-center px-3 py-2 rounded-lg text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed";
+
+const AutopilotPanel: React.FC<AutopilotPanelProps> = ({
+  tournamentId,
+  levelDurationMinutes,
+}) => {
+  const { state, start, pause, resume, stop } = useAutopilot();
+  const [minutesInput, setMinutesInput] = useState(levelDurationMinutes ?? 10);
+
+  // автопилот мог быть запущен для другого турнира в этой вкладке
+  const isThis = state.tournamentId === tournamentId;
+  const status = isThis ? state.status : "idle";
+  const remaining = Math.max(0, state.levelDurationSecs - state.levelElapsedSecs);
+
+  return (
+    <div className="rounded-2xl bg-neutral-900/70 border border-neutral-800/70 px-5 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm font-semibold">Auto-pilot</div>
+        <div className="text-xs text-gray-400">{STATUS_LABEL[status]}</div>
+      </div>
+
+      {status === "idle" && (
+        <div className="mb-3 text-xs">
+          <label className="block text-gray-400 mb-1">Level duration (min)</label>
+          <input
+            type="number"
+            min={1}
+            className="w-full rounded-lg bg-black/40 border border-white/15 px-3 py-1.5 outline-none focus:border-red-500"
+            value={minutesInput}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setMinutesInput(Number(e.target.value))
+            }
+          />
+        </div>
+      )}
+
+      {(status === "running" || status === "paused") && (
+        <div className="mb-3 text-xs text-gray-300">
+          Next level in {formatClock(remaining)} · tables ticked every{" "}
+          {AUTOPILOT_TICK_SECS}s
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {status === "idle" && (
+          <button
+            className={`${button} bg-emerald-600 hover:bg-emerald-500`}
+            disabled={!(minutesInput > 0)}
+            onClick={() => start(tournamentId, minutesInput * 60)}
+          >
+            Start
+          </button>
+        )}
+        {status === "running" && (
+          <button className={`${button} bg-amber-600 hover:bg-amber-500`} onClick={pause}>
+            Pause
+          </button>
+        )}
+        {(status === "paused" || status === "blocked") && (
+          <button className={`${button} bg-emerald-600 hover:bg-emerald-500`} onClick={resume}>
+            Resume
+          </button>
+        )}
+        {status !== "idle" && (
+          <button className={`${button} bg-neutral-700 hover:bg-neutral-600`} onClick={stop}>
+            Stop
+          </button>
+        )}
+      </div>
+
+      {isThis && state.log.length > 0 && (
+        <div className="mt-3 max-h-40 overflow-y-auto space-y-0.5 font-mono text-[10px]">
+          {state.log.map((entry, i) => (
+            <div key={`${entry.at}-${i}`} className={LOG_COLOR[entry.kind]}>
+              {new Date(entry.at).toLocaleTimeString()} {entry.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 text-[11px] text-gray-500">
+        Автопилот работает, пока открыта эта вкладка. Вторая админская
+        вкладка тот же турнир не запустит.
+      </div>
+    </div>
+  );
+};
+
+export default AutopilotPanel;
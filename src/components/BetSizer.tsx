@@ -0,0 +1,142 @@
+// src/components/BetSizer.tsx
+//
+// Виджет размера ставки для ActionButtons: слайдер min-raise..стек,
+// пресеты от банка, единицы chips / BB, колесо мыши и стрелки для
+// точной подстройки (шаг — small blind, с Shift — big blind).
+
+import React, { useEffect, useRef, useState } from "react";
+import type { LegalActions } from "../utils/legalActions";
+import { betPresets, clampBet, formatBetAmount } from "../utils/betSizing";
+
+type BetSizerProps = {
+  legal: LegalActions;
+  value: number;
+  pot: number;
+  smallBlind: number;
+  bigBlind: number;
+  disabled?: boolean;
+  onChange: (amount: number) => void;
+};
+
+const BetSizer: React.FC<BetSizerProps> = ({
+  legal,
+  value,
+  pot,
+  smallBlind,
+  bigBlind,
+  disabled = false,
+  onChange,
+}) => {
+  const [inBigBlinds, setInBigBlinds] = useState(false);
+
+  const step = Math.max(1, smallBlind);
+  const presets = betPresets(legal, pot, smallBlind);
+
+  const set = (amount: number) => onChange(clampBet(amount, legal, smallBlind));
+  const nudge = (direction: 1 | -1, coarse: boolean) =>
+    set(value + direction * (coarse ? Math.max(step, bigBlind) : step));
+
+  // Колесо — только над слайдером и полем. Слушатель не-passive (React
+  // вешает onWheel passive), иначе preventDefault не работает и вместе
+  // со ставкой прокручивается страница. Горизонтальное колесо не трогаем.
+  const sliderRef = useRef<HTMLInputElement>(null);
+  const amountRef = useRef<HTMLInputElement>(null);
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => undefined);
+  wheelRef.current = (e: WheelEvent) => {
+    if (disabled || e.deltaY === 0) return;
+    e.preventDefault();
+    nudge(e.deltaY < 0 ? 1 : -1, e.shiftKey);
+  };
+
+  useEffect(() => {
+    const targets = [sliderRef.current, amountRef.current];
+    const handler = (e: WheelEvent) => wheelRef.current(e);
+    for (const el of targets) el?.addEventListener("wheel", handler, { passive: false });
+    return () => {
+      for (const el of targets) el?.removeEventListener("wheel", handler);
+    };
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (disabled) return;
+    if (e.key === "ArrowUp" || e.key === "ArrowRight") {
+      e.preventDefault();
+      nudge(1, e.shiftKey);
+    } else if (e.key === "ArrowDown" || e.key === "ArrowLeft") {
+      e.preventDefault();
+      nudge(-1, e.shiftKey);
+    }
+  };
+
+  // в BB-режиме поле ввода тоже в BB
+  const displayValue = inBigBlinds && bigBlind > 0 ? +(value / bigBlind).toFixed(1) : value;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {presets.map((p) => (
+          <button
+            key={p.id}
+            type="button"
+            className={
+              "px-2 py-1 rounded-full border text-[11px] disabled:opacity-40 " +
+              (value === p.amount
+                ? "border-red-400 bg-red-500/20"
+                : "border-white/20 bg-white/5 hover:bg-white/10")
+            }
+            disabled={disabled}
+            title={formatBetAmount(p.amount, bigBlind, !inBigBlinds)}
+            onClick={() => onChange(p.amount)}
+          >
+            {p.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          className="ml-auto px-2 py-1 rounded-full border border-white/20 text-[11px] text-gray-300 hover:bg-white/10"
+          onClick={() => setInBigBlinds((v) => !v)}
+        >
+          {inBigBlinds ? "BB" : "Chips"}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          ref={sliderRef}
+          type="range"
+          className="flex-1 accent-red-500"
+          min={legal.minRaiseTo}
+          max={Math.max(legal.minRaiseTo, legal.maxRaiseTo)}
+          step={step}
+          value={value}
+          disabled={disabled}
+          onChange={(e) => set(Number(e.target.value))}
+          onKeyDown={handleKeyDown}
+        />
+        <input
+          ref={amountRef}
+          type="number"
+          className="w-24 rounded bg-black/60 border border-white/20 px-2 py-1"
+          value={displayValue}
+          step={inBigBlinds ? 0.5 : step}
+          disabled={disabled}
+          onChange={(e) => {
+            const raw = Number(e.target.value);
+            onChange(inBigBlinds ? Math.round(raw * bigBlind) : raw);
+          }}
+          onBlur={() => set(value)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+
+      <span className="text-[10px] text-gray-400">
+        {formatBetAmount(value, bigBlind, inBigBlinds)} · min{" "}
+        {formatBetAmount(legal.minRaiseTo, bigBlind, inBigBlinds)} · max{" "}
+        {formatBetAmount(legal.maxRaiseTo, bigBlind, inBigBlinds)} · pot{" "}
+        {formatBetAmount(pot, bigBlind, inBigBlinds)}
+      </span>
+    </div>
+  );
+};
+
+export default BetSizer;
@@ -0,0 +1,187 @@
+// src/components/BlindStructureEditor.tsx
+//
+// Таблица уровней блайндов для CreateTournamentPage: правка SB/BB/ante,
+// добавление / удаление / перестановка строк, вставка перерывов.
+// Сама структура живёт в странице, сюда приходят только rows + onChange.
+
+import React from "react";
+import type { AnteType, BlindLevel } from "../types/poker";
+import {
+  addBreakAfter,
+  addLevelAfter,
+  isBreakRow,
+  moveRow,
+  removeRow,
+  updateRow,
+} from "../utils/blindStructure";
+
+type BlindStructureEditorProps = {
+  rows: BlindLevel[];
+  anteType: AnteType;
+  levelDurationMinutes: number;
+  breakDurationMinutes: number;
+  onChange: (rows: BlindLevel[]) => void;
+};
+
+const cellInput =
+  "w-full rounded-md bg-black/40 border border-white/15 px-2 py-1 text-right outline-none focus:border-red-500";
+const iconButton =
+  "px-1.5 py-0.5 rounded border border-white/15 bg-white/5 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed";
+
+const BlindStructureEditor: React.FC<BlindStructureEditorProps> = ({
+  rows,
+  anteType,
+  levelDurationMinutes,
+  breakDurationMinutes,
+  onChange,
+}) => {
+  const numberChange =
+    (index: number, key: "smallBlind" | "bigBlind" | "ante" | "durationMinutes") =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      onChange(updateRow(rows, index, { [key]: Number(e.target.value) }));
+
+  // время начала каждой строки от старта турнира
+  let elapsed = 0;
+  const startMinutes = rows.map((row) => {
+    const start = elapsed;
+    elapsed += isBreakRow(row) ? row.durationMinutes ?? 0 : levelDurationMinutes;
+    return start;
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-80 overflow-y-auto rounded-xl border border-white/10">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-black/80 text-gray-300">
+            <tr>
+              <th className="px-2 py-2 text-left">Lvl</th>
+              <th className="px-2 py-2 text-left">Starts</th>
+              <th className="px-2 py-2 text-right">SB</th>
+              <th className="px-2 py-2 text-right">BB</th>
+              <th className="px-2 py-2 text-right">
+                {anteType === "bba" ? "BB Ante" : "Ante"}
+              </th>
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr
+                key={index}
+                className={
+                  "border-t border-white/5 " +
+                  (isBreakRow(row) ? "bg-amber-900/20" : "")
+                }
+              >
+                <td className="px-2 py-1 text-gray-400">
+                  {isBreakRow(row) ? "☕" : row.level}
+                </td>
+                <td className="px-2 py-1 text-gray-400">+{startMinutes[index]}m</td>
+
+                {isBreakRow(row) ? (
+                  <td className="px-2 py-1" colSpan={3}>
+                    <div className="flex items-center justify-end gap-2 text-amber-200">
+                      <span>Break</span>
+                      <input
+                        type="number"
+                        className={cellInput + " w-20"}
+                        min={1}
+                        value={row.durationMinutes ?? 0}
+                        onChange={numberChange(index, "durationMinutes")}
+                      />
+                      <span>min</span>
+                    </div>
+                  </td>
+                ) : (
+                  <>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        className={cellInput}
+                        min={1}
+                        value={row.smallBlind}
+                        onChange={numberChange(index, "smallBlind")}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        className={cellInput}
+                        min={1}
+                        value={row.bigBlind}
+                        onChange={numberChange(index, "bigBlind")}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        type="number"
+                        className={cellInput}
+                        min={0}
+                        disabled={anteType === "none"}
+                        value={row.ante}
+                        onChange={numberChange(index, "ante")}
+                      />
+                    </td>
+                  </>
+                )}
+
+                <td className="px-2 py-1">
+                  <div className="flex items-center justify-end gap-1">
+                    <button
+                      className={iconButton}
+                      title="Move up"
+                      disabled={index === 0}
+                      onClick={() => onChange(moveRow(rows, index, -1))}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className={iconButton}
+                      title="Move down"
+                      disabled={index === rows.length - 1}
+                      onClick={() => onChange(moveRow(rows, index, 1))}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className={iconButton}
+                      title="Add level below"
+                      onClick={() => onChange(addLevelAfter(rows, index, anteType))}
+                    >
+                      +
+                    </button>
+                    <button
+                      className={iconButton}
+                      title="Insert break below"
+                      onClick={() =>
+                        onChange(addBreakAfter(rows, index, breakDurationMinutes))
+                      }
+                    >
+                      ☕
+                    </button>
+                    <button
+                      className={iconButton + " text-red-300"}
+                      title="Remove"
+                      onClick={() => onChange(removeRow(rows, index))}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        className="px-3 py-1.5 rounded-full border border-white/20 bg-white/5 hover:bg-white/10 text-xs"
+        onClick={() => onChange(addLevelAfter(rows, rows.length - 1, anteType))}
+      >
+        + Add level
+      </button>
+    </div>
+  );
+};
+
+export default BlindStructureEditor;
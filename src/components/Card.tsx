@@ -9,6 +9,8 @@ type CardProps = {
   dimmed?: boolean;
   /** Перекрывает card.hidden, если хочешь насильно скрыть карту */
   forceHidden?: boolean;
+  /** Карта из выигравшей пятёрки на вскрытии */
+  highlighted?: boolean;
 };
 
 const suitToSymbol: Record<UISuit, string> = {
@@ -23,6 +25,7 @@ const Card: React.FC<CardProps> = ({
   size = "md",
   dimmed = false,
   forceHidden = false,
+  highlighted = false,
 }) => {
   const isHidden = card.hidden || forceHidden;
 
@@ -61,6 +64,9 @@ const Card: React.FC<CardProps> = ({
         sizeClasses,
         dimmed ? "opacity-40" : "opacity-100",
         "bg-gradient-to-br from-black via-slate-950 to-slate-900",
+        highlighted
+          ? "ring-2 ring-yellow-300 shadow-[0_0_14px_rgba(250,204,21,0.8)] -translate-y-1 transition-transform"
+          : "",
       ].join(" ")}
     >
       <div className="flex flex-col items-center leading-tight">
@@ -3,12 +3,15 @@
 import React from "react";
 import type { UICard } from "../types/poker";
 import Card from "./Card";
+import { cardKey } from "../utils/handEvaluator";
 
 type CommunityCardsProps = {
   board: UICard[];
+  /** Вскрытие: cardKey() выигравших карт; остальные притушены */
+  winningCards?: Set<string> | null;
 };
 
-const CommunityCards: React.FC<CommunityCardsProps> = ({ board }) => {
+const CommunityCards: React.FC<CommunityCardsProps> = ({ board, winningCards = null }) => {
   if (!board || board.length === 0) {
     return (
       <div className="flex gap-2 justify-center min-h-[3.5rem] items-center text-xs text-gray-500">
@@ -20,7 +23,13 @@ const CommunityCards: React.FC<CommunityCardsProps> = ({ board }) => {
   return (
     <div className="flex gap-2 justify-center">
       {board.map((card, idx) => (
-        <Card key={idx} card={card} size="md" />
+        <Card
+          key={idx}
+          card={card}
+          size="md"
+          highlighted={winningCards?.has(cardKey(card)) ?? false}
+          dimmed={winningCards !== null && !winningCards.has(cardKey(card))}
+        />
       ))}
     </div>
   );
@@ -69,10 +69,7 @@ const DevTableTools: React.FC<DevTableToolsProps> = ({
 
       // 2) Стартуем первую раздачу.
       const handId = Math.floor(Date.now() / 1000);
-      const handAck: MutationAck = await startHand({
-        tableId,
-        handId,
-      });
+      const handAck: MutationAck = await startHand(tableId, handId);
 
       if (!handAck.ok) {
         setLastMessage(`StartHand failed: ${handAck.message}`);
@@ -102,10 +99,7 @@ const DevTableTools: React.FC<DevTableToolsProps> = ({
 
     try {
       const handId = Math.floor(Date.now() / 1000);
-      const handAck: MutationAck = await startHand({
-        tableId,
-        handId,
-      });
+      const handAck: MutationAck = await startHand(tableId, handId);
 
       if (!handAck.ok) {
         setLastMessage(`StartHand failed: ${handAck.message}`);
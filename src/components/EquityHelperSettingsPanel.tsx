@@ -0,0 +1,66 @@
+// src/components/EquityHelperSettingsPanel.tsx
+//
+// Карточка Settings для помощника колла: вкл/выкл и точность Monte
+// Carlo. Сохраняется сразу.
+
+import React, { useState } from "react";
+import { Calculator } from "lucide-react";
+import {
+  EQUITY_ITERATION_OPTIONS,
+  loadEquityHelperSettings,
+  saveEquityHelperSettings,
+  type EquityHelperSettings,
+} from "../config/equityHelper";
+
+const EquityHelperSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<EquityHelperSettings>(loadEquityHelperSettings);
+
+  const update = (next: EquityHelperSettings) => {
+    setSettings(next);
+    saveEquityHelperSettings(next);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-red-900/40 to-black/60 backdrop-blur-sm border-2 border-white/10 rounded-3xl p-8 shadow-xl">
+      <div className="flex items-center space-x-3 mb-6">
+        <Calculator className="w-8 h-8 text-red-500" />
+        <h2 className="text-2xl font-bold text-white">Pot Odds &amp; Equity</h2>
+      </div>
+
+      <div className="space-y-4">
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-white font-semibold">Show pot odds and equity when facing a bet</span>
+          <input
+            type="checkbox"
+            className="w-6 h-6 accent-red-600"
+            checked={settings.enabled}
+            onChange={(e) => update({ ...settings, enabled: e.target.checked })}
+          />
+        </label>
+
+        <div className="flex items-center justify-between">
+          <span className="text-white font-semibold">Simulation accuracy</span>
+          <select
+            disabled={!settings.enabled}
+            value={settings.iterations}
+            onChange={(e) => update({ ...settings, iterations: Number(e.target.value) })}
+            className="w-64 px-4 py-2 bg-black/40 border-2 border-white/20 rounded-2xl text-white font-semibold focus:border-red-500 focus:outline-none disabled:opacity-40 transition-all"
+          >
+            {EQUITY_ITERATION_OPTIONS.map(({ iterations, label }) => (
+              <option key={iterations} value={iterations}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-xs text-white/50">
+          Equity is estimated against random hands from the visible board and your hole cards. The helper is
+          always off at tournament tables.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default EquityHelperSettingsPanel;
@@ -0,0 +1,53 @@
+// src/components/EquityPanel.tsx
+//
+// Помощник колла под кнопками действий: pot odds, сколько эквити нужно
+// для колла и Monte Carlo оценка против случайных рук соперников.
+
+import React from "react";
+import type { PotOdds } from "../utils/equity";
+import type { EquityState } from "../hooks/useEquity";
+
+type EquityPanelProps = {
+  odds: PotOdds;
+  equity: EquityState;
+  /** Соперников в раздаче — против стольких случайных рук и считаем */
+  opponents: number;
+};
+
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+const EquityPanel: React.FC<EquityPanelProps> = ({ odds, equity, opponents }) => {
+  const { estimate, pending } = equity;
+  const profitable = estimate ? estimate.equity >= odds.equityNeeded : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-xs">
+      <span className="text-gray-400">
+        Pot odds{" "}
+        <span className="font-semibold text-white">{odds.ratio.toFixed(1)} : 1</span>
+      </span>
+      <span className="text-gray-400">
+        Need <span className="font-semibold text-white">{percent(odds.equityNeeded)}</span> to call
+      </span>
+      <span className="text-gray-400">
+        Equity{" "}
+        {estimate ? (
+          <span
+            className={
+              "font-semibold " + (profitable ? "text-emerald-300" : "text-red-300")
+            }
+            title={`Win ${percent(estimate.win)} · tie ${percent(estimate.tie)} · ${estimate.iterations.toLocaleString()} hands`}
+          >
+            {percent(estimate.equity)}
+          </span>
+        ) : (
+          <span className="text-gray-500">—</span>
+        )}{" "}
+        vs {opponents} random {opponents === 1 ? "hand" : "hands"}
+        {pending && <span className="ml-1 text-gray-500 animate-pulse">…</span>}
+      </span>
+    </div>
+  );
+};
+
+export default EquityPanel;
@@ -0,0 +1,154 @@
+// src/components/HandLogPanel.tsx
+//
+// Сворачиваемый лог раздач для TablePage: текущая раздача по улицам,
+// ниже — прошлые (свёрнуты). Суммы в фишках и в BB той раздачи.
+
+import React, { useState } from "react";
+import type { GqlCard } from "../linera/pokerApi";
+import type { TableEventEntry } from "../linera/tableEventStream";
+import { mapCard } from "../mappers/onchainToUi";
+import type { HandLogHand } from "../utils/handLog";
+import { describeTableEvent } from "../utils/tableEvents";
+import { formatBetAmount } from "../utils/betSizing";
+import Card from "./Card";
+
+type HandLogPanelProps = {
+  hands: HandLogHand[];
+};
+
+const STREET_LABEL: Record<string, string> = {
+  PreFlop: "Preflop",
+  Flop: "Flop",
+  Turn: "Turn",
+  River: "River",
+  Showdown: "Showdown",
+  Table: "Earlier",
+};
+
+const MiniCards: React.FC<{ cards: GqlCard[] }> = ({ cards }) => (
+  <span className="inline-flex gap-0.5 align-middle">
+    {cards.map((c, idx) => (
+      <Card key={idx} card={mapCard(c)} size="sm" />
+    ))}
+  </span>
+);
+
+function entryAmount(entry: TableEventEntry): number {
+  const { event } = entry;
+  switch (event.type) {
+    case "blind_posted":
+    case "pot_awarded":
+      return event.amount;
+    case "player_action":
+      return event.action === "call" ? event.amount : event.betTo;
+    default:
+      return 0;
+  }
+}
+
+const LogLine: React.FC<{ entry: TableEventEntry; bigBlind: number }> = ({ entry, bigBlind }) => {
+  const { event } = entry;
+
+  if (event.type === "cards_revealed") {
+    return (
+      <li className="flex items-center gap-2">
+        <span>{event.name} shows</span>
+        <MiniCards cards={event.cards} />
+      </li>
+    );
+  }
+
+  const amount = entryAmount(entry);
+  return (
+    <li className={event.type === "pot_awarded" ? "text-emerald-300" : undefined}>
+      {describeTableEvent(event)}
+      {amount > 0 && bigBlind > 0 && (
+        <span className="ml-1 text-gray-500">({formatBetAmount(amount, bigBlind, true)})</span>
+      )}
+    </li>
+  );
+};
+
+const HandView: React.FC<{ hand: HandLogHand }> = ({ hand }) => (
+  <div className="flex flex-col gap-2">
+    {hand.streets.map((street, idx) =>
+      street.entries.length === 0 && street.cards.length === 0 ? null : (
+        <div key={idx}>
+          <div className="flex items-center gap-2 text-[10px] uppercase tracking-widest text-gray-400">
+            <span>{STREET_LABEL[street.street] ?? street.street}</span>
+            {street.cards.length > 0 && <MiniCards cards={street.cards} />}
+          </div>
+          <ul className="mt-1 ml-2 flex flex-col gap-0.5 text-[11px] text-gray-200">
+            {street.entries.map((entry) => (
+              <LogLine key={entry.id} entry={entry} bigBlind={hand.bigBlind} />
+            ))}
+          </ul>
+        </div>
+      )
+    )}
+  </div>
+);
+
+function handTitle(hand: HandLogHand): string {
+  const time = new Date(hand.startedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  const winners = hand.streets
+    .flatMap((s) => s.entries)
+    .filter((e) => e.event.type === "pot_awarded")
+    .map((e) => describeTableEvent(e.event));
+  return [time, ...winners].join(" · ");
+}
+
+const HandLogPanel: React.FC<HandLogPanelProps> = ({ hands }) => {
+  const [open, setOpen] = useState(true);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const current = hands[hands.length - 1] ?? null;
+  const previous = hands.slice(0, -1).reverse();
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-black/50 text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between px-4 py-2 text-gray-300 hover:bg-white/5 rounded-2xl"
+      >
+        <span className="font-semibold uppercase tracking-[0.2em] text-[10px]">Hand log</span>
+        <span className="text-gray-500">{open ? "▾" : "▸"}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 flex flex-col gap-3 max-h-80 overflow-y-auto">
+          {current ? (
+            <HandView hand={current} />
+          ) : (
+            <span className="text-gray-500">No actions yet. The log fills in as the table updates.</span>
+          )}
+
+          {previous.length > 0 && (
+            <div className="border-t border-white/10 pt-2 flex flex-col gap-1">
+              <span className="text-[10px] uppercase tracking-widest text-gray-500">Previous hands</span>
+              {previous.map((hand) => (
+                <div key={hand.key}>
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === hand.key ? null : hand.key)}
+                    className="w-full text-left text-gray-400 hover:text-gray-200"
+                  >
+                    {expanded === hand.key ? "▾" : "▸"} {handTitle(hand)}
+                  </button>
+                  {expanded === hand.key && (
+                    <div className="ml-3 mt-1">
+                      <HandView hand={hand} />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HandLogPanel;
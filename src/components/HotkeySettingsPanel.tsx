@@ -0,0 +1,140 @@
+// src/components/HotkeySettingsPanel.tsx
+//
+// Карточка Settings с горячими клавишами стола: вкл/выкл, режим
+// подтверждения Enter'ом и переназначение клавиш. Сохраняется сразу.
+
+import React, { useEffect, useState } from "react";
+import { Keyboard } from "lucide-react";
+import {
+  DEFAULT_HOTKEY_SETTINGS,
+  HOTKEY_ACTIONS,
+  findBindingConflict,
+  formatKey,
+  loadHotkeySettings,
+  normalizeKey,
+  saveHotkeySettings,
+  type HotkeyAction,
+  type HotkeySettings,
+} from "../config/hotkeys";
+
+const HotkeySettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<HotkeySettings>(loadHotkeySettings);
+  // действие, для которого ждём нажатие новой клавиши
+  const [capturing, setCapturing] = useState<HotkeyAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const update = (next: HotkeySettings) => {
+    setSettings(next);
+    saveHotkeySettings(next);
+  };
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handler = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === "Escape") {
+        setCapturing(null);
+        return;
+      }
+      if (["Shift", "Control", "Alt", "Meta", "Tab"].includes(e.key)) return;
+
+      const conflict = findBindingConflict(settings.bindings, e.key, capturing);
+      if (conflict) {
+        const label = HOTKEY_ACTIONS.find((a) => a.action === conflict)?.label ?? conflict;
+        setNotice(`${formatKey(e.key)} is already used by "${label}"`);
+        return;
+      }
+
+      const next: HotkeySettings = {
+        ...settings,
+        bindings: { ...settings.bindings, [capturing]: normalizeKey(e.key) },
+      };
+      setSettings(next);
+      saveHotkeySettings(next);
+      setNotice(null);
+      setCapturing(null);
+    };
+
+    window.addEventListener("keydown", handler, true);
+    return () => window.removeEventListener("keydown", handler, true);
+  }, [capturing, settings]);
+
+  return (
+    <div className="bg-gradient-to-br from-red-900/40 to-black/60 backdrop-blur-sm border-2 border-white/10 rounded-3xl p-8 shadow-xl">
+      <div className="flex items-center space-x-3 mb-6">
+        <Keyboard className="w-8 h-8 text-red-500" />
+        <h2 className="text-2xl font-bold text-white">Table Hotkeys</h2>
+      </div>
+
+      <div className="space-y-4">
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-white font-semibold">Enable keyboard shortcuts</span>
+          <input
+            type="checkbox"
+            className="w-6 h-6 accent-red-600"
+            checked={settings.enabled}
+            onChange={(e) => update({ ...settings, enabled: e.target.checked })}
+          />
+        </label>
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-white font-semibold">
+            Require {formatKey(settings.bindings.confirm)} to confirm actions
+          </span>
+          <input
+            type="checkbox"
+            className="w-6 h-6 accent-red-600"
+            checked={settings.confirmWithEnter}
+            onChange={(e) => update({ ...settings, confirmWithEnter: e.target.checked })}
+          />
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 pt-2">
+          {HOTKEY_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between">
+              <span className="text-white/80">{label}</span>
+              <button
+                type="button"
+                disabled={!settings.enabled}
+                onClick={() => {
+                  setNotice(null);
+                  setCapturing(capturing === action ? null : action);
+                }}
+                className={
+                  "min-w-[96px] px-3 py-1.5 rounded-xl border-2 font-mono text-sm disabled:opacity-40 transition-all " +
+                  (capturing === action
+                    ? "border-red-500 text-red-300 animate-pulse"
+                    : "border-white/20 text-white hover:border-white/40")
+                }
+              >
+                {capturing === action ? "Press a key…" : formatKey(settings.bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {notice && <p className="text-sm text-yellow-300">{notice}</p>}
+
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-xs text-white/50">
+            Shortcuts are ignored while a text field has focus. Esc cancels rebinding.
+          </span>
+          <button
+            type="button"
+            onClick={() => {
+              setCapturing(null);
+              setNotice(null);
+              update(DEFAULT_HOTKEY_SETTINGS);
+            }}
+            className="px-4 py-2 bg-black/40 border-2 border-white/20 rounded-2xl text-sm font-bold text-white/70 hover:text-white hover:border-white/40 transition-all"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HotkeySettingsPanel;
@@ -1,7 +1,12 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import type { Player, UICard } from "../types/poker";
 import CommunityCards from "./CommunityCards";
 import PlayerSeat from "./PlayerSeat";
+import ChipStack from "./ChipStack";
+import { seatPositions, towardCenter } from "../utils/seatLayout";
+import type { ActionTimerSnapshot } from "../utils/actionTimer";
+import type { PotAward, ShowdownView } from "../utils/showdown";
+import { evaluateHand } from "../utils/handEvaluator";
 
 export interface OvalTableProps {
   players: Player[];
@@ -10,8 +15,39 @@ export interface OvalTableProps {
   currentBet: number;
   street: string;
   heroId?: string;
+  /** max_seats стола: задаёт число мест вокруг овала */
+  maxSeats: number;
+  /** Таймер хода текущего игрока (seat = current_actor_seat) */
+  actionTimer?: ActionTimerSnapshot | null;
+  /** Вскрытие: названия рук, победители, выигравшие карты */
+  showdown?: ShowdownView | null;
+  /** Выплаты последней раздачи: фишки едут из центра к победителям */
+  awards?: PotAward[];
 }
 
+type Point = { xPct: number; yPct: number };
+
+/** Фишки выигрыша: появляются в центре и на следующем кадре едут к месту. */
+const AwardChips: React.FC<{ from: Point; to: Point; amount: number }> = ({ from, to, amount }) => {
+  const [arrived, setArrived] = useState(false);
+
+  useEffect(() => {
+    const frame = window.requestAnimationFrame(() => setArrived(true));
+    return () => window.cancelAnimationFrame(frame);
+  }, []);
+
+  const at = arrived ? to : from;
+  return (
+    <div
+      className="absolute -translate-x-1/2 -translate-y-1/2 z-30 transition-all duration-700 ease-out pointer-events-none"
+      style={{ left: `${at.xPct}%`, top: `${at.yPct}%` }}
+      title={`Won ${amount.toLocaleString()}`}
+    >
+      <ChipStack amount={amount} size="small" />
+    </div>
+  );
+};
+
 function normalizeStreetLabel(street?: string): string {
   if (!street) return "WAITING";
   const lower = street.toLowerCase();
@@ -25,19 +61,36 @@ const OvalTable: React.FC<OvalTableProps> = ({
   currentBet,
   street,
   heroId,
+  maxSeats,
+  actionTimer = null,
+  showdown = null,
+  awards = [],
 }) => {
   const streetLabel = normalizeStreetLabel(street);
 
-  const sorted = [...players].sort(
-    (a, b) => (a.position ?? 0) - (b.position ?? 0),
+  const winnerLine = showdown
+    ? showdown.winners
+        .map((id) => {
+          const name = players.find((p) => p.id === id)?.name ?? `Player ${id}`;
+          return `${name} wins · ${showdown.hands[id].name}`;
+        })
+        .join(" / ")
+    : null;
+
+  // Игрок на месте, которого нет в max_seats (рассинхрон данных), не должен
+  // пропасть — расширяем овал до него.
+  const seatCount = Math.max(
+    maxSeats,
+    ...players.map((p) => p.position + 1),
   );
 
-  const hero = heroId ? sorted.find((p) => p.id === heroId) : undefined;
-  const others = hero ? sorted.filter((p) => p.id !== hero.id) : sorted;
+  const bySeat = new Map(players.map((p) => [p.position, p] as const));
+  const hero = heroId ? players.find((p) => p.id === heroId) : undefined;
+  const positions = seatPositions(seatCount, hero ? hero.position : null);
 
-  const half = Math.ceil(others.length / 2);
-  const top = others.slice(0, half);
-  const bottom = others.slice(half);
+  // Текущая рука героя с флопа (до вскрытия её видит только он сам)
+  const heroHand =
+    hero && !hero.isFolded && hero.cards ? evaluateHand([...hero.cards, ...communityCards]) : null;
 
   return (
     <div className="relative w-full h-full min-h-[480px] md:min-h-[560px]">
@@ -63,6 +116,9 @@ const OvalTable: React.FC<OvalTableProps> = ({
           <span className="text-[10px] tracking-[0.25em] uppercase text-red-400">
             {streetLabel}
           </span>
+          {winnerLine && (
+            <span className="text-xs font-semibold text-yellow-300">{winnerLine}</span>
+          )}
 
           <div className="flex items-center gap-4 text-xs text-gray-200">
             <div className="px-3 py-1 rounded-full bg-black/60 border border-white/15">
@@ -78,48 +134,87 @@ const OvalTable: React.FC<OvalTableProps> = ({
           </div>
         </div>
 
-        <CommunityCards board={communityCards} />
-      </div>
-
-      {/* Top row */}
-      <div className="absolute top-[8%] left-[8%] right-[8%] flex justify-between gap-2">
-        {top.map((p) => (
-          <div key={p.id} className="flex-1 flex justify-center">
-            <PlayerSeat
-              player={p}
-              isCurrent={false}
-              isHero={heroId === p.id}
-              bet={0}
-            />
-          </div>
-        ))}
+        <CommunityCards board={communityCards} winningCards={showdown?.winningCards ?? null} />
       </div>
 
-      {/* Bottom row */}
-      <div className="absolute bottom-[6%] left-[6%] right-[6%] flex justify-between 
-          gap-3 items-end">
-        {bottom.map((p) => (
-          <div key={p.id} className="flex-1 flex justify-center">
-            <PlayerSeat
-              player={p}
-              isCurrent={false}
-              isHero={heroId === p.id}
-              bet={0}
-            />
-          </div>
-        ))}
-
-        {hero && (
-          <div className="flex-1 flex justify-center">
-            <PlayerSeat
-              player={hero}
-              isCurrent={true}
-              isHero={true}
-              bet={0}
-            />
+      {/* Ставки и баттон: между местом и центром стола */}
+      {positions.map((pos) => {
+        const p = bySeat.get(pos.seat);
+        if (!p) return null;
+        const chips = towardCenter(pos, 0.55);
+        const button = towardCenter(pos, 0.68, 7);
+        return (
+          <React.Fragment key={`marks-${pos.seat}`}>
+            {p.currentBet > 0 && (
+              <div
+                className="absolute -translate-x-1/2 -translate-y-1/2 z-10"
+                style={{ left: `${chips.xPct}%`, top: `${chips.yPct}%` }}
+                title={`Bet ${p.currentBet.toLocaleString()}`}
+              >
+                <ChipStack amount={p.currentBet} size="small" />
+              </div>
+            )}
+            {p.isDealer && (
+              <div
+                className="absolute -translate-x-1/2 -translate-y-1/2 z-10 w-7 h-7 rounded-full
+                    bg-white text-black text-xs font-bold flex items-center justify-center
+                    border-2 border-yellow-400 shadow-[0_0_12px_rgba(250,204,21,0.7)]"
+                style={{ left: `${button.xPct}%`, top: `${button.yPct}%` }}
+                title="Dealer button"
+              >
+                D
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {/* Seats: каждое место на своей точке эллипса */}
+      {positions.map(({ seat, xPct, yPct }) => {
+        const p = bySeat.get(seat);
+        return (
+          <div
+            key={seat}
+            className="absolute -translate-x-1/2 -translate-y-1/2 w-36 flex justify-center z-20"
+            style={{ left: `${xPct}%`, top: `${yPct}%` }}
+          >
+            {p ? (
+              <PlayerSeat
+                player={p}
+                isCurrent={p.isActing}
+                isHero={heroId === p.id}
+                bet={p.currentBet}
+                timer={actionTimer?.seat === seat ? actionTimer : null}
+                bestHandDescription={
+                  showdown?.hands[p.id]?.name ?? (p.id === heroId ? heroHand?.name : undefined)
+                }
+                isWinner={showdown?.winners.includes(p.id) ?? false}
+                winningCards={showdown?.winningCards ?? null}
+              />
+            ) : (
+              <div className="w-24 h-14 rounded-xl border border-dashed border-white/15
+                  bg-black/30 flex flex-col items-center justify-center text-[10px] text-gray-500">
+                <span>Seat {seat + 1}</span>
+                <span className="uppercase tracking-widest">Empty</span>
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        );
+      })}
+
+      {/* Выигрыш: фишки из центра к победителям */}
+      {awards.map((award) => {
+        const pos = positions.find((x) => x.seat === award.seat);
+        if (!pos) return null;
+        return (
+          <AwardChips
+            key={`award-${award.seat}-${award.amount}`}
+            from={towardCenter(pos, 0)}
+            to={towardCenter(pos, 0.55)}
+            amount={award.amount}
+          />
+        );
+      })}
 
     </div>
   );
@@ -0,0 +1,89 @@
+// src/components/PayoutTable.tsx
+//
+// Таблица выплат (см. utils/payouts.ts). Используется в превью на
+// CreateTournamentPage и на TournamentPage по мере роста поля.
+
+import React, { useState } from "react";
+import type { PayoutTable as PayoutTableData } from "../utils/payouts";
+
+type PayoutTableProps = {
+  payouts: PayoutTableData;
+  /** Сколько строк показывать до "Show all" */
+  maxRows?: number;
+};
+
+function placeLabel(from: number, to: number): string {
+  return from === to ? `${from}` : `${from}–${to}`;
+}
+
+const PayoutTable: React.FC<PayoutTableProps> = ({ payouts, maxRows = 12 }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (payouts.rows.length === 0) {
+    return <p className="text-xs text-gray-500">No entrants yet — nothing to pay.</p>;
+  }
+
+  const showAmounts = payouts.prizePool > 0;
+  const hasBonus = payouts.rows.some((r) => r.bonus > 0);
+  const rows = expanded ? payouts.rows : payouts.rows.slice(0, maxRows);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap gap-x-3 text-gray-300">
+        <span>{payouts.paidPlaces} paid</span>
+        {showAmounts ? (
+          <span>Prize pool {payouts.prizePool.toLocaleString()}</span>
+        ) : (
+          <span className="text-gray-500">No prize pool set — percentages only</span>
+        )}
+        {payouts.bountyPool > 0 && (
+          <span>Bounties {payouts.bountyPool.toLocaleString()}</span>
+        )}
+      </div>
+
+      <table className="w-full">
+        <thead className="text-gray-400">
+          <tr>
+            <th className="py-1 text-left">Place</th>
+            <th className="py-1 text-right">%</th>
+            {showAmounts && <th className="py-1 text-right">Amount</th>}
+            {hasBonus && <th className="py-1 text-right">FT bonus</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.fromPlace} className="border-t border-white/5">
+              <td className="py-1">
+                {placeLabel(row.fromPlace, row.toPlace)}
+                {row.isSeat && <span className="ml-1 text-emerald-300">seat</span>}
+              </td>
+              <td className="py-1 text-right">{row.percent.toFixed(2)}</td>
+              {showAmounts && (
+                <td className="py-1 text-right">{row.amount.toLocaleString()}</td>
+              )}
+              {hasBonus && (
+                <td
+                  className="py-1 text-right"
+                  title={row.toPlace > row.fromPlace ? "Final-table bonus for the whole band" : undefined}
+                >
+                  {row.bonus > 0 ? `+${row.bonus.toLocaleString()}` : "—"}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {payouts.rows.length > maxRows && (
+        <button
+          className="text-[11px] text-gray-400 hover:text-gray-200"
+          onClick={() => setExpanded((v) => !v)}
+        >
+          {expanded ? "Show less" : `Show all ${payouts.rows.length} rows`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PayoutTable;
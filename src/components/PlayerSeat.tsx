@@ -3,6 +3,9 @@
 import React from "react";
 import type { Player, UICard } from "../types/poker";
 import Card from "./Card";
+import TimerBar from "./TimerBar";
+import { cardKey } from "../utils/handEvaluator";
+import type { ActionTimerSnapshot } from "../utils/actionTimer";
 
 type PlayerSeatProps = {
   player: Player;
@@ -16,6 +19,12 @@ type PlayerSeatProps = {
   bestHandDescription?: string;
   /** Если передать, эти карты будут показаны как hole-cards (можешь переопределить player.cards) */
   holeCardsOverride?: UICard[];
+  /** Вскрытие: игрок забрал банк (или его часть) */
+  isWinner?: boolean;
+  /** Вскрытие: cardKey() выигравших карт для подсветки */
+  winningCards?: Set<string> | null;
+  /** Таймер хода — только у игрока, который сейчас ходит */
+  timer?: ActionTimerSnapshot | null;
 };
 
 const PlayerSeat: React.FC<PlayerSeatProps> = ({
@@ -25,6 +34,9 @@ const PlayerSeat: React.FC<PlayerSeatProps> = ({
   bet,
   bestHandDescription,
   holeCardsOverride,
+  isWinner = false,
+  winningCards = null,
+  timer = null,
 }) => {
   const status =
     player.isFolded ? "folded" : player.isAllIn ? "allin" : "active";
@@ -41,7 +53,9 @@ const PlayerSeat: React.FC<PlayerSeatProps> = ({
 
   const baseBorder =
     "rounded-xl border bg-black/50 p-3 flex flex-col gap-1 text-xs";
-  const activeGlow = isCurrent
+  const activeGlow = isWinner
+    ? "border-yellow-400 shadow-[0_0_25px_rgba(250,204,21,0.7)]"
+    : isCurrent
     ? "border-red-500 shadow-[0_0_25px_rgba(248,113,113,0.7)]"
     : "border-white/15";
 
@@ -93,6 +107,27 @@ const PlayerSeat: React.FC<PlayerSeatProps> = ({
         </span>
       </div>
 
+      {/* Таймер хода: основное время, затем time bank другим цветом */}
+      {timer && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <TimerBar
+              timeRemaining={timer.remainingSecs}
+              totalTime={timer.phaseSecs}
+              timeBank={timer.phase !== "action"}
+            />
+          </div>
+          <span
+            className={`text-[10px] tabular-nums ${
+              timer.phase === "action" ? "text-gray-300" : "text-amber-300"
+            }`}
+          >
+            {timer.phase === "timeBank" && "Bank "}
+            {Math.ceil(timer.remainingSecs)}s
+          </span>
+        </div>
+      )}
+
       {/* Hole-cards */}
       <div className="flex gap-1 mt-1">
         {cards.length === 0 && (
@@ -105,13 +140,14 @@ const PlayerSeat: React.FC<PlayerSeatProps> = ({
             size="md"
             dimmed={status === "folded"}
             forceHidden={card.hidden}
+            highlighted={isWinner && (winningCards?.has(cardKey(card)) ?? false)}
           />
         ))}
       </div>
 
       {/* Лучшая комбинация, если есть */}
       {bestHandDescription && (
-        <div className="mt-1 text-[10px] text-gray-300">
+        <div className={`mt-1 text-[10px] ${isWinner ? "text-yellow-300 font-semibold" : "text-gray-300"}`}>
           Best: {bestHandDescription}
         </div>
       )}
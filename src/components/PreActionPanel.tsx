@@ -0,0 +1,56 @@
+// src/components/PreActionPanel.tsx
+//
+// Галочки пре-экшенов, пока ход не у героя. Выбрать можно только одну:
+// повторный клик снимает её.
+
+import React from "react";
+import type { PreAction, PreActionKind } from "../linera/preActionStore";
+
+type PreActionPanelProps = {
+  preAction: PreAction | null;
+  /** Сколько сейчас стоит колл (для подписи "Call 400") */
+  callAmount: number;
+  disabled?: boolean;
+  onToggle: (kind: PreActionKind) => void;
+};
+
+const PreActionPanel: React.FC<PreActionPanelProps> = ({
+  preAction,
+  callAmount,
+  disabled = false,
+  onToggle,
+}) => {
+  const options: Array<{ kind: PreActionKind; label: string }> = [
+    { kind: "check_fold", label: "Check / Fold" },
+    // привязан к текущей сумме: после re-raise галочка снимается
+    { kind: "call", label: callAmount > 0 ? `Call ${callAmount.toLocaleString()}` : "Check" },
+    { kind: "call_any", label: "Call any" },
+    { kind: "fold_any", label: "Fold to any bet" },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs">
+      <span className="text-gray-400">Pre-action:</span>
+      {options.map(({ kind, label }) => (
+        <label
+          key={kind}
+          className={
+            "flex items-center gap-1.5 cursor-pointer " +
+            (disabled ? "opacity-40 cursor-not-allowed" : "")
+          }
+        >
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-red-600"
+            checked={preAction?.kind === kind}
+            disabled={disabled}
+            onChange={() => onToggle(kind)}
+          />
+          <span>{label}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default PreActionPanel;
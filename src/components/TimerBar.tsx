@@ -1,17 +1,21 @@
 interface TimerBarProps {
   timeRemaining: number;
   totalTime: number;
+  /** Игрок уже тратит time bank — другой цвет полосы */
+  timeBank?: boolean;
 }
 
-export default function TimerBar({ timeRemaining, totalTime }: TimerBarProps) {
-  const percentage = (timeRemaining / totalTime) * 100;
+export default function TimerBar({ timeRemaining, totalTime, timeBank = false }: TimerBarProps) {
+  const percentage = totalTime > 0 ? Math.min(100, (timeRemaining / totalTime) * 100) : 0;
   const isLowTime = percentage < 30;
 
   return (
     <div className="w-full h-2 bg-black/30 rounded-full overflow-hidden shadow-inner">
       <div
         className={`h-full rounded-full transition-all duration-1000 ease-linear ${
-          isLowTime
+          timeBank
+            ? `bg-gradient-to-r from-amber-500 to-yellow-300 ${isLowTime ? 'animate-pulse' : ''}`
+            : isLowTime
             ? 'bg-gradient-to-r from-red-600 to-red-500 animate-pulse'
             : 'bg-gradient-to-r from-white to-gray-200'
         }`}
@@ -0,0 +1,119 @@
+// src/components/TournamentClock.tsx
+//
+// Турнирные часы: обратный отсчёт уровня, текущие / следующие блайнды,
+// время до перерыва и оверлей "On break".
+// compact — однострочный вариант для шапки TablePage.
+
+import React from "react";
+import type { BlindLevel } from "../types/poker";
+import type { TournamentClockState } from "../hooks/useTournamentClock";
+import { formatClock } from "../utils/tournamentClock";
+
+type TournamentClockProps = {
+  state: TournamentClockState;
+  /** Уровень из view — показываем, даже если структура неизвестна */
+  level: number;
+  compact?: boolean;
+};
+
+function blindsLabel(l: BlindLevel | null): string {
+  if (!l) return "—";
+  const base = `${l.smallBlind.toLocaleString()}/${l.bigBlind.toLocaleString()}`;
+  return l.ante > 0 ? `${base} (${l.ante.toLocaleString()})` : base;
+}
+
+const TournamentClock: React.FC<TournamentClockProps> = ({
+  state,
+  level,
+  compact = false,
+}) => {
+  const { clock, onBreak, breakRemainingSecs, approximate } = state;
+  const approx = approximate ? "~" : "";
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2 text-[11px] text-gray-300">
+        <span className="px-2 py-0.5 rounded-full bg-white/10 font-semibold">
+          Lvl {level}
+        </span>
+        {onBreak ? (
+          <span className="text-amber-300 font-semibold">
+            On break
+            {breakRemainingSecs !== null && ` · ${approx}${formatClock(breakRemainingSecs)}`}
+          </span>
+        ) : clock ? (
+          <>
+            <span className="font-mono">
+              {approx}
+              {formatClock(clock.levelRemainingSecs)}
+            </span>
+            <span>{blindsLabel(clock.current)}</span>
+            <span className="text-gray-500">next {blindsLabel(clock.next)}</span>
+          </>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative rounded-2xl bg-neutral-900/70 border border-neutral-800/70 px-5 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm font-semibold">Tournament clock</div>
+        <div className="text-xs text-gray-400">Level {level}</div>
+      </div>
+
+      {!clock && !onBreak ? (
+        <div className="text-xs text-gray-500">
+          {state.status === "Running"
+            ? "Структура уровней неизвестна: турнир создан не из этого браузера."
+            : "Часы пойдут после старта турнира."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-4xl font-mono font-semibold tracking-wider">
+            {approx}
+            {formatClock(clock?.levelRemainingSecs ?? 0)}
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div>
+              <div className="text-gray-400">Blinds (ante)</div>
+              <div className="font-semibold">{blindsLabel(clock?.current ?? null)}</div>
+            </div>
+            <div>
+              <div className="text-gray-400">
+                Next{clock?.breakBeforeNext ? " (after break)" : ""}
+              </div>
+              <div className="font-semibold">{blindsLabel(clock?.next ?? null)}</div>
+            </div>
+          </div>
+          <div className="text-xs text-gray-400">
+            {clock?.secsUntilBreak != null
+              ? `Next break in ${approx}${formatClock(clock.secsUntilBreak)} · ${Math.round(
+                  clock.breakDurationSecs / 60
+                )} min`
+              : "No more breaks"}
+          </div>
+          {approximate && (
+            <div className="text-[10px] text-gray-500">
+              ~ уровень уже шёл при открытии страницы, отсчёт приблизительный.
+            </div>
+          )}
+        </div>
+      )}
+
+      {onBreak && (
+        <div className="absolute inset-0 rounded-2xl bg-black/80 flex flex-col items-center justify-center gap-1">
+          <div className="text-lg font-semibold text-amber-300">On break</div>
+          {breakRemainingSecs !== null && (
+            <div className="text-2xl font-mono">
+              {approx}
+              {formatClock(breakRemainingSecs)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TournamentClock;
@@ -5,3 +5,8 @@
 export const DEV_MULTI_SEAT_MODE: boolean =
   (import.meta as unknown as { env: Record<string, string | undefined> }).env
     .VITE_DEV_MULTI_SEAT_MODE === "true";
+
+// In-memory mock вместо Linera testnet (см. linera/mockBackend.ts).
+export const DEV_MOCK_BACKEND: boolean =
+  (import.meta as unknown as { env: Record<string, string | undefined> }).env
+    .VITE_MOCK_BACKEND === "true";
@@ -0,0 +1,69 @@
+// src/config/equityHelper.ts
+//
+// Настройки помощника колла (pot odds + эквити) на TablePage: вкл/выкл
+// и число раздач в Monte Carlo. Редактируются на странице Settings.
+//
+// На турнирных столах помощник выключен всегда: контракт не отдаёт
+// правило турнира, поэтому считаем, что там он запрещён.
+
+export type EquityHelperSettings = {
+  enabled: boolean;
+  /** Раздач в одной оценке эквити */
+  iterations: number;
+};
+
+/** Варианты точности для Settings: больше — точнее и дольше. */
+export const EQUITY_ITERATION_OPTIONS: Array<{ iterations: number; label: string }> = [
+  { iterations: 2000, label: "Fast (2k hands)" },
+  { iterations: 10000, label: "Balanced (10k hands)" },
+  { iterations: 40000, label: "Precise (40k hands)" },
+];
+
+export const DEFAULT_EQUITY_HELPER_SETTINGS: EquityHelperSettings = {
+  enabled: true,
+  iterations: 10000,
+};
+
+const STORAGE_KEY = "linera-poker.equity-helper";
+
+export const EQUITY_HELPER_FORMAT_VERSION = 1;
+
+type StoredEquityHelper = {
+  version: typeof EQUITY_HELPER_FORMAT_VERSION;
+  settings: EquityHelperSettings;
+};
+
+export function loadEquityHelperSettings(): EquityHelperSettings {
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return DEFAULT_EQUITY_HELPER_SETTINGS;
+  }
+  if (raw === null) return DEFAULT_EQUITY_HELPER_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredEquityHelper>;
+    if (
+      parsed.version !== EQUITY_HELPER_FORMAT_VERSION ||
+      typeof parsed.settings !== "object" ||
+      parsed.settings === null
+    ) {
+      console.warn("[Equity] stored equity helper settings have unknown format, using defaults");
+      return DEFAULT_EQUITY_HELPER_SETTINGS;
+    }
+    return { ...DEFAULT_EQUITY_HELPER_SETTINGS, ...parsed.settings };
+  } catch {
+    console.warn("[Equity] stored equity helper settings are not valid JSON, using defaults");
+    return DEFAULT_EQUITY_HELPER_SETTINGS;
+  }
+}
+
+export function saveEquityHelperSettings(settings: EquityHelperSettings): void {
+  const stored: StoredEquityHelper = { version: EQUITY_HELPER_FORMAT_VERSION, settings };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn("[Equity] failed to persist equity helper settings:", e);
+  }
+}
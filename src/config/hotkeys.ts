@@ -0,0 +1,132 @@
+// src/config/hotkeys.ts
+//
+// Горячие клавиши стола: привязки по умолчанию и их хранение в
+// localStorage. Редактируются на странице Settings, применяются в
+// TablePage через hooks/useHotkeys.ts.
+//
+// Клавиши храним как KeyboardEvent.key; буквы — в нижнем регистре,
+// чтобы Shift / Caps Lock не ломали привязку.
+
+export type HotkeyAction =
+  | "fold"
+  | "checkCall"
+  | "raise"
+  | "allIn"
+  | "preset1"
+  | "preset2"
+  | "preset3"
+  | "preset4"
+  | "preset5"
+  | "confirm"
+  | "cancel";
+
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export type HotkeySettings = {
+  enabled: boolean;
+  /** true: F/C/R/A и пресеты только выбирают действие, отправляет Enter */
+  confirmWithEnter: boolean;
+  bindings: HotkeyBindings;
+};
+
+/** Порядок и подписи для Settings; пресеты идут в порядке betPresets(). */
+export const HOTKEY_ACTIONS: Array<{ action: HotkeyAction; label: string }> = [
+  { action: "fold", label: "Fold" },
+  { action: "checkCall", label: "Check / Call" },
+  { action: "raise", label: "Bet / Raise" },
+  { action: "allIn", label: "All-in" },
+  { action: "preset1", label: "Size 1/3 pot" },
+  { action: "preset2", label: "Size 1/2 pot" },
+  { action: "preset3", label: "Size 2/3 pot" },
+  { action: "preset4", label: "Size pot" },
+  { action: "preset5", label: "Size all-in" },
+  { action: "confirm", label: "Confirm" },
+  { action: "cancel", label: "Cancel selection" },
+];
+
+export const DEFAULT_HOTKEY_SETTINGS: HotkeySettings = {
+  enabled: true,
+  confirmWithEnter: true,
+  bindings: {
+    fold: "f",
+    checkCall: "c",
+    raise: "r",
+    allIn: "a",
+    preset1: "1",
+    preset2: "2",
+    preset3: "3",
+    preset4: "4",
+    preset5: "5",
+    confirm: "Enter",
+    cancel: "Escape",
+  },
+};
+
+const STORAGE_KEY = "linera-poker.hotkeys";
+
+export const HOTKEYS_FORMAT_VERSION = 1;
+
+type StoredHotkeys = {
+  version: typeof HOTKEYS_FORMAT_VERSION;
+  settings: HotkeySettings;
+};
+
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/** "F", "Enter", "Space" — для кнопок и подсказок. */
+export function formatKey(key: string): string {
+  if (key === " ") return "Space";
+  if (key === "") return "—";
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+export function loadHotkeySettings(): HotkeySettings {
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return DEFAULT_HOTKEY_SETTINGS;
+  }
+  if (raw === null) return DEFAULT_HOTKEY_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredHotkeys>;
+    if (parsed.version !== HOTKEYS_FORMAT_VERSION || typeof parsed.settings !== "object" || parsed.settings === null) {
+      console.warn("[Hotkeys] stored hotkeys have unknown format, using defaults");
+      return DEFAULT_HOTKEY_SETTINGS;
+    }
+    // новые действия из будущих версий получают клавиши по умолчанию
+    return {
+      ...DEFAULT_HOTKEY_SETTINGS,
+      ...parsed.settings,
+      bindings: { ...DEFAULT_HOTKEY_SETTINGS.bindings, ...parsed.settings.bindings },
+    };
+  } catch {
+    console.warn("[Hotkeys] stored hotkeys are not valid JSON, using defaults");
+    return DEFAULT_HOTKEY_SETTINGS;
+  }
+}
+
+export function saveHotkeySettings(settings: HotkeySettings): void {
+  const stored: StoredHotkeys = { version: HOTKEYS_FORMAT_VERSION, settings };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn("[Hotkeys] failed to persist hotkeys:", e);
+  }
+}
+
+/** Действие, уже занявшее клавишу (кроме `except`), или null. */
+export function findBindingConflict(
+  bindings: HotkeyBindings,
+  key: string,
+  except: HotkeyAction
+): HotkeyAction | null {
+  const normalized = normalizeKey(key);
+  const hit = HOTKEY_ACTIONS.find(
+    ({ action }) => action !== except && bindings[action] === normalized
+  );
+  return hit ? hit.action : null;
+}
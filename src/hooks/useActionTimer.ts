@@ -0,0 +1,175 @@
+// src/hooks/useActionTimer.ts
+//
+// Таймер хода для TablePage: якорь в localStorage (actionTimerStore),
+// тик раз в 250 мс, списание time bank'а при смене хода и звуковое
+// предупреждение герою в последние секунды.
+
+import { useEffect, useRef, useState } from "react";
+import type { GqlTableView, TableId } from "../linera/pokerApi";
+import {
+  loadActionTimerAnchor,
+  saveActionTimerAnchor,
+  type ActionTimerAnchor,
+} from "../linera/actionTimerStore";
+import {
+  ACTION_WARNING_SECS,
+  computeActionTimer,
+  decisionKey,
+  timeBankUsed,
+  type ActionTimerSnapshot,
+} from "../utils/actionTimer";
+
+// Ход, начатый заметно раньше возможного конца, мы не наблюдали
+// (вкладка была закрыта) — его банк не списываем.
+const UNOBSERVED_SLACK_SECS = 30;
+
+function bankOf(anchor: ActionTimerAnchor | null, playerId: number, timeBankSecs: number): number {
+  const left = anchor?.banks[String(playerId)];
+  return left === undefined ? timeBankSecs : Math.min(left, timeBankSecs);
+}
+
+/** Закрывает ход из прошлого якоря: списывает потраченный банк. */
+function settleBanks(
+  prev: ActionTimerAnchor | null,
+  now: number,
+  actionTimeSecs: number,
+  timeBankSecs: number
+): Record<string, number> {
+  const banks = { ...(prev?.banks ?? {}) };
+  if (!prev || prev.key === "") return banks;
+
+  const elapsed = (now - prev.since) / 1000;
+  if (elapsed > actionTimeSecs + timeBankSecs + UNOBSERVED_SLACK_SECS) return banks;
+
+  const bank = bankOf(prev, prev.playerId, timeBankSecs);
+  const used = timeBankUsed(elapsed, actionTimeSecs, bank);
+  if (used > 0) banks[String(prev.playerId)] = Math.max(0, bank - used);
+  return banks;
+}
+
+// Autoplay policy: контекст, созданный не из жеста пользователя, стартует
+// "suspended". Поэтому создаём / будим его на первом клике или клавише за
+// столом, а beep() на всякий случай ещё раз зовёт resume().
+let audioCtx: AudioContext | null = null;
+
+function unlockAudio(): void {
+  try {
+    audioCtx ??= new AudioContext();
+    if (audioCtx.state === "suspended") void audioCtx.resume();
+  } catch {
+    // нет WebAudio — предупреждение будет только визуальным
+  }
+}
+
+function beep(): void {
+  try {
+    audioCtx ??= new AudioContext();
+    if (audioCtx.state === "suspended") void audioCtx.resume();
+    const osc = audioCtx.createOscillator();
+    const gain = audioCtx.createGain();
+    osc.frequency.value = 880;
+    gain.gain.value = 0.08;
+    osc.connect(gain).connect(audioCtx.destination);
+    osc.start();
+    osc.stop(audioCtx.currentTime + 0.12);
+  } catch {
+    // нет WebAudio / autoplay policy — молча без звука
+  }
+}
+
+export function useActionTimer(
+  tableId: TableId | null,
+  table: GqlTableView | null,
+  actionTimeSecs: number,
+  timeBankSecs: number,
+  heroSeat: number | null
+): ActionTimerSnapshot | null {
+  const [anchor, setAnchor] = useState<ActionTimerAnchor | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const detach = () => {
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+    const unlock = () => {
+      unlockAudio();
+      detach();
+    };
+    window.addEventListener("pointerdown", unlock);
+    window.addEventListener("keydown", unlock);
+    return detach;
+  }, []);
+
+  // Сверяем якорь с каждым новым снимком стола.
+  useEffect(() => {
+    if (!tableId || !table) {
+      setAnchor(null);
+      return;
+    }
+    const stored = loadActionTimerAnchor(tableId);
+    const key = decisionKey(table);
+
+    if (key !== null && stored?.key === key) {
+      // тот же ход (в т.ч. после перезагрузки) — отсчёт продолжается
+      setAnchor((prev) => (prev?.key === key && prev.since === stored.since ? prev : stored));
+      return;
+    }
+
+    const at = Date.now();
+    const actor = table.players.find((p) => p.seat_index === table.current_actor_seat);
+    if (key === null || !actor) {
+      // раздача не идёт: закрываем прошлый ход, чтобы пауза не ела банк
+      if (stored && stored.key !== "") {
+        const banks = settleBanks(stored, at, actionTimeSecs, timeBankSecs);
+        saveActionTimerAnchor(tableId, { key: "", playerId: -1, since: at, banks });
+      }
+      setAnchor(null);
+      return;
+    }
+
+    const next: ActionTimerAnchor = {
+      key,
+      playerId: actor.player_id,
+      since: at,
+      banks: settleBanks(stored, at, actionTimeSecs, timeBankSecs),
+    };
+    saveActionTimerAnchor(tableId, next);
+    setAnchor(next);
+    setNow(at);
+  }, [tableId, table, actionTimeSecs, timeBankSecs]);
+
+  useEffect(() => {
+    if (!anchor) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [anchor]);
+
+  const actorSeat = table?.current_actor_seat ?? null;
+  const snapshot =
+    anchor && actorSeat !== null
+      ? computeActionTimer(
+          actorSeat,
+          (now - anchor.since) / 1000,
+          actionTimeSecs,
+          bankOf(anchor, anchor.playerId, timeBankSecs)
+        )
+      : null;
+
+  // Пищим раз в секунду в последние ACTION_WARNING_SECS хода героя.
+  const lastBeep = useRef<string | null>(null);
+  const warnSecond =
+    snapshot && snapshot.seat === heroSeat && snapshot.phase !== "expired"
+      ? Math.ceil(snapshot.totalRemainingSecs)
+      : null;
+
+  useEffect(() => {
+    if (warnSecond === null || warnSecond > ACTION_WARNING_SECS || !anchor) return;
+    const mark = `${anchor.key}:${warnSecond}`;
+    if (lastBeep.current === mark) return;
+    lastBeep.current = mark;
+    beep();
+  }, [warnSecond, anchor]);
+
+  return snapshot;
+}
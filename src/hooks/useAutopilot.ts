@@ -0,0 +1,35 @@
+// src/hooks/useAutopilot.ts
+//
+// React-обёртка над src/linera/autopilot.ts: состояние автопилота + команды.
+
+import { useEffect, useState } from "react";
+import {
+  getAutopilotState,
+  pauseAutopilot,
+  resumeAutopilot,
+  startAutopilot,
+  stopAutopilot,
+  subscribeAutopilot,
+  type AutopilotState,
+} from "../linera/autopilot";
+
+export type AutopilotControls = {
+  state: AutopilotState;
+  start: typeof startAutopilot;
+  pause: typeof pauseAutopilot;
+  resume: typeof resumeAutopilot;
+  stop: typeof stopAutopilot;
+};
+
+export function useAutopilot(): AutopilotControls {
+  const [state, setState] = useState<AutopilotState>(getAutopilotState);
+  useEffect(() => subscribeAutopilot(setState), []);
+
+  return {
+    state,
+    start: startAutopilot,
+    pause: pauseAutopilot,
+    resume: resumeAutopilot,
+    stop: stopAutopilot,
+  };
+}
@@ -0,0 +1,76 @@
+// src/hooks/useEquity.ts
+//
+// Monte Carlo эквити героя через workers/equityWorker.ts. Новый расчёт —
+// только когда меняются карты, число соперников или точность; ответы на
+// устаревшие запросы отбрасываются по id. Воркер создаётся при первой
+// оценке и живёт, пока смонтирован стол.
+
+import { useEffect, useRef, useState } from "react";
+import type { UICard } from "../types/poker";
+import { cardKey } from "../utils/handEvaluator";
+import type { EquityEstimate } from "../utils/equity";
+import type { EquityRequest, EquityResponse } from "../workers/equityWorker";
+
+export type EquityState = {
+  estimate: EquityEstimate | null;
+  /** Идёт расчёт для текущих карт (estimate может быть от прошлых) */
+  pending: boolean;
+};
+
+export function useEquity(
+  hole: UICard[],
+  board: UICard[],
+  opponents: number,
+  iterations: number,
+  active: boolean
+): EquityState {
+  const workerRef = useRef<Worker | null>(null);
+  const lastIdRef = useRef(0);
+  const [state, setState] = useState<EquityState>({ estimate: null, pending: false });
+  // свежие карты для эффекта, который перезапускается только по key
+  const inputRef = useRef({ hole, board, opponents, iterations });
+  inputRef.current = { hole, board, opponents, iterations };
+
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    },
+    []
+  );
+
+  const key = active
+    ? `${hole.map(cardKey).join(",")}|${board.map(cardKey).join(",")}|${opponents}|${iterations}`
+    : null;
+
+  useEffect(() => {
+    if (key === null) {
+      lastIdRef.current += 1;
+      setState({ estimate: null, pending: false });
+      return;
+    }
+    if (typeof Worker === "undefined") return;
+
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../workers/equityWorker.ts", import.meta.url), {
+        type: "module",
+      });
+      worker.onmessage = (e: MessageEvent<EquityResponse>) => {
+        if (e.data.id !== lastIdRef.current) return;
+        setState({ estimate: e.data.estimate, pending: false });
+      };
+      worker.onerror = (e) => {
+        console.warn("[Equity] worker failed:", e.message);
+        setState({ estimate: null, pending: false });
+      };
+      workerRef.current = worker;
+    }
+
+    lastIdRef.current += 1;
+    const request: EquityRequest = { id: lastIdRef.current, ...inputRef.current };
+    workerRef.current.postMessage(request);
+    setState((prev) => ({ ...prev, pending: true }));
+  }, [key]);
+
+  return state;
+}
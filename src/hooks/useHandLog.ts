@@ -0,0 +1,41 @@
+// src/hooks/useHandLog.ts
+//
+// Лог раздач стола: сохранённые события (handLogStore) + новые из
+// потока событий; каждая пачка сразу пишется в localStorage.
+
+import { useEffect, useMemo, useState } from "react";
+import type { TableId } from "../linera/pokerApi";
+import { loadHandLog, saveHandLog } from "../linera/handLogStore";
+import type { TableEventEntry } from "../linera/tableEventStream";
+import { buildHandLog, trimToHands, type HandLogHand } from "../utils/handLog";
+import { useTableEvents } from "./useTableEvents";
+
+type LogState = {
+  tableId: TableId | null;
+  entries: TableEventEntry[];
+};
+
+export function useHandLog(tableId: TableId | null): HandLogHand[] {
+  const [log, setLog] = useState<LogState>(() => ({
+    tableId,
+    entries: tableId ? loadHandLog(tableId) : [],
+  }));
+
+  useEffect(() => {
+    setLog((prev) =>
+      prev.tableId === tableId ? prev : { tableId, entries: tableId ? loadHandLog(tableId) : [] }
+    );
+  }, [tableId]);
+
+  useTableEvents(tableId, (fresh) => {
+    setLog((prev) =>
+      prev.tableId === tableId ? { tableId, entries: trimToHands([...prev.entries, ...fresh]) } : prev
+    );
+  });
+
+  useEffect(() => {
+    if (log.tableId) saveHandLog(log.tableId, log.entries);
+  }, [log]);
+
+  return useMemo(() => buildHandLog(log.entries), [log.entries]);
+}
@@ -0,0 +1,45 @@
+// src/hooks/useHero.ts
+//
+// Идентичность героя для страниц: player_id из owner'а текущей сессии
+// (см. src/linera/playerIdentity.ts).
+
+import { useEffect, useState } from "react";
+import { describeError } from "../linera/errors";
+import { getHeroIdentity, type HeroIdentity } from "../linera/playerIdentity";
+
+export type HeroState = {
+  hero: HeroIdentity | null;
+  /** player_id строкой — в таком виде его ждут Player.id и OvalTable.heroId */
+  heroId: string | undefined;
+  loading: boolean;
+  error: string | null;
+};
+
+export function useHero(): HeroState {
+  const [hero, setHero] = useState<HeroIdentity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getHeroIdentity()
+      .then((h) => {
+        if (!cancelled) setHero(h);
+      })
+      .catch((e: unknown) => {
+        console.error("[useHero] failed to resolve hero identity", e);
+        if (!cancelled) setError(describeError(e, "Failed to resolve player identity"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    hero,
+    heroId: hero ? String(hero.playerId) : undefined,
+    loading: hero === null && error === null,
+    error,
+  };
+}
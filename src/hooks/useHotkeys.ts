@@ -0,0 +1,47 @@
+// src/hooks/useHotkeys.ts
+//
+// Глобальный keydown -> HotkeyAction по привязкам из config/hotkeys.ts.
+// Клавиши игнорируются, пока фокус в текстовом поле, и при зажатых
+// Ctrl / Alt / Meta, чтобы не перехватывать системные сочетания.
+// Слайдер ставки и галочки пре-экшенов хоткеи не глушат.
+
+import { useEffect, useRef } from "react";
+import { HOTKEY_ACTIONS, normalizeKey, type HotkeyAction, type HotkeySettings } from "../config/hotkeys";
+
+const TEXT_INPUT_TYPES = new Set(["text", "number", "search", "email", "password", "tel", "url"]);
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(target.type);
+  return target.tagName === "TEXTAREA" || target.tagName === "SELECT" || target.isContentEditable;
+}
+
+export function useHotkeys(
+  settings: HotkeySettings,
+  active: boolean,
+  onAction: (action: HotkeyAction) => void
+): void {
+  // свежий колбэк без переподписки на каждый рендер
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => {
+    if (!settings.enabled || !active) return;
+
+    const handler = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || e.repeat) return;
+      if (isEditableTarget(e.target)) return;
+
+      const key = normalizeKey(e.key);
+      const hit = HOTKEY_ACTIONS.find(({ action }) => settings.bindings[action] === key);
+      if (!hit) return;
+
+      // иначе Enter ещё и "нажмёт" кнопку в фокусе
+      e.preventDefault();
+      onActionRef.current(hit.action);
+    };
+
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  }, [settings, active]);
+}
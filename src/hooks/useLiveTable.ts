@@ -0,0 +1,108 @@
+// src/hooks/useLiveTable.ts
+//
+// React-обёртки над src/linera/liveUpdates.ts.
+// Компонент получает свежий снимок стола / турнира без ручного Refresh:
+// обновления приходят по нотификациям цепочки или polling'у.
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  refreshTable,
+  refreshTournament,
+  subscribeLiveTransport,
+  subscribeTable,
+  subscribeTournament,
+  type LiveState,
+  type LiveTournament,
+  type LiveTransport,
+} from "../linera/liveUpdates";
+import type { GqlTableView, TableId, TournamentId } from "../linera/pokerApi";
+
+const INITIAL_STATE: LiveState<never> = {
+  data: null,
+  loading: true,
+  error: null,
+  updatedAt: null,
+};
+
+export function useLiveTransport(): LiveTransport | null {
+  const [transport, setTransport] = useState<LiveTransport | null>(null);
+  useEffect(() => subscribeLiveTransport(setTransport), []);
+  return transport;
+}
+
+export type LiveTableResult = {
+  table: GqlTableView | null;
+  loading: boolean;
+  error: string | null;
+  updatedAt: number | null;
+  transport: LiveTransport | null;
+  refresh: () => Promise<void>;
+};
+
+/** Живой снимок стола. tableId = null — подписки нет. */
+export function useLiveTable(tableId: TableId | null): LiveTableResult {
+  const [state, setState] = useState<LiveState<GqlTableView>>(INITIAL_STATE);
+  const transport = useLiveTransport();
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    if (tableId === null) return;
+    return subscribeTable(tableId, setState);
+  }, [tableId]);
+
+  const refresh = useCallback(
+    () => (tableId === null ? Promise.resolve() : refreshTable(tableId)),
+    [tableId]
+  );
+
+  return {
+    table: state.data,
+    loading: state.loading,
+    error: state.error,
+    updatedAt: state.updatedAt,
+    transport,
+    refresh,
+  };
+}
+
+export type LiveTournamentResult = {
+  tournament: LiveTournament["tournament"];
+  tables: GqlTableView[];
+  loading: boolean;
+  error: string | null;
+  updatedAt: number | null;
+  transport: LiveTransport | null;
+  refresh: () => Promise<void>;
+};
+
+/** Живой снимок турнира вместе со столами. */
+export function useLiveTournament(
+  tournamentId: TournamentId | null
+): LiveTournamentResult {
+  const [state, setState] = useState<LiveState<LiveTournament>>(INITIAL_STATE);
+  const transport = useLiveTransport();
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    if (tournamentId === null) return;
+    return subscribeTournament(tournamentId, setState);
+  }, [tournamentId]);
+
+  const refresh = useCallback(
+    () =>
+      tournamentId === null
+        ? Promise.resolve()
+        : refreshTournament(tournamentId),
+    [tournamentId]
+  );
+
+  return {
+    tournament: state.data?.tournament ?? null,
+    tables: state.data?.tables ?? [],
+    loading: state.loading,
+    error: state.error,
+    updatedAt: state.updatedAt,
+    transport,
+    refresh,
+  };
+}
@@ -0,0 +1,112 @@
+// src/hooks/usePreAction.ts
+//
+// Очередь пре-экшена героя на столе. Пока ход чужой, герой ставит
+// галочку; как только живой снимок показывает current_actor_seat ==
+// место героя, действие уходит через onFire (TablePage -> sendPlayerAction).
+//
+// Сброс:
+// - раздача закончилась или сменилась (см. handKey), сменилась улица или
+//   герой уже не Active;
+// - "call" привязан к сумме: re-raise меняет ставку -> галочка снимается.
+// check/fold, call any и fold to any bet от суммы не зависят по смыслу.
+
+import { useEffect, useRef, useState } from "react";
+import type { GqlTableView, TableId } from "../linera/pokerApi";
+import {
+  loadPreAction,
+  savePreAction,
+  type PreAction,
+  type PreActionKind,
+} from "../linera/preActionStore";
+import type { ActionButtonKind } from "../components/ActionButtons";
+import type { LegalActions } from "../utils/legalActions";
+
+export type PreActionState = {
+  preAction: PreAction | null;
+  /** Поставить / снять галочку (повторный выбор того же вида снимает) */
+  toggle: (kind: PreActionKind) => void;
+  /** Галочки доступны: герой в раздаче, но ход не его */
+  available: boolean;
+};
+
+/** Опознание раздачи: дилер + карты героя (id раздачи TableView не отдаёт). */
+function handKey(table: GqlTableView, legal: LegalActions): string {
+  const cards = legal.hero?.hole_cards?.map((c) => `${c.rank}${c.suit}`).join(",") ?? "";
+  return `${table.dealer_button ?? "-"}|${cards}`;
+}
+
+function isStale(pre: PreAction, table: GqlTableView, legal: LegalActions): boolean {
+  if (!table.hand_in_progress || table.street !== pre.street) return true;
+  if (pre.hand !== handKey(table, legal)) return true;
+  if (!legal.hero || legal.hero.status !== "Active") return true;
+  return pre.kind === "call" && legal.currentBet !== pre.againstBet;
+}
+
+/** Во что превращается пре-экшен на ходу героя; null — решать самому. */
+function resolve(pre: PreAction, legal: LegalActions): ActionButtonKind | null {
+  switch (pre.kind) {
+    case "check_fold":
+      return legal.canCheck ? "check_or_call" : "fold";
+    case "call":
+    case "call_any":
+      return legal.canCheck || legal.canCall ? "check_or_call" : null;
+    case "fold_any":
+      return legal.canCall ? "fold" : null;
+  }
+}
+
+export function usePreAction(
+  tableId: TableId | null,
+  table: GqlTableView | null,
+  legal: LegalActions,
+  busy: boolean,
+  onFire: (kind: ActionButtonKind) => void
+): PreActionState {
+  const [preAction, setPreAction] = useState<PreAction | null>(() =>
+    tableId ? loadPreAction(tableId) : null
+  );
+
+  const onFireRef = useRef(onFire);
+  onFireRef.current = onFire;
+
+  const store = (next: PreAction | null) => {
+    setPreAction(next);
+    if (tableId) savePreAction(tableId, next);
+  };
+
+  useEffect(() => {
+    setPreAction(tableId ? loadPreAction(tableId) : null);
+  }, [tableId]);
+
+  useEffect(() => {
+    if (!preAction || !table || !tableId) return;
+
+    if (isStale(preAction, table, legal)) {
+      setPreAction(null);
+      savePreAction(tableId, null);
+      return;
+    }
+
+    if (!legal.isHeroTurn || busy) return;
+
+    // снимаем до отправки: следующий снимок не должен отправить повторно
+    setPreAction(null);
+    savePreAction(tableId, null);
+    const kind = resolve(preAction, legal);
+    if (kind) onFireRef.current(kind);
+  }, [preAction, table, tableId, legal, busy]);
+
+  const available =
+    !!table?.hand_in_progress && !legal.isHeroTurn && legal.hero?.status === "Active";
+
+  const toggle = (kind: PreActionKind) => {
+    if (!table) return;
+    if (preAction?.kind === kind) {
+      store(null);
+      return;
+    }
+    store({ kind, hand: handKey(table, legal), street: table.street, againstBet: legal.currentBet });
+  };
+
+  return { preAction, toggle, available };
+}
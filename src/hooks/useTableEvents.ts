@@ -0,0 +1,39 @@
+// src/hooks/useTableEvents.ts
+//
+// React-обёртка над linera/tableEventStream.ts: список событий стола
+// (история + новые) и опциональный колбэк на каждую пачку — для анимаций.
+
+import { useEffect, useRef, useState } from "react";
+import type { TableId } from "../linera/pokerApi";
+import {
+  getTableEventHistory,
+  subscribeTableEvents,
+  TABLE_EVENT_HISTORY_LIMIT,
+  type TableEventEntry,
+} from "../linera/tableEventStream";
+
+export function useTableEvents(
+  tableId: TableId | null,
+  onEvents?: (entries: TableEventEntry[]) => void
+): TableEventEntry[] {
+  const [entries, setEntries] = useState<TableEventEntry[]>([]);
+
+  const onEventsRef = useRef(onEvents);
+  onEventsRef.current = onEvents;
+
+  useEffect(() => {
+    if (tableId === null) {
+      setEntries([]);
+      return;
+    }
+
+    const unsubscribe = subscribeTableEvents(tableId, (fresh) => {
+      setEntries((prev) => [...prev, ...fresh].slice(-TABLE_EVENT_HISTORY_LIMIT));
+      onEventsRef.current?.(fresh);
+    });
+    setEntries(getTableEventHistory(tableId));
+    return unsubscribe;
+  }, [tableId]);
+
+  return entries;
+}
@@ -0,0 +1,140 @@
+// src/hooks/useTournamentClock.ts
+//
+// Турнирные часы для TournamentPage / TablePage.
+//
+// Цепочка отдаёт только current_level и status, без времени старта уровня.
+// Поэтому момент смены уровня / статуса фиксируем сами, когда видим его
+// в живых обновлениях. Если уровень уже шёл при первом взгляде, отсчёт
+// приблизительный (approximate = true).
+//
+// Якорь живёт в state хука и меняется только в эффекте: рендер его лишь
+// читает (StrictMode / concurrent-рендеры не должны сдвигать часы).
+
+import { useEffect, useState } from "react";
+import { findTournamentForTable } from "../linera/pokerApi";
+import type { GqlTournamentView, TableId, TournamentId } from "../linera/pokerApi";
+import type { TournamentConfig } from "../types/poker";
+import { computeClock, type ClockSnapshot } from "../utils/tournamentClock";
+
+type LevelAnchor = {
+  tournamentId: TournamentId;
+  level: number;
+  status: string;
+  since: number;
+  /** true — видели саму смену уровня / статуса, а не середину */
+  observed: boolean;
+};
+
+function matches(anchor: LevelAnchor | null, t: GqlTournamentView): anchor is LevelAnchor {
+  return (
+    anchor !== null &&
+    anchor.tournamentId === t.tournament_id &&
+    anchor.level === t.current_level &&
+    anchor.status === t.status
+  );
+}
+
+export type TournamentClockState = {
+  /** null — структура турнира неизвестна (нет локального конфига) */
+  clock: ClockSnapshot | null;
+  status: string | null;
+  onBreak: boolean;
+  breakRemainingSecs: number | null;
+  approximate: boolean;
+};
+
+export function useTournamentClock(
+  tournament: GqlTournamentView | null,
+  config: TournamentConfig | null
+): TournamentClockState {
+  const [now, setNow] = useState(() => Date.now());
+  const [anchor, setAnchor] = useState<LevelAnchor | null>(null);
+  const running = tournament?.status === "Running" || tournament?.status === "OnBreak";
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  const tournamentId = tournament?.tournament_id ?? null;
+  const level = tournament?.current_level ?? null;
+  const status = tournament?.status ?? null;
+
+  useEffect(() => {
+    if (tournamentId === null || level === null || status === null) {
+      setAnchor(null);
+      return;
+    }
+    setAnchor((prev) =>
+      prev && prev.tournamentId === tournamentId && prev.level === level && prev.status === status
+        ? prev
+        : {
+            tournamentId,
+            level,
+            status,
+            since: Date.now(),
+            // смену видели, только если до неё уже следили за этим турниром
+            observed: prev?.tournamentId === tournamentId,
+          }
+    );
+  }, [tournamentId, level, status]);
+
+  if (!tournament) {
+    return { clock: null, status: null, onBreak: false, breakRemainingSecs: null, approximate: false };
+  }
+
+  // до эффекта (первый рендер после смены уровня) якоря ещё нет: отсчёт с нуля
+  const current = matches(anchor, tournament) ? anchor : null;
+  const elapsedSecs = current ? Math.max(0, (now - current.since) / 1000) : 0;
+  const onBreak = tournament.status === "OnBreak";
+
+  const clock =
+    config && running
+      ? computeClock(config, tournament.current_level, onBreak ? 0 : elapsedSecs)
+      : null;
+
+  // длительность — у строки перерыва после текущего уровня (своя у каждой),
+  // breakDurationMinutes — только если строк-перерывов нет
+  const breakSecs =
+    onBreak && config ? computeClock(config, tournament.current_level, 0).breakDurationSecs : null;
+
+  return {
+    clock,
+    status: tournament.status,
+    onBreak,
+    breakRemainingSecs: breakSecs !== null ? Math.max(0, breakSecs - elapsedSecs) : null,
+    approximate: !current?.observed,
+  };
+}
+
+/**
+ * Турнир стола: id, null — точно кэш-стол, "unknown" — ещё ищем или поиск
+ * упал. Что запрещено в турнирах, включается только при null.
+ */
+export type TableTournamentLookup = TournamentId | null | "unknown";
+
+export function useTableTournamentId(tableId: TableId | null): TableTournamentLookup {
+  const [tournamentId, setTournamentId] = useState<TableTournamentLookup>("unknown");
+
+  useEffect(() => {
+    setTournamentId("unknown");
+    if (tableId === null) return;
+    let cancelled = false;
+
+    findTournamentForTable(tableId)
+      .then((id) => {
+        if (!cancelled) setTournamentId(id);
+      })
+      .catch((e: unknown) => {
+        // остаётся "unknown": считать стол кэшевым по ошибке нельзя
+        console.warn("[useTableTournamentId] lookup failed", e);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tableId]);
+
+  return tournamentId;
+}
@@ -0,0 +1,67 @@
+// src/linera/actionTimerStore.ts
+//
+// Якоря таймера хода по столам: с какого момента ходит текущий игрок
+// и сколько time bank'а осталось у каждого. Нужен, чтобы таймер не
+// начинался заново после перезагрузки (см. utils/actionTimer.ts).
+//
+// Формат версионирован так же, как sessionStore.
+
+import type { TableId } from "./pokerApi";
+
+export type ActionTimerAnchor = {
+  /** decisionKey(table) на момент, когда увидели этот ход */
+  key: string;
+  playerId: number;
+  /** Date.now() первого снимка с этим ходом */
+  since: number;
+  /** Остаток банка по player_id; нет записи — банк полный */
+  banks: Record<string, number>;
+};
+
+const STORAGE_KEY = "linera-poker.action-timers";
+
+export const ACTION_TIMERS_FORMAT_VERSION = 1;
+
+type StoredTimers = {
+  version: typeof ACTION_TIMERS_FORMAT_VERSION;
+  tables: Record<string, ActionTimerAnchor>;
+};
+
+function readAll(): StoredTimers {
+  const empty: StoredTimers = { version: ACTION_TIMERS_FORMAT_VERSION, tables: {} };
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return empty;
+  }
+  if (raw === null) return empty;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredTimers>;
+    if (
+      parsed.version !== ACTION_TIMERS_FORMAT_VERSION ||
+      typeof parsed.tables !== "object" ||
+      parsed.tables === null
+    ) {
+      return empty;
+    }
+    return parsed as StoredTimers;
+  } catch {
+    return empty;
+  }
+}
+
+export function loadActionTimerAnchor(tableId: TableId): ActionTimerAnchor | null {
+  return readAll().tables[tableId] ?? null;
+}
+
+export function saveActionTimerAnchor(tableId: TableId, anchor: ActionTimerAnchor): void {
+  const all = readAll();
+  all.tables[tableId] = anchor;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("[Linera] failed to persist action timer:", e);
+  }
+}
@@ -0,0 +1,278 @@
+// src/linera/autopilot.ts
+//
+// Админский автопилот турнира (opt-in, только VITE_ADMIN_MODE):
+// - раз в AUTOPILOT_TICK_SECS зовёт tickTable(tableId, deltaSecs) на всех
+//   столах турнира — без этого таймауты действий в контракте не срабатывают;
+// - когда истекает таймер уровня, зовёт advanceTournamentLevel.
+//
+// deltaSecs — реальное время с прошлого успешного шага, а не интервал:
+// шаг может идти дольше интервала (следующий тогда пропускается), а в
+// скрытой вкладке браузер зовёт setInterval раз в минуту.
+//
+// Таймер уровня идёт только пока автопилот запущен: пауза его замораживает.
+// Два админских окна не должны гнать один турнир дважды, поэтому автопилот
+// держит lock в localStorage (вкладка + heartbeat). Чужой свежий lock ->
+// статус "blocked"; lock без heartbeat дольше LOCK_STALE_MS считается брошенным.
+
+import {
+  advanceTournamentLevel,
+  fetchTournament,
+  fetchTournamentTables,
+  tickTable,
+} from "./lineraClient";
+import { describeError } from "./errors";
+import type { TournamentId } from "./pokerApi";
+
+export const AUTOPILOT_TICK_SECS = 5;
+
+const LOCK_KEY_PREFIX = "linera-poker.autopilot-lock:";
+const LOCK_STALE_MS = AUTOPILOT_TICK_SECS * 3 * 1000;
+const MAX_LOG_ENTRIES = 200;
+
+export type AutopilotStatus = "idle" | "running" | "paused" | "blocked";
+
+export type AutopilotLogEntry = {
+  at: number;
+  kind: "info" | "tick" | "level" | "error";
+  message: string;
+};
+
+export type AutopilotState = {
+  status: AutopilotStatus;
+  tournamentId: TournamentId | null;
+  levelDurationSecs: number;
+  /** Сколько секунд текущего уровня уже "прошло" под автопилотом */
+  levelElapsedSecs: number;
+  log: AutopilotLogEntry[];
+};
+
+type LockRecord = { tabId: string; heartbeat: number };
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+let state: AutopilotState = {
+  status: "idle",
+  tournamentId: null,
+  levelDurationSecs: 0,
+  levelElapsedSecs: 0,
+  log: [],
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let inFlight = false;
+/** Момент, до которого время уже зачтено столам и таймеру уровня */
+let creditedUntil = 0;
+let unloadHookInstalled = false;
+const listeners = new Set<(s: AutopilotState) => void>();
+
+function setState(patch: Partial<AutopilotState>): void {
+  state = { ...state, ...patch };
+  for (const l of Array.from(listeners)) l(state);
+}
+
+function log(kind: AutopilotLogEntry["kind"], message: string): void {
+  const entry: AutopilotLogEntry = { at: Date.now(), kind, message };
+  setState({ log: [entry, ...state.log].slice(0, MAX_LOG_ENTRIES) });
+}
+
+// ----- lock между вкладками -----
+
+function lockKey(id: TournamentId): string {
+  return `${LOCK_KEY_PREFIX}${id}`;
+}
+
+function readLock(id: TournamentId): LockRecord | null {
+  try {
+    const raw = window.localStorage.getItem(lockKey(id));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<LockRecord>;
+    return typeof parsed.tabId === "string" && typeof parsed.heartbeat === "number"
+      ? { tabId: parsed.tabId, heartbeat: parsed.heartbeat }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Берёт / продлевает lock. false — турнир уже ведёт другая вкладка. */
+function acquireLock(id: TournamentId): boolean {
+  const current = readLock(id);
+  if (current && current.tabId !== tabId && Date.now() - current.heartbeat < LOCK_STALE_MS) {
+    return false;
+  }
+  const record: LockRecord = { tabId, heartbeat: Date.now() };
+  try {
+    window.localStorage.setItem(lockKey(id), JSON.stringify(record));
+  } catch {
+    // без localStorage защититься нечем — работаем как единственная вкладка
+  }
+  return true;
+}
+
+function releaseLock(id: TournamentId): void {
+  if (readLock(id)?.tabId !== tabId) return;
+  try {
+    window.localStorage.removeItem(lockKey(id));
+  } catch {
+    // nothing to release
+  }
+}
+
+function installUnloadHook(): void {
+  if (unloadHookInstalled) return;
+  unloadHookInstalled = true;
+  window.addEventListener("pagehide", () => {
+    if (state.tournamentId !== null) releaseLock(state.tournamentId);
+  });
+}
+
+// ----- цикл -----
+
+function stopTimer(): void {
+  if (timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+async function step(): Promise<void> {
+  const id = state.tournamentId;
+  if (id === null || state.status !== "running" || inFlight) return;
+
+  if (!acquireLock(id)) {
+    stopTimer();
+    setState({ status: "blocked" });
+    log("error", "Another admin tab took over this tournament — paused");
+    return;
+  }
+
+  inFlight = true;
+  try {
+    const tournament = await fetchTournament(id);
+    if (!tournament) {
+      log("error", `Tournament ${id} not found — stopping`);
+      stopAutopilot();
+      return;
+    }
+    if (tournament.status === "Finished") {
+      log("info", "Tournament finished — stopping");
+      stopAutopilot();
+      return;
+    }
+    if (tournament.status !== "Running") {
+      // Registering / OnBreak: столы не тикаем, таймер уровня стоит
+      creditedUntil = Date.now();
+      return;
+    }
+
+    // целые секунды; дробный остаток перейдёт в следующий шаг
+    const deltaSecs = Math.floor((Date.now() - creditedUntil) / 1000);
+    if (deltaSecs < 1) return;
+
+    const tables = await fetchTournamentTables(id);
+    let ticked = 0;
+    for (const table of tables) {
+      try {
+        await tickTable(table.table_id, deltaSecs, { throwOnReject: true });
+        ticked += 1;
+      } catch (e: unknown) {
+        log("error", `tick ${table.table_id}: ${describeError(e, "tick failed")}`);
+      }
+    }
+    if (ticked > 0) log("tick", `Ticked ${ticked} table(s) by ${deltaSecs}s`);
+    creditedUntil += deltaSecs * 1000;
+
+    const elapsed = state.levelElapsedSecs + deltaSecs;
+    setState({ levelElapsedSecs: elapsed });
+    if (elapsed < state.levelDurationSecs) return;
+
+    try {
+      const ack = await advanceTournamentLevel(id, { throwOnReject: true });
+      log("level", `Level ${tournament.current_level} → next: ${ack.message}`);
+      setState({ levelElapsedSecs: 0 });
+    } catch (e: unknown) {
+      // таймер уровня не сбрасываем: следующий шаг повторит переход
+      log("error", `advance level: ${describeError(e, "advance failed")}`);
+    }
+  } catch (e: unknown) {
+    log("error", describeError(e, "Autopilot step failed"));
+  } finally {
+    inFlight = false;
+  }
+}
+
+function startTimer(): void {
+  stopTimer();
+  // время паузы / до запуска не зачитываем
+  creditedUntil = Date.now();
+  timer = setInterval(() => void step(), AUTOPILOT_TICK_SECS * 1000);
+}
+
+// ----- публичное API -----
+
+export function getAutopilotState(): AutopilotState {
+  return state;
+}
+
+export function subscribeAutopilot(listener: (s: AutopilotState) => void): () => void {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Запуск автопилота для турнира. levelDurationSecs — длина уровня
+ * (обычно blindLevelDuration из конфига турнира).
+ */
+export function startAutopilot(id: TournamentId, levelDurationSecs: number): void {
+  if (state.tournamentId !== null && state.tournamentId !== id) {
+    stopAutopilot();
+  }
+  installUnloadHook();
+  const duration = Math.max(AUTOPILOT_TICK_SECS, Math.round(levelDurationSecs));
+
+  if (!acquireLock(id)) {
+    setState({ status: "blocked", tournamentId: id, levelDurationSecs: duration });
+    log("error", `Tournament ${id} is already driven by another admin tab`);
+    return;
+  }
+
+  setState({
+    status: "running",
+    tournamentId: id,
+    levelDurationSecs: duration,
+    levelElapsedSecs: 0,
+  });
+  log("info", `Started for tournament ${id}, ${Math.round(levelDurationSecs / 60)} min levels`);
+  startTimer();
+}
+
+export function pauseAutopilot(): void {
+  if (state.status !== "running") return;
+  stopTimer();
+  setState({ status: "paused" });
+  log("info", "Paused");
+}
+
+export function resumeAutopilot(): void {
+  const id = state.tournamentId;
+  if (id === null || (state.status !== "paused" && state.status !== "blocked")) return;
+
+  if (!acquireLock(id)) {
+    setState({ status: "blocked" });
+    log("error", "Still driven by another admin tab");
+    return;
+  }
+  setState({ status: "running" });
+  log("info", "Resumed");
+  startTimer();
+}
+
+export function stopAutopilot(): void {
+  stopTimer();
+  if (state.tournamentId !== null) releaseLock(state.tournamentId);
+  if (state.status !== "idle") log("info", "Stopped");
+  setState({ status: "idle", levelElapsedSecs: 0 });
+}
@@ -0,0 +1,83 @@
+// src/linera/errors.ts
+//
+// Иерархия ошибок клиентского слоя Linera:
+//
+//   LineraPokerError
+//   ├─ LineraConnectionError  — WASM init, faucet, сеть, битый ответ backend'а
+//   ├─ GraphQLRequestError    — сервис вернул errors[] (валидация / резолвер)
+//   ├─ MutationRejectedError  — мутация прошла, но ack.ok === false
+//   └─ SchemaMismatchError    — в схеме нет операции / ответ не той формы
+//
+// Страницы показывают describeError(e): для отказа мутации это сама причина
+// из контракта ("Not your turn"), а не общее "Failed to send action".
+
+export class LineraPokerError extends Error {
+  /** исходная ошибка (lib ES2020 ещё не знает про Error.cause) */
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "LineraPokerError";
+    this.cause = cause;
+  }
+}
+
+export type LineraConnectionStage = "wasm" | "faucet" | "backend" | "network";
+
+export class LineraConnectionError extends LineraPokerError {
+  readonly stage: LineraConnectionStage;
+
+  constructor(stage: LineraConnectionStage, message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = "LineraConnectionError";
+    this.stage = stage;
+  }
+}
+
+export type GraphQLErrorEntry = {
+  message: string;
+  path?: (string | number)[];
+};
+
+export class GraphQLRequestError extends LineraPokerError {
+  readonly errors: GraphQLErrorEntry[];
+  readonly operationName?: string;
+
+  constructor(errors: GraphQLErrorEntry[], operationName?: string) {
+    const text = errors.map((e) => e.message).join("; ") || "Unknown GraphQL error";
+    super(operationName ? `${operationName}: ${text}` : text);
+    this.name = "GraphQLRequestError";
+    this.errors = errors;
+    this.operationName = operationName;
+  }
+}
+
+export class MutationRejectedError extends LineraPokerError {
+  /** имя мутации в snake_case, как в service.rs (player_action, start_tournament, ...) */
+  readonly operation: string;
+  /** ack.message от контракта */
+  readonly reason: string;
+
+  constructor(operation: string, reason: string) {
+    super(`${operation} rejected: ${reason || "no reason given"}`);
+    this.name = "MutationRejectedError";
+    this.operation = operation;
+    this.reason = reason;
+  }
+}
+
+export class SchemaMismatchError extends LineraPokerError {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaMismatchError";
+  }
+}
+
+/** Текст ошибки для UI. */
+export function describeError(e: unknown, fallback: string): string {
+  if (e instanceof MutationRejectedError) return e.reason || e.message;
+  if (e instanceof LineraConnectionError) return `Connection problem: ${e.message}`;
+  if (e instanceof SchemaMismatchError) return `Backend schema mismatch: ${e.message}`;
+  if (e instanceof Error && e.message) return e.message;
+  return fallback;
+}
@@ -0,0 +1,164 @@
+// src/linera/graphqlSchema.ts
+//
+// Один раз при старте смотрим в __schema (listGraphQLOperations) и решаем,
+// в какой нотации async-graphql отдаёт поля и аргументы:
+// - snake_case — как в Rust (rename_fields / rename_args = "snake_case");
+// - camelCase  — дефолт async-graphql.
+// Дальше каждая операция отправляется только в этой нотации, без повторов.
+//
+// Документы в pokerApi.ts пишутся в snake_case (как в service.rs),
+// в camelCase они переводятся через adaptDocument().
+
+import { listGraphQLOperations } from "./lineraClient";
+import { SchemaMismatchError } from "./errors";
+
+export type NamingConvention = "snake_case" | "camelCase";
+export type OperationKind = "query" | "mutation";
+
+/** Операции service.rs, без которых фронт не работает (имена — snake_case). */
+export const REQUIRED_OPERATIONS: Record<OperationKind, readonly string[]> = {
+  query: [
+    "summary",
+    "tables",
+    "table",
+    "tournaments",
+    "tournament_by_id",
+    "tournament_tables",
+  ],
+  mutation: [
+    "create_table",
+    "seat_player",
+    "unseat_player",
+    "adjust_stack",
+    "start_hand",
+    "player_action",
+    "tick_table",
+    "create_tournament",
+    "register_player_to_tournament",
+    "unregister_player_from_tournament",
+    "start_tournament",
+    "advance_tournament_level",
+    "close_tournament",
+  ],
+};
+
+export type SchemaProbe = {
+  convention: NamingConvention;
+  queries: ReadonlySet<string>;
+  mutations: ReadonlySet<string>;
+  /** обязательные операции, которых нет в схеме (в нотации convention) */
+  missing: { kind: OperationKind; name: string }[];
+};
+
+export function snakeToCamel(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export function toConvention(snakeName: string, convention: NamingConvention): string {
+  return convention === "camelCase" ? snakeToCamel(snakeName) : snakeName;
+}
+
+/**
+ * Переводит snake_case-документ в camelCase: имена полей и аргументов.
+ * Переменные ($tableId) и типы (GqlAnteType) уже без подчёркиваний
+ * и не трогаются.
+ */
+export function adaptDocument(document: string, convention: NamingConvention): string {
+  if (convention === "snake_case") return document;
+  return document.replace(
+    /(^|[^$\w])([a-z][a-z0-9]*(?:_[a-z0-9]+)+)\b/g,
+    (_, prefix: string, name: string) => prefix + snakeToCamel(name)
+  );
+}
+
+/**
+ * Решение по именам операций: считаем, сколько обязательных операций
+ * с "различимыми" именами (tournament_by_id vs tournamentById) есть
+ * в каждой нотации. summary / tables / table одинаковы и не голосуют.
+ */
+export function detectConvention(ops: {
+  queries: string[];
+  mutations: string[];
+}): NamingConvention {
+  const available = new Set([...ops.queries, ...ops.mutations]);
+
+  let snakeHits = 0;
+  let camelHits = 0;
+  for (const name of [...REQUIRED_OPERATIONS.query, ...REQUIRED_OPERATIONS.mutation]) {
+    const camel = snakeToCamel(name);
+    if (camel === name) continue;
+    if (available.has(name)) snakeHits++;
+    if (available.has(camel)) camelHits++;
+  }
+
+  if (snakeHits === 0 && camelHits === 0) {
+    console.warn(
+      "[GraphQL] cannot detect naming convention: schema has none of the poker operations; assuming snake_case"
+    );
+    return "snake_case";
+  }
+  return camelHits > snakeHits ? "camelCase" : "snake_case";
+}
+
+function buildProbe(ops: { queries: string[]; mutations: string[] }): SchemaProbe {
+  const convention = detectConvention(ops);
+  const queries = new Set(ops.queries);
+  const mutations = new Set(ops.mutations);
+
+  const missing: SchemaProbe["missing"] = [];
+  for (const kind of ["query", "mutation"] as const) {
+    const available = kind === "query" ? queries : mutations;
+    for (const snake of REQUIRED_OPERATIONS[kind]) {
+      const name = toConvention(snake, convention);
+      if (!available.has(name)) missing.push({ kind, name });
+    }
+  }
+
+  return { convention, queries, mutations, missing };
+}
+
+let probePromise: Promise<SchemaProbe> | null = null;
+
+/** Результат introspection; считается один раз, ошибка не кешируется. */
+export async function getSchemaProbe(): Promise<SchemaProbe> {
+  if (!probePromise) {
+    probePromise = (async () => {
+      const probe = buildProbe(await listGraphQLOperations());
+
+      console.info("[GraphQL] naming convention:", probe.convention);
+      if (probe.missing.length > 0) {
+        console.warn(
+          "[GraphQL] schema is missing operations:",
+          probe.missing.map((m) => `${m.kind} ${m.name}`).join(", ")
+        );
+      }
+      return probe;
+    })();
+
+    probePromise.catch(() => {
+      probePromise = null;
+    });
+  }
+  return probePromise;
+}
+
+/**
+ * Имя корневого поля операции в нотации схемы.
+ * Если операции нет — понятная ошибка вместо "Unknown field" от сервера.
+ */
+export function resolveOperation(
+  probe: SchemaProbe,
+  kind: OperationKind,
+  snakeName: string
+): string {
+  const name = toConvention(snakeName, probe.convention);
+  const available = kind === "query" ? probe.queries : probe.mutations;
+  if (available.has(name)) return name;
+
+  const list = Array.from(available).sort().join(", ") || "none";
+  throw new SchemaMismatchError(
+    `GraphQL ${kind} "${name}" is not exposed by the application schema ` +
+      `(detected ${probe.convention}). Available ${kind === "query" ? "queries" : "mutations"}: ${list}. ` +
+      "Check VITE_LINERA_APP_ID and that the deployed service.rs matches this frontend."
+  );
+}
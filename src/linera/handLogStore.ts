@@ -0,0 +1,60 @@
+// src/linera/handLogStore.ts
+//
+// События стола для лога раздач (HandLogPanel) в localStorage: цепочка
+// истории действий не отдаёт, а лог должен пережить перезагрузку.
+// Храним последние HAND_LOG_MAX_HANDS раздач на стол.
+//
+// Формат версионирован так же, как sessionStore.
+
+import type { TableId } from "./pokerApi";
+import type { TableEventEntry } from "./tableEventStream";
+
+const STORAGE_KEY = "linera-poker.hand-log";
+
+export const HAND_LOG_FORMAT_VERSION = 1;
+
+type StoredHandLog = {
+  version: typeof HAND_LOG_FORMAT_VERSION;
+  tables: Record<string, TableEventEntry[]>;
+};
+
+function readAll(): StoredHandLog {
+  const empty: StoredHandLog = { version: HAND_LOG_FORMAT_VERSION, tables: {} };
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return empty;
+  }
+  if (raw === null) return empty;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredHandLog>;
+    if (
+      parsed.version !== HAND_LOG_FORMAT_VERSION ||
+      typeof parsed.tables !== "object" ||
+      parsed.tables === null
+    ) {
+      console.warn("[Linera] stored hand log has unknown format, discarding");
+      return empty;
+    }
+    return parsed as StoredHandLog;
+  } catch {
+    console.warn("[Linera] stored hand log is not valid JSON, discarding");
+    return empty;
+  }
+}
+
+export function loadHandLog(tableId: TableId): TableEventEntry[] {
+  return readAll().tables[tableId] ?? [];
+}
+
+export function saveHandLog(tableId: TableId, entries: TableEventEntry[]): void {
+  const all = readAll();
+  all.tables[tableId] = entries;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("[Linera] failed to persist hand log:", e);
+  }
+}
@@ -1,5 +1,23 @@
 // src/linera/lineraClient.ts
 import * as linera from "@linera/client";
+import {
+  SESSION_FORMAT_VERSION,
+  clearStoredSession,
+  generatePrivateKeyHex,
+  loadStoredSession,
+  saveStoredSession,
+  type StoredSession,
+} from "./sessionStore";
+import { createMockBackend } from "./mockBackend";
+import { DEV_MOCK_BACKEND } from "../config/devFlags";
+import {
+  GraphQLRequestError,
+  LineraConnectionError,
+  LineraPokerError,
+  SchemaMismatchError,
+  type GraphQLErrorEntry,
+  type LineraConnectionStage,
+} from "./errors";
 
 const FAUCET_URL =
   import.meta.env.VITE_LINERA_FAUCET_URL ??
@@ -11,8 +29,7 @@ export type Backend = {
   query(request: string): Promise<string>;
 };
 
-type GraphQLError = { message: string };
-type GraphQLResponse<TData> = { data?: TData; errors?: GraphQLError[] };
+type GraphQLResponse<TData> = { data?: TData; errors?: unknown[] };
 
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === "object" && v !== null;
@@ -21,11 +38,22 @@ function isRecord(v: unknown): v is Record<string, unknown> {
 function parseJson(raw: string): unknown {
   try {
     return JSON.parse(raw) as unknown;
-  } catch {
-    throw new Error("Backend returned invalid JSON");
+  } catch (e) {
+    throw new LineraConnectionError("backend", "Backend returned invalid JSON", e);
   }
 }
 
+/** Всё, что ещё не LineraPokerError, заворачиваем в ошибку соединения. */
+function asConnectionError(
+  stage: LineraConnectionStage,
+  what: string,
+  e: unknown
+): LineraPokerError {
+  if (e instanceof LineraPokerError) return e;
+  const detail = e instanceof Error ? e.message : String(e);
+  return new LineraConnectionError(stage, `${what}: ${detail}`, e);
+}
+
 /** --- 0) wasm init (в 0.15.7 нет default(), есть initialize()) --- */
 let wasmInitPromise: Promise<void> | null = null;
 
@@ -37,21 +65,30 @@ async function ensureLineraWasm(): Promise<void> {
       const init = anyLinera["initialize"];
       const def = anyLinera["default"];
 
-      if (typeof init === "function") {
-        await (init as () => Promise<void>)();
-        return;
-      }
-
-      // на всякий случай (в твоём runtime default=undefined)
-      if (typeof def === "function") {
-        await (def as () => Promise<void>)();
-        return;
+      try {
+        if (typeof init === "function") {
+          await (init as () => Promise<void>)();
+          return;
+        }
+
+        // на всякий случай (в твоём runtime default=undefined)
+        if (typeof def === "function") {
+          await (def as () => Promise<void>)();
+          return;
+        }
+      } catch (e) {
+        throw asConnectionError("wasm", "Linera WASM init failed", e);
       }
 
-      throw new Error(
+      throw new LineraConnectionError(
+        "wasm",
         "Linera WASM init entrypoint not found. Expected initialize() (0.15.7)."
       );
     })();
+
+    wasmInitPromise.catch(() => {
+      wasmInitPromise = null;
+    });
   }
   await wasmInitPromise;
 }
@@ -64,78 +101,284 @@ async function resolveOwnerFromSigner(signer: unknown): Promise<string> {
   for (const name of candidates) {
     const fn = s[name];
     if (typeof fn === "function") {
-      const out = await (fn as () => Promise<unknown> | unknown)();
+      const out = await (fn as () => Promise<unknown> | unknown).call(signer);
       if (typeof out === "string" && out.length > 0) return out;
     }
   }
 
   // это не “угадывание”, это стоп с конкретным диагнозом
   throw new Error(
-    "Cannot resolve owner string from PrivateKeySigner. " +
-      "Run: node -e \"import('@linera/client').then(({PrivateKeySigner})=>console.log(Object.getOwnPropertyNames(PrivateKeySigner.prototype)))\""
+    "Cannot resolve owner string from signer.PrivateKey. " +
+      "Run: node -e \"import('@linera/client').then(({signer})=>console.log(Object.getOwnPropertyNames(signer.PrivateKey.prototype)))\""
   );
 }
 
 type Session = {
   faucet: linera.Faucet;
   wallet: linera.Wallet;
-  signer: linera.PrivateKeySigner;
+  signer: linera.signer.PrivateKey;
   owner: string;
   chainId: string;
   client: linera.Client;
+  /** true, если идентичность восстановлена из хранилища, а не создана заново */
+  restored: boolean;
 };
 
 let sessionPromise: Promise<Session> | null = null;
+let chainPromise: Promise<linera.Chain> | null = null;
 let backendPromise: Promise<Backend> | null = null;
 
-/** --- 2) Client: создаём wallet + signer + claimChain(wallet, owner) --- */
+/**
+ * Signer из сохранённого ключа. Если ключ не парсится или owner
+ * не совпадает с сохранённым — запись считаем битой и возвращаем null.
+ */
+async function restoreSigner(
+  stored: StoredSession
+): Promise<linera.signer.PrivateKey | null> {
+  try {
+    const signer = new linera.signer.PrivateKey(stored.privateKey);
+    const owner = await resolveOwnerFromSigner(signer);
+    if (owner.toLowerCase() !== stored.owner.toLowerCase()) {
+      console.warn("[Linera] stored owner does not match stored key, discarding");
+      return null;
+    }
+    return signer;
+  } catch (e) {
+    console.warn("[Linera] stored private key is corrupt, discarding:", e);
+    return null;
+  }
+}
+
+/**
+ * --- 2) Client: wallet + signer + claimChain(wallet, owner) ---
+ *
+ * Ключ signer'а и chainId живут в localStorage (см. sessionStore.ts).
+ * Wallet в @linera/client in-memory, поэтому при восстановлении создаём его
+ * заново и повторно вызываем claimChain с тем же owner: faucet хранит
+ * привязку owner -> chain и возвращает ту же цепочку.
+ * Новая идентичность создаётся только если записи нет или она битая.
+ */
 async function getSession(): Promise<Session> {
   if (!sessionPromise) {
     sessionPromise = (async () => {
       await ensureLineraWasm();
 
       const faucet = new linera.Faucet(FAUCET_URL);
-      const wallet = await faucet.createWallet();
-
-      // В 0.15.7 это экспортируется (ты видел в Object.keys)
-      const signer = new linera.PrivateKeySigner();
+      const wallet = await faucet
+        .createWallet()
+        .catch((e: unknown) => {
+          throw asConnectionError("faucet", `Faucet ${FAUCET_URL} createWallet failed`, e);
+        });
+
+      const stored = loadStoredSession(FAUCET_URL);
+      const restoredSigner = stored ? await restoreSigner(stored) : null;
+      if (stored && !restoredSigner) clearStoredSession();
+
+      const privateKey =
+        stored && restoredSigner ? stored.privateKey : generatePrivateKeyHex();
+      const signer = restoredSigner ?? new linera.signer.PrivateKey(privateKey);
       const owner = await resolveOwnerFromSigner(signer);
 
-      // В runtime 0.15.7 claimChain(wallet, owner) — ты это подтвердил Node выводом
-      const chainId = await faucet.claimChain(wallet, owner);
+      const chainId = await faucet
+        .claimChain(wallet, owner)
+        .catch((e: unknown) => {
+          throw asConnectionError("faucet", `Faucet ${FAUCET_URL} claimChain failed`, e);
+        });
+      const restored = restoredSigner !== null;
+
+      if (restored && stored && stored.chainId !== chainId) {
+        console.warn(
+          "[Linera] faucet returned a different chain for stored owner:",
+          stored.chainId,
+          "->",
+          chainId
+        );
+      }
+
+      saveStoredSession({
+        version: SESSION_FORMAT_VERSION,
+        faucetUrl: FAUCET_URL,
+        privateKey,
+        owner,
+        chainId,
+        createdAt:
+          restored && stored ? stored.createdAt : new Date().toISOString(),
+      });
 
       const client = new linera.Client(wallet, signer);
 
-      console.info("[Linera] owner:", owner);
+      console.info("[Linera] owner:", owner, restored ? "(restored)" : "(new)");
       console.info("[Linera] chain:", chainId);
 
-      return { faucet, wallet, signer, owner, chainId, client };
+      return { faucet, wallet, signer, owner, chainId, client, restored };
     })();
+
+    // Неудачная попытка не должна залипать навсегда: следующий вызов попробует снова.
+    sessionPromise.catch(() => {
+      sessionPromise = null;
+    });
   }
   return sessionPromise;
 }
 
+/** Краткая информация о текущей идентичности (для UI). */
+export type SessionInfo = {
+  owner: string;
+  chainId: string;
+  restored: boolean;
+};
+
+export async function getSessionInfo(): Promise<SessionInfo> {
+  const s = await getSession();
+  return { owner: s.owner, chainId: s.chainId, restored: s.restored };
+}
+
+/** Сохранённая идентичность без инициализации WASM / сети. */
+export function peekStoredIdentity(): { owner: string; chainId: string } | null {
+  const stored = loadStoredSession(FAUCET_URL);
+  return stored ? { owner: stored.owner, chainId: stored.chainId } : null;
+}
+
+/**
+ * "Reset identity": забываем ключ и цепочку.
+ * Уже созданный Client продолжает жить в WASM, поэтому после сброса
+ * вызывающая сторона должна перезагрузить страницу.
+ */
+export function resetIdentity(): void {
+  clearStoredSession();
+  sessionPromise = null;
+  chainPromise = null;
+  backendPromise = null;
+  notificationsPromise = null;
+  console.info("[Linera] identity reset");
+}
+
 export async function getClient(): Promise<linera.Client> {
   const s = await getSession();
   return s.client;
 }
 
+/** Chain текущей сессии: один объект и для application(), и для нотификаций. */
+async function getChain(): Promise<linera.Chain> {
+  if (!chainPromise) {
+    chainPromise = (async () => {
+      const session = await getSession();
+      try {
+        return await session.client.chain(session.chainId);
+      } catch (e) {
+        throw asConnectionError("network", `Cannot open chain ${session.chainId}`, e);
+      }
+    })();
+    chainPromise.catch(() => {
+      chainPromise = null;
+    });
+  }
+  return chainPromise;
+}
+
+/** Настоящий backend: application(APP_ID) на цепочке текущей сессии. */
+async function createLineraBackend(): Promise<Backend> {
+  if (!APP_ID) {
+    throw new LineraConnectionError(
+      "backend",
+      "VITE_LINERA_APP_ID is missing (.env / Vercel env)."
+    );
+  }
+
+  const chain = await getChain();
+  const app = await chain.application(APP_ID).catch((e: unknown) => {
+    throw asConnectionError("backend", `Application ${APP_ID} is not available`, e);
+  });
+
+  const maybe = app as unknown;
+  if (!isRecord(maybe) || typeof (maybe as { query?: unknown }).query !== "function") {
+    throw new LineraConnectionError(
+      "backend",
+      "Backend does not expose query(request: string): Promise<string>"
+    );
+  }
+  return maybe as Backend;
+}
+
+/**
+ * Backend выбирается один раз: VITE_MOCK_BACKEND=true -> in-memory mock
+ * (без WASM, faucet и сети), иначе — Linera application.
+ */
 export async function getBackend(): Promise<Backend> {
   if (!backendPromise) {
-    backendPromise = (async () => {
-      if (!APP_ID) throw new Error("VITE_LINERA_APP_ID is missing (.env / Vercel env).");
+    backendPromise = DEV_MOCK_BACKEND
+      ? Promise.resolve(createMockBackend())
+      : createLineraBackend();
 
-      const client = await getClient();
-      const app = await client.frontend().application(APP_ID);
+    backendPromise.catch(() => {
+      backendPromise = null;
+    });
+  }
+  return backendPromise;
+}
 
-      const maybe = app as unknown;
-      if (!isRecord(maybe) || typeof (maybe as { query?: unknown }).query !== "function") {
-        throw new Error("Backend does not expose query(request: string): Promise<string>");
+/** --- 3) Нотификации цепочки (новые блоки, входящие сообщения) --- */
+export type ChainNotificationListener = (notification: unknown) => void;
+
+const notificationListeners = new Set<ChainNotificationListener>();
+let notificationsPromise: Promise<boolean> | null = null;
+
+/**
+ * chain.onNotification принимает ровно один handler (повторный вызов его
+ * заменяет), поэтому регистрируем его один раз и раздаём событие всем
+ * подписчикам. false — нотификаций нет (mock backend или ошибка WASM).
+ */
+async function ensureChainNotifications(): Promise<boolean> {
+  if (DEV_MOCK_BACKEND) return false;
+
+  if (!notificationsPromise) {
+    notificationsPromise = (async () => {
+      try {
+        const chain = await getChain();
+        chain.onNotification((notification: unknown) => {
+          for (const listener of Array.from(notificationListeners)) {
+            try {
+              listener(notification);
+            } catch (e) {
+              console.error("[Linera] notification listener failed:", e);
+            }
+          }
+        });
+        console.info("[Linera] chain notifications enabled");
+        return true;
+      } catch (e) {
+        console.warn("[Linera] chain notifications unavailable:", e);
+        return false;
       }
-      return maybe as Backend;
     })();
   }
-  return backendPromise;
+  return notificationsPromise;
+}
+
+/**
+ * Подписка на нотификации цепочки текущей сессии.
+ * Возвращает функцию отписки или null, если нотификации недоступны —
+ * тогда вызывающая сторона должна перейти на polling.
+ */
+export async function subscribeChainNotifications(
+  listener: ChainNotificationListener
+): Promise<(() => void) | null> {
+  const available = await ensureChainNotifications();
+  if (!available) return null;
+
+  notificationListeners.add(listener);
+  return () => {
+    notificationListeners.delete(listener);
+  };
+}
+
+function toErrorEntry(e: unknown): GraphQLErrorEntry {
+  if (!isRecord(e)) return { message: "Unknown error" };
+  const message = typeof e.message === "string" ? e.message : "Unknown error";
+  const path = Array.isArray(e.path)
+    ? e.path.filter((p): p is string | number => typeof p === "string" || typeof p === "number")
+    : undefined;
+  return path && path.length > 0 ? { message, path } : { message };
 }
 
 export async function gql<TData>(
@@ -146,21 +389,25 @@ export async function gql<TData>(
   const backend = await getBackend();
   const request = JSON.stringify({ query, variables, operationName });
 
-  const raw = await backend.query(request);
+  let raw: string;
+  try {
+    raw = await backend.query(request);
+  } catch (e) {
+    throw asConnectionError("network", "GraphQL request failed", e);
+  }
   const parsed = parseJson(raw);
 
-  if (!isRecord(parsed)) throw new Error("Unexpected GraphQL response shape");
+  if (!isRecord(parsed)) throw new SchemaMismatchError("Unexpected GraphQL response shape");
 
   const errors = parsed.errors;
   if (Array.isArray(errors) && errors.length > 0) {
-    const msg = errors
-      .map((e) => (isRecord(e) && typeof e.message === "string" ? e.message : "Unknown error"))
-      .join("; ");
-    throw new Error(msg);
+    throw new GraphQLRequestError(errors.map(toErrorEntry), operationName);
   }
 
   const data = (parsed as GraphQLResponse<TData>).data;
-  if (data === undefined) throw new Error("GraphQL response has no data");
+  if (data === undefined || data === null) {
+    throw new SchemaMismatchError("GraphQL response has no data");
+  }
   return data;
 }
 
@@ -190,18 +437,27 @@ export async function listGraphQLOperations(): Promise<{
   };
 }
 
-/** --- 3) Debug: чтобы ты тестировал в браузере, а не в bash --- */
+/** --- 4) Debug: чтобы ты тестировал в браузере, а не в bash --- */
 declare global {
   interface Window {
     lineraDebug?: {
       getClient: typeof getClient;
       getBackend: typeof getBackend;
+      getSessionInfo: typeof getSessionInfo;
+      resetIdentity: typeof resetIdentity;
       gql: typeof gql;
       listGraphQLOperations: typeof listGraphQLOperations;
     };
   }
 }
-window.lineraDebug = { getClient, getBackend, gql, listGraphQLOperations };
+window.lineraDebug = {
+  getClient,
+  getBackend,
+  getSessionInfo,
+  resetIdentity,
+  gql,
+  listGraphQLOperations,
+};
 
 /** ВАЖНО: это лечит твою ошибку build: страницы импортируют fetchTournaments из lineraClient.ts */
 export * from "./pokerApi";
@@ -0,0 +1,289 @@
+// src/linera/liveUpdates.ts
+//
+// Живые обновления стола / турнира.
+//
+// Каждая подписка — "топик" (table:<id>, tournament:<id>) со своим fetcher'ом.
+// Источник сигнала "что-то поменялось":
+// - нотификации цепочки (subscribeChainNotifications) — основной путь;
+// - polling раз в LIVE_POLL_INTERVAL_MS, если нотификаций нет (mock backend,
+//   ошибка WASM). Polling стоит на паузе, пока вкладка скрыта.
+// Нотификация не говорит, какой стол изменился, поэтому перезапрашиваем
+// все активные топики. Подписчики получают снимок только если он реально
+// изменился.
+
+import {
+  fetchTable,
+  fetchTournament,
+  fetchTournamentTables,
+  subscribeChainNotifications,
+} from "./lineraClient";
+import { describeError } from "./errors";
+import type {
+  GqlTableView,
+  GqlTournamentView,
+  TableId,
+  TournamentId,
+} from "./pokerApi";
+
+export const LIVE_POLL_INTERVAL_MS = 2000;
+
+// Пачка нотификаций (несколько блоков подряд) -> один перезапрос.
+const NOTIFICATION_DEBOUNCE_MS = 150;
+
+export type LiveTransport = "connecting" | "notifications" | "polling";
+
+export type LiveState<T> = {
+  data: T | null;
+  /** true до первого ответа (успешного или с ошибкой) */
+  loading: boolean;
+  error: string | null;
+  /** Date.now() последнего изменения data */
+  updatedAt: number | null;
+};
+
+export type LiveTournament = {
+  tournament: GqlTournamentView | null;
+  tables: GqlTableView[];
+};
+
+type Listener<T> = (state: LiveState<T>) => void;
+
+type Topic = {
+  key: string;
+  fetcher: () => Promise<unknown>;
+  listeners: Set<Listener<unknown>>;
+  state: LiveState<unknown>;
+  lastJson: string | null;
+  inFlight: Promise<void> | null;
+  /** пока шёл запрос, пришёл ещё один сигнал — повторить после */
+  dirty: boolean;
+};
+
+const topics = new Map<string, Topic>();
+
+let transport: LiveTransport | null = null;
+let stopTransport: (() => void) | null = null;
+let transportGeneration = 0;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+const transportListeners = new Set<(t: LiveTransport | null) => void>();
+
+function setTransport(next: LiveTransport | null): void {
+  transport = next;
+  for (const l of Array.from(transportListeners)) l(next);
+}
+
+function emit(topic: Topic): void {
+  for (const l of Array.from(topic.listeners)) l(topic.state);
+}
+
+function refetch(topic: Topic): Promise<void> {
+  if (topic.inFlight) {
+    topic.dirty = true;
+    return topic.inFlight;
+  }
+
+  topic.inFlight = (async () => {
+    try {
+      const data = await topic.fetcher();
+      const json = JSON.stringify(data);
+      if (json !== topic.lastJson || topic.state.loading || topic.state.error) {
+        topic.lastJson = json;
+        topic.state = {
+          data,
+          loading: false,
+          error: null,
+          updatedAt: Date.now(),
+        };
+        emit(topic);
+      }
+    } catch (e) {
+      // Старый снимок оставляем: лучше показать его с ошибкой, чем пустой стол.
+      topic.state = {
+        ...topic.state,
+        loading: false,
+        error: describeError(e, "Failed to load live data"),
+      };
+      emit(topic);
+    } finally {
+      topic.inFlight = null;
+      if (topic.dirty && topics.get(topic.key) === topic) {
+        topic.dirty = false;
+        void refetch(topic);
+      }
+    }
+  })();
+
+  return topic.inFlight;
+}
+
+function refetchAll(): void {
+  for (const topic of topics.values()) void refetch(topic);
+}
+
+function handleNotification(): void {
+  if (debounceTimer !== null) return;
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    refetchAll();
+  }, NOTIFICATION_DEBOUNCE_MS);
+}
+
+function handleVisibilityChange(): void {
+  // Вернулись во вкладку — догоняем всё, что пропустили.
+  if (!document.hidden) refetchAll();
+}
+
+function startPolling(): () => void {
+  const timer = setInterval(() => {
+    if (document.hidden) return;
+    refetchAll();
+  }, LIVE_POLL_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+function ensureTransport(): void {
+  if (transport !== null) return;
+
+  const generation = ++transportGeneration;
+  setTransport("connecting");
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  void (async () => {
+    let unsubscribe: (() => void) | null = null;
+    try {
+      unsubscribe = await subscribeChainNotifications(handleNotification);
+    } catch (e) {
+      console.warn("[live] notifications failed, falling back to polling:", e);
+    }
+
+    // За время подключения все подписчики могли уйти.
+    if (generation !== transportGeneration) {
+      unsubscribe?.();
+      return;
+    }
+
+    if (unsubscribe) {
+      stopTransport = unsubscribe;
+      setTransport("notifications");
+    } else {
+      stopTransport = startPolling();
+      setTransport("polling");
+    }
+  })();
+}
+
+function releaseTransportIfIdle(): void {
+  if (topics.size > 0 || transport === null) return;
+
+  transportGeneration++;
+  stopTransport?.();
+  stopTransport = null;
+  if (debounceTimer !== null) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+  document.removeEventListener("visibilitychange", handleVisibilityChange);
+  setTransport(null);
+}
+
+function subscribeTopic<T>(
+  key: string,
+  fetcher: () => Promise<T | null>,
+  listener: Listener<T>
+): () => void {
+  let topic = topics.get(key);
+  const isNew = !topic;
+
+  if (!topic) {
+    topic = {
+      key,
+      fetcher,
+      listeners: new Set(),
+      state: { data: null, loading: true, error: null, updatedAt: null },
+      lastJson: null,
+      inFlight: null,
+      dirty: false,
+    };
+    topics.set(key, topic);
+  }
+
+  const l = listener as Listener<unknown>;
+  topic.listeners.add(l);
+  l(topic.state);
+
+  ensureTransport();
+  if (isNew) void refetch(topic);
+
+  const owned = topic;
+  return () => {
+    owned.listeners.delete(l);
+    if (owned.listeners.size === 0 && topics.get(key) === owned) {
+      topics.delete(key);
+      releaseTransportIfIdle();
+    }
+  };
+}
+
+function refreshTopic(key: string): Promise<void> {
+  const topic = topics.get(key);
+  return topic ? refetch(topic) : Promise.resolve();
+}
+
+// ---------------------------------------------------------------------------
+// Публичное API
+// ---------------------------------------------------------------------------
+
+const tableKey = (tableId: TableId) => `table:${tableId}`;
+const tournamentKey = (tournamentId: TournamentId) => `tournament:${tournamentId}`;
+
+export function subscribeTable(
+  tableId: TableId,
+  listener: Listener<GqlTableView>
+): () => void {
+  return subscribeTopic(tableKey(tableId), () => fetchTable(tableId), listener);
+}
+
+export async function fetchLiveTournament(
+  tournamentId: TournamentId
+): Promise<LiveTournament> {
+  const [tournament, tables] = await Promise.all([
+    fetchTournament(tournamentId),
+    fetchTournamentTables(tournamentId),
+  ]);
+  return { tournament, tables };
+}
+
+export function subscribeTournament(
+  tournamentId: TournamentId,
+  listener: Listener<LiveTournament>
+): () => void {
+  return subscribeTopic(
+    tournamentKey(tournamentId),
+    () => fetchLiveTournament(tournamentId),
+    listener
+  );
+}
+
+/** Немедленный перезапрос (например, сразу после собственной мутации). */
+export function refreshTable(tableId: TableId): Promise<void> {
+  return refreshTopic(tableKey(tableId));
+}
+
+export function refreshTournament(tournamentId: TournamentId): Promise<void> {
+  return refreshTopic(tournamentKey(tournamentId));
+}
+
+export function getLiveTransport(): LiveTransport | null {
+  return transport;
+}
+
+export function subscribeLiveTransport(
+  listener: (t: LiveTransport | null) => void
+): () => void {
+  transportListeners.add(listener);
+  listener(transport);
+  return () => {
+    transportListeners.delete(listener);
+  };
+}
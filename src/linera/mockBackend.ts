@@ -0,0 +1,623 @@
+// src/linera/mockBackend.ts
+//
+// In-memory Backend, имитирующий GraphQL-сервис покерного приложения (service.rs).
+// Включается через VITE_MOCK_BACKEND=true (см. config/devFlags.ts) и позволяет
+// работать с Lobby / TournamentPage / TablePage без faucet и testnet.
+//
+// - схема в snake_case, как Gql*-типы в pokerApi.ts;
+// - запросы разбираются настоящим парсером (mockGql.ts), поэтому неверные
+//   поля/аргументы дают такие же ошибки, как async-graphql;
+// - раздачи проводит mockEngine.ts, время двигается только через tick_table.
+
+import type { Backend } from "./lineraClient";
+import type { GqlTableView, GqlTournamentView, MutationAck, SummaryGql } from "./pokerApi";
+import { executeRequest, type RootResolvers, type SchemaSpec } from "./mockGql";
+import {
+  MockEngineError,
+  adjustStack,
+  applyAction,
+  createMockTable,
+  seatPlayer,
+  setBlinds,
+  startHand,
+  tickTable,
+  toTableView,
+  unseatPlayer,
+  type MockActionKind,
+  type MockAnteType,
+  type MockTable,
+} from "./mockEngine";
+
+// -----------------------------------------------------------------------------
+// Schema
+// -----------------------------------------------------------------------------
+
+const ACK = "MutationAck!";
+
+const SCHEMA: SchemaSpec = {
+  objects: {
+    Query: {
+      summary: { type: "SummaryGql!" },
+      tables: { type: "[GqlTableView!]!" },
+      table: { type: "GqlTableView", args: { table_id: "String!" } },
+      tournaments: { type: "[GqlTournamentView!]!" },
+      tournament_by_id: { type: "GqlTournamentView", args: { tournament_id: "Int!" } },
+      tournament_tables: { type: "[GqlTableView!]!", args: { tournament_id: "Int!" } },
+    },
+    Mutation: {
+      create_table: {
+        type: ACK,
+        args: {
+          table_id: "String!",
+          name: "String!",
+          max_seats: "Int!",
+          small_blind: "Int!",
+          big_blind: "Int!",
+          ante: "Int!",
+          ante_type: "GqlAnteType!",
+        },
+      },
+      seat_player: {
+        type: ACK,
+        args: {
+          table_id: "String!",
+          player_id: "Int!",
+          seat_index: "Int!",
+          display_name: "String!",
+          initial_stack: "Int!",
+        },
+      },
+      unseat_player: { type: ACK, args: { table_id: "String!", seat_index: "Int!" } },
+      adjust_stack: { type: ACK, args: { table_id: "String!", seat_index: "Int!", delta: "Int!" } },
+      start_hand: { type: ACK, args: { table_id: "String!", hand_id: "Int!" } },
+      player_action: {
+        type: ACK,
+        args: { table_id: "String!", action: "GqlPlayerActionKind!", amount: "Int" },
+      },
+      tick_table: { type: ACK, args: { table_id: "String!", delta_secs: "Int!" } },
+      create_tournament: { type: ACK, args: { tournament_id: "Int!", config: "JSON!" } },
+      register_player_to_tournament: {
+        type: ACK,
+        args: { tournament_id: "Int!", player_id: "Int!", display_name: "String!" },
+      },
+      unregister_player_from_tournament: {
+        type: ACK,
+        args: { tournament_id: "Int!", player_id: "Int!" },
+      },
+      start_tournament: { type: ACK, args: { tournament_id: "Int!" } },
+      advance_tournament_level: { type: ACK, args: { tournament_id: "Int!" } },
+      close_tournament: { type: ACK, args: { tournament_id: "Int!" } },
+    },
+    SummaryGql: {
+      total_hands_played: { type: "Int!" },
+      tables_count: { type: "Int!" },
+      tournaments_count: { type: "Int!" },
+    },
+    GqlCard: {
+      rank: { type: "String!" },
+      suit: { type: "String!" },
+    },
+    GqlPlayerAtTable: {
+      player_id: { type: "Int!" },
+      display_name: { type: "String!" },
+      seat_index: { type: "Int!" },
+      stack: { type: "Int!" },
+      current_bet: { type: "Int!" },
+      status: { type: "String!" },
+      hole_cards: { type: "[GqlCard!]" },
+    },
+    GqlTableView: {
+      table_id: { type: "String!" },
+      name: { type: "String!" },
+      max_seats: { type: "Int!" },
+      small_blind: { type: "Int!" },
+      big_blind: { type: "Int!" },
+      ante: { type: "Int!" },
+      street: { type: "String!" },
+      dealer_button: { type: "Int" },
+      total_pot: { type: "Int!" },
+      board: { type: "[GqlCard!]!" },
+      players: { type: "[GqlPlayerAtTable!]!" },
+      hand_in_progress: { type: "Boolean!" },
+      current_actor_seat: { type: "Int" },
+    },
+    GqlTournamentView: {
+      tournament_id: { type: "Int!" },
+      name: { type: "String!" },
+      status: { type: "String!" },
+      current_level: { type: "Int!" },
+      players_registered: { type: "Int!" },
+      tables_running: { type: "Int!" },
+    },
+    MutationAck: {
+      ok: { type: "Boolean!" },
+      message: { type: "String!" },
+    },
+  },
+  enums: {
+    GqlAnteType: ["None", "Classic", "BigBlind"],
+    GqlPlayerActionKind: ["Fold", "Check", "Call", "Bet", "Raise", "AllIn"],
+  },
+  scalars: ["JSON"],
+};
+
+// -----------------------------------------------------------------------------
+// State
+// -----------------------------------------------------------------------------
+
+type MockBlindLevel = { smallBlind: number; bigBlind: number; ante: number };
+
+type MockTournament = {
+  tournamentId: number;
+  name: string;
+  status: "Registering" | "Running" | "OnBreak" | "Finished";
+  /** Номер уровня, 1-based */
+  currentLevel: number;
+  startingStack: number;
+  tableSize: number;
+  actionTimeoutSecs: number;
+  anteType: MockAnteType;
+  levels: MockBlindLevel[];
+  /** player_id -> display_name, в порядке регистрации */
+  registered: Map<number, string>;
+  tableIds: string[];
+};
+
+/** Пауза между раздачами на турнирных столах (секунды tick'а). */
+const NEXT_HAND_DELAY_SECS = 3;
+
+const tables = new Map<string, MockTable>();
+const tournaments = new Map<number, MockTournament>();
+let nextTableNumber = 100;
+let nextHandId = 1;
+
+function ack(ok: boolean, message: string): MutationAck {
+  return { ok, message };
+}
+
+/** Выполняет мутацию, превращая ошибки движка в MutationAck { ok: false }. */
+function mutate(fn: () => string): MutationAck {
+  try {
+    return ack(true, fn());
+  } catch (e) {
+    if (e instanceof MockEngineError) return ack(false, e.message);
+    throw e;
+  }
+}
+
+function getTable(tableId: unknown): MockTable {
+  const t = tables.get(String(tableId));
+  if (!t) throw new MockEngineError(`Table ${String(tableId)} not found`);
+  return t;
+}
+
+function getTournament(tournamentId: unknown): MockTournament {
+  const t = tournaments.get(Number(tournamentId));
+  if (!t) throw new MockEngineError(`Tournament ${String(tournamentId)} not found`);
+  return t;
+}
+
+function levelAt(t: MockTournament, level: number): MockBlindLevel {
+  const idx = Math.min(level, t.levels.length) - 1;
+  const base = t.levels[Math.max(0, idx)];
+  // после последнего уровня структуры удваиваем блайнды
+  const overflow = Math.max(0, level - t.levels.length);
+  const factor = 2 ** overflow;
+  return {
+    smallBlind: base.smallBlind * factor,
+    bigBlind: base.bigBlind * factor,
+    ante: base.ante * factor,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Tournament config (JSON) — читаем мягко, с дефолтами
+// -----------------------------------------------------------------------------
+
+function readNumber(cfg: Record<string, unknown>, keys: string[], fallback: number): number {
+  for (const k of keys) {
+    const v = cfg[k];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+  }
+  return fallback;
+}
+
+function readLevels(cfg: Record<string, unknown>): MockBlindLevel[] {
+  const raw = cfg.blind_levels ?? cfg.blindLevels;
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((l): l is Record<string, unknown> => typeof l === "object" && l !== null)
+    // перерывы в структуре мок не моделирует — только игровые уровни
+    .filter((l) => l.is_break !== true && l.isBreak !== true)
+    .map((l) => ({
+      smallBlind: readNumber(l, ["small_blind", "smallBlind"], 0),
+      bigBlind: readNumber(l, ["big_blind", "bigBlind"], 0),
+      ante: readNumber(l, ["ante"], 0),
+    }))
+    .filter((l) => l.smallBlind > 0 && l.bigBlind >= l.smallBlind);
+}
+
+function readAnteType(cfg: Record<string, unknown>): MockAnteType {
+  const v = cfg.ante_type ?? cfg.anteType;
+  return v === "Classic" || v === "BigBlind" ? v : "None";
+}
+
+const DEFAULT_LEVELS: MockBlindLevel[] = [
+  { smallBlind: 100, bigBlind: 200, ante: 0 },
+  { smallBlind: 150, bigBlind: 300, ante: 0 },
+  { smallBlind: 200, bigBlind: 400, ante: 0 },
+  { smallBlind: 300, bigBlind: 600, ante: 0 },
+  { smallBlind: 400, bigBlind: 800, ante: 0 },
+];
+
+// -----------------------------------------------------------------------------
+// Tournament flow
+// -----------------------------------------------------------------------------
+
+function tournamentTables(t: MockTournament): MockTable[] {
+  return t.tableIds.map((id) => tables.get(id)).filter((x): x is MockTable => x !== undefined);
+}
+
+function playersLeft(t: MockTournament): number {
+  return tournamentTables(t).reduce(
+    (sum, table) => sum + table.seats.filter((s) => s !== null).length,
+    0
+  );
+}
+
+function freeSeatIndex(table: MockTable): number {
+  return table.seats.findIndex((s) => s === null);
+}
+
+/** Убираем вылетевших, доводим до победителя, подсаживаем одиночек. */
+function afterTournamentHand(t: MockTournament, table: MockTable): void {
+  table.seats.forEach((s, i) => {
+    if (s && s.stack === 0) table.seats[i] = null;
+  });
+
+  if (playersLeft(t) <= 1) {
+    t.status = "Finished";
+    return;
+  }
+
+  const seated = table.seats.filter((s) => s !== null).length;
+  if (seated >= 2) return;
+
+  // пересаживаем последнего игрока за другой стол со свободным местом
+  const target = tournamentTables(t).find(
+    (other) => other !== table && freeSeatIndex(other) >= 0
+  );
+  if (!target) return;
+
+  table.seats.forEach((s, i) => {
+    if (!s) return;
+    table.seats[i] = null;
+    seatPlayer(target, {
+      playerId: s.playerId,
+      seatIndex: freeSeatIndex(target),
+      displayName: s.displayName,
+      stack: s.stack,
+    });
+  });
+
+  tables.delete(table.tableId);
+  t.tableIds = t.tableIds.filter((id) => id !== table.tableId);
+}
+
+function startTournament(t: MockTournament): string {
+  if (t.status !== "Registering") throw new MockEngineError("Tournament is not in registration");
+  const players = [...t.registered.entries()];
+  if (players.length < 2) throw new MockEngineError("Need at least two registered players");
+
+  const tableCount = Math.ceil(players.length / t.tableSize);
+  const level = levelAt(t, t.currentLevel);
+
+  for (let i = 0; i < tableCount; i += 1) {
+    const tableId = String(nextTableNumber);
+    nextTableNumber += 1;
+    tables.set(
+      tableId,
+      createMockTable({
+        tableId,
+        name: `${t.name} · Table ${i + 1}`,
+        maxSeats: t.tableSize,
+        smallBlind: level.smallBlind,
+        bigBlind: level.bigBlind,
+        ante: level.ante,
+        anteType: t.anteType,
+        actionTimeoutSecs: t.actionTimeoutSecs,
+        tournamentId: t.tournamentId,
+      })
+    );
+    t.tableIds.push(tableId);
+  }
+
+  // раскладываем игроков по столам по кругу, чтобы столы были ровными
+  players.forEach(([playerId, displayName], i) => {
+    const table = tables.get(t.tableIds[i % tableCount]) as MockTable;
+    seatPlayer(table, {
+      playerId,
+      seatIndex: Math.floor(i / tableCount),
+      displayName,
+      stack: t.startingStack,
+    });
+  });
+
+  for (const table of tournamentTables(t)) {
+    startHand(table, nextHandId);
+    nextHandId += 1;
+  }
+
+  t.status = "Running";
+  return `Tournament ${t.tournamentId} started on ${tableCount} table(s)`;
+}
+
+// -----------------------------------------------------------------------------
+// Views
+// -----------------------------------------------------------------------------
+
+function tournamentView(t: MockTournament): GqlTournamentView {
+  return {
+    tournament_id: t.tournamentId,
+    name: t.name,
+    status: t.status,
+    current_level: t.currentLevel,
+    players_registered: t.registered.size,
+    tables_running: tournamentTables(t).filter(
+      (table) => table.seats.filter((s) => s !== null).length >= 2
+    ).length,
+  };
+}
+
+function summaryView(): SummaryGql {
+  let hands = 0;
+  for (const t of tables.values()) hands += t.handsPlayed;
+  return {
+    total_hands_played: hands,
+    tables_count: tables.size,
+    tournaments_count: tournaments.size,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Resolvers
+// -----------------------------------------------------------------------------
+
+const queryResolvers: RootResolvers = {
+  summary: () => summaryView(),
+  tables: (): GqlTableView[] => [...tables.values()].map(toTableView),
+  table: ({ table_id }) => {
+    const t = tables.get(String(table_id));
+    return t ? toTableView(t) : null;
+  },
+  tournaments: () => [...tournaments.values()].map(tournamentView),
+  tournament_by_id: ({ tournament_id }) => {
+    const t = tournaments.get(Number(tournament_id));
+    return t ? tournamentView(t) : null;
+  },
+  tournament_tables: ({ tournament_id }) => {
+    const t = tournaments.get(Number(tournament_id));
+    return t ? tournamentTables(t).map(toTableView) : [];
+  },
+};
+
+const mutationResolvers: RootResolvers = {
+  create_table: (a) =>
+    mutate(() => {
+      const tableId = String(a.table_id);
+      if (tables.has(tableId)) throw new MockEngineError(`Table ${tableId} already exists`);
+      tables.set(
+        tableId,
+        createMockTable({
+          tableId,
+          name: String(a.name),
+          maxSeats: Number(a.max_seats),
+          smallBlind: Number(a.small_blind),
+          bigBlind: Number(a.big_blind),
+          ante: Number(a.ante),
+          anteType: a.ante_type as MockAnteType,
+        })
+      );
+      return `Table ${tableId} created`;
+    }),
+
+  seat_player: (a) =>
+    mutate(() => {
+      const table = getTable(a.table_id);
+      seatPlayer(table, {
+        playerId: Number(a.player_id),
+        seatIndex: Number(a.seat_index),
+        displayName: String(a.display_name),
+        stack: Number(a.initial_stack),
+      });
+      return `Player ${String(a.player_id)} seated at ${String(a.seat_index)}`;
+    }),
+
+  unseat_player: (a) =>
+    mutate(() => {
+      const s = unseatPlayer(getTable(a.table_id), Number(a.seat_index));
+      return `Player ${s.playerId} left seat ${s.seatIndex}`;
+    }),
+
+  adjust_stack: (a) =>
+    mutate(() => {
+      adjustStack(getTable(a.table_id), Number(a.seat_index), Number(a.delta));
+      return "Stack adjusted";
+    }),
+
+  start_hand: (a) =>
+    mutate(() => {
+      startHand(getTable(a.table_id), Number(a.hand_id));
+      return `Hand ${String(a.hand_id)} started`;
+    }),
+
+  player_action: (a) =>
+    mutate(() => {
+      const table = getTable(a.table_id);
+      const amount = a.amount === null || a.amount === undefined ? null : Number(a.amount);
+      applyAction(table, a.action as MockActionKind, amount);
+
+      const t = table.tournamentId !== null ? tournaments.get(table.tournamentId) : undefined;
+      if (t && !table.handInProgress) afterTournamentHand(t, table);
+      return `${String(a.action)} accepted`;
+    }),
+
+  tick_table: (a) =>
+    mutate(() => {
+      const table = getTable(a.table_id);
+      const wasInHand = table.handInProgress;
+      tickTable(table, Number(a.delta_secs));
+
+      const t = table.tournamentId !== null ? tournaments.get(table.tournamentId) : undefined;
+      if (!t) return "Tick applied";
+
+      if (wasInHand && !table.handInProgress) afterTournamentHand(t, table);
+
+      const stillExists = tables.has(table.tableId);
+      if (
+        stillExists &&
+        t.status === "Running" &&
+        !table.handInProgress &&
+        table.idleSecs >= NEXT_HAND_DELAY_SECS &&
+        table.seats.filter((s) => s !== null).length >= 2
+      ) {
+        setBlinds(table, levelAt(t, t.currentLevel));
+        startHand(table, nextHandId);
+        nextHandId += 1;
+        return "Tick applied, next hand started";
+      }
+      return "Tick applied";
+    }),
+
+  create_tournament: (a) =>
+    mutate(() => {
+      const id = Number(a.tournament_id);
+      if (tournaments.has(id)) throw new MockEngineError(`Tournament ${id} already exists`);
+      const cfg =
+        typeof a.config === "object" && a.config !== null
+          ? (a.config as Record<string, unknown>)
+          : {};
+      const levels = readLevels(cfg);
+
+      tournaments.set(id, {
+        tournamentId: id,
+        name: typeof cfg.name === "string" && cfg.name ? cfg.name : `Tournament #${id}`,
+        status: "Registering",
+        currentLevel: 1,
+        startingStack: readNumber(cfg, ["starting_stack", "startingStack"], 10000),
+        tableSize: readNumber(cfg, ["table_size", "max_seats", "tableSize"], 9),
+        actionTimeoutSecs: readNumber(cfg, ["action_time_secs", "actionTime"], 30),
+        anteType: readAnteType(cfg),
+        levels: levels.length > 0 ? levels : DEFAULT_LEVELS,
+        registered: new Map(),
+        tableIds: [],
+      });
+      return `Tournament ${id} created`;
+    }),
+
+  register_player_to_tournament: (a) =>
+    mutate(() => {
+      const t = getTournament(a.tournament_id);
+      if (t.status !== "Registering") throw new MockEngineError("Registration is closed");
+      const playerId = Number(a.player_id);
+      if (t.registered.has(playerId)) throw new MockEngineError("Player already registered");
+      t.registered.set(playerId, String(a.display_name));
+      return `Player ${playerId} registered`;
+    }),
+
+  unregister_player_from_tournament: (a) =>
+    mutate(() => {
+      const t = getTournament(a.tournament_id);
+      if (t.status !== "Registering") throw new MockEngineError("Registration is closed");
+      const playerId = Number(a.player_id);
+      if (!t.registered.delete(playerId)) throw new MockEngineError("Player is not registered");
+      return `Player ${playerId} unregistered`;
+    }),
+
+  start_tournament: (a) => mutate(() => startTournament(getTournament(a.tournament_id))),
+
+  advance_tournament_level: (a) =>
+    mutate(() => {
+      const t = getTournament(a.tournament_id);
+      if (t.status !== "Running") throw new MockEngineError("Tournament is not running");
+      t.currentLevel += 1;
+      // новые блайнды действуют со следующей раздачи
+      for (const table of tournamentTables(t)) {
+        if (!table.handInProgress) setBlinds(table, levelAt(t, t.currentLevel));
+      }
+      return `Level ${t.currentLevel}`;
+    }),
+
+  close_tournament: (a) =>
+    mutate(() => {
+      const t = getTournament(a.tournament_id);
+      if (t.status === "Finished") throw new MockEngineError("Tournament already finished");
+      for (const id of t.tableIds) tables.delete(id);
+      t.tableIds = [];
+      t.status = "Finished";
+      return `Tournament ${t.tournamentId} closed`;
+    }),
+};
+
+// -----------------------------------------------------------------------------
+// Seed + Backend
+// -----------------------------------------------------------------------------
+
+/** Идентичность героя в mock-режиме (цепочки и owner'а без faucet нет). */
+export const MOCK_HERO = {
+  owner: "0x" + "00".repeat(31) + "01",
+  playerId: 1,
+  displayName: "You",
+} as const;
+
+let seeded = false;
+
+/** Стартовые данные: кэш-стол "1" с героем (MOCK_HERO) и турнир в регистрации. */
+function seed(): void {
+  if (seeded) return;
+  seeded = true;
+
+  const table = createMockTable({
+    tableId: "1",
+    name: "Mock Table #1",
+    maxSeats: 9,
+    smallBlind: 50,
+    bigBlind: 100,
+    ante: 0,
+    anteType: "None",
+  });
+  seatPlayer(table, {
+    playerId: MOCK_HERO.playerId,
+    seatIndex: 0,
+    displayName: MOCK_HERO.displayName,
+    stack: 5000,
+  });
+  tables.set(table.tableId, table);
+
+  mutationResolvers.create_tournament({
+    tournament_id: 1,
+    config: { name: "Mock Freeroll", starting_stack: 10000, table_size: 9 },
+  });
+}
+
+export function createMockBackend(): Backend {
+  seed();
+  console.info("[MockBackend] using in-memory poker backend");
+
+  return {
+    async query(request: string): Promise<string> {
+      const parsed = JSON.parse(request) as {
+        query: string;
+        variables?: Record<string, unknown> | null;
+        operationName?: string | null;
+      };
+      const response = executeRequest(
+        SCHEMA,
+        { query: queryResolvers, mutation: mutationResolvers },
+        parsed
+      );
+      return JSON.stringify(response);
+    },
+  };
+}
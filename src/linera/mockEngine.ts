@@ -0,0 +1,671 @@
+// src/linera/mockEngine.ts
+//
+// In-memory движок No-Limit Hold'em для mock-бэкенда.
+// Держит состояние одного стола и проводит раздачу целиком:
+// баттон, анте, блайнды, раздача, круги торговли с реальным min-raise,
+// улицы, showdown с side pot'ами, авто-действие по таймауту (tick).
+//
+// Суммы Bet/Raise трактуются как "raise to" — итоговая ставка игрока на улице.
+// Наружу отдаём GqlTableView-совместимый объект (snake_case), см. toTableView().
+
+import type { GqlCard, GqlPlayerAtTable, GqlTableView } from "./pokerApi";
+
+// -----------------------------------------------------------------------------
+// Cards
+// -----------------------------------------------------------------------------
+
+const RANK_NAMES = [
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Jack",
+  "Queen",
+  "King",
+  "Ace",
+] as const;
+
+const SUIT_NAMES = ["Clubs", "Diamonds", "Hearts", "Spades"] as const;
+
+/** Карта кодируется числом rank * 4 + suit, rank 0 = двойка, 12 = туз. */
+type CardCode = number;
+
+const rankOf = (c: CardCode): number => Math.floor(c / 4);
+const suitOf = (c: CardCode): number => c % 4;
+
+function toGqlCard(c: CardCode): GqlCard {
+  return { rank: RANK_NAMES[rankOf(c)], suit: SUIT_NAMES[suitOf(c)] };
+}
+
+/** Детерминированный PRNG, чтобы одна и та же раздача (handId) воспроизводилась. */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(s: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i += 1) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+function shuffledDeck(seed: number): CardCode[] {
+  const deck = Array.from({ length: 52 }, (_, i) => i);
+  const rnd = mulberry32(seed);
+  for (let i = deck.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rnd() * (i + 1));
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+}
+
+// -----------------------------------------------------------------------------
+// Hand evaluation (5 из 7)
+// -----------------------------------------------------------------------------
+
+/** Сравнимый score 5-карточной руки: категория * 15^5 + кикеры. */
+function scoreFive(cards: CardCode[]): number {
+  const ranks = cards.map(rankOf).sort((a, b) => b - a);
+  const isFlush = cards.every((c) => suitOf(c) === suitOf(cards[0]));
+
+  const unique = [...new Set(ranks)];
+  let straightHigh = -1;
+  if (unique.length === 5) {
+    if (unique[0] - unique[4] === 4) straightHigh = unique[0];
+    // колесо A-2-3-4-5
+    if (unique[0] === 12 && unique[1] === 3) straightHigh = 3;
+  }
+
+  const counts = new Map<number, number>();
+  for (const r of ranks) counts.set(r, (counts.get(r) ?? 0) + 1);
+  // группы: сначала по размеру, потом по рангу
+  const groups = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+  const ordered = groups.map(([r]) => r);
+
+  let category: number;
+  let kickers: number[];
+
+  if (straightHigh >= 0 && isFlush) {
+    category = 8;
+    kickers = [straightHigh];
+  } else if (groups[0][1] === 4) {
+    category = 7;
+    kickers = ordered;
+  } else if (groups[0][1] === 3 && groups[1][1] === 2) {
+    category = 6;
+    kickers = ordered;
+  } else if (isFlush) {
+    category = 5;
+    kickers = ranks;
+  } else if (straightHigh >= 0) {
+    category = 4;
+    kickers = [straightHigh];
+  } else if (groups[0][1] === 3) {
+    category = 3;
+    kickers = ordered;
+  } else if (groups[0][1] === 2 && groups[1][1] === 2) {
+    category = 2;
+    kickers = ordered;
+  } else if (groups[0][1] === 2) {
+    category = 1;
+    kickers = ordered;
+  } else {
+    category = 0;
+    kickers = ranks;
+  }
+
+  let score = category;
+  for (let i = 0; i < 5; i += 1) score = score * 15 + (kickers[i] ?? 0);
+  return score;
+}
+
+function scoreBest(cards: CardCode[]): number {
+  let best = -1;
+  const n = cards.length;
+  for (let a = 0; a < n; a += 1)
+    for (let b = a + 1; b < n; b += 1)
+      for (let c = b + 1; c < n; c += 1)
+        for (let d = c + 1; d < n; d += 1)
+          for (let e = d + 1; e < n; e += 1) {
+            const s = scoreFive([cards[a], cards[b], cards[c], cards[d], cards[e]]);
+            if (s > best) best = s;
+          }
+  return best;
+}
+
+// -----------------------------------------------------------------------------
+// State
+// -----------------------------------------------------------------------------
+
+export type MockAnteType = "None" | "Classic" | "BigBlind";
+export type MockActionKind = "Fold" | "Check" | "Call" | "Bet" | "Raise" | "AllIn";
+export type MockPlayerStatus = "Active" | "Folded" | "AllIn" | "SittingOut";
+export type MockStreet = "Waiting" | "PreFlop" | "Flop" | "Turn" | "River" | "Showdown";
+
+export type MockSeat = {
+  playerId: number;
+  displayName: string;
+  seatIndex: number;
+  stack: number;
+  /** Ставка на текущей улице */
+  currentBet: number;
+  /** Всё, что игрок вложил в банк за раздачу (для side pot'ов) */
+  committed: number;
+  status: MockPlayerStatus;
+  holeCards: CardCode[] | null;
+  hasActed: boolean;
+};
+
+export type MockTable = {
+  tableId: string;
+  name: string;
+  maxSeats: number;
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  anteType: MockAnteType;
+
+  street: MockStreet;
+  dealerButton: number | null;
+  /** Собранный банк (без ставок текущей улицы) */
+  pot: number;
+  board: CardCode[];
+  deck: CardCode[];
+  seats: (MockSeat | null)[];
+
+  handInProgress: boolean;
+  currentActorSeat: number | null;
+  lastRaiseSize: number;
+  handId: number | null;
+  handsPlayed: number;
+
+  actionTimeoutSecs: number;
+  /** Сколько секунд (по tick) ждёт текущий actor */
+  actorElapsedSecs: number;
+  /** Сколько секунд (по tick) стол простаивает без раздачи */
+  idleSecs: number;
+
+  tournamentId: number | null;
+};
+
+export class MockEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MockEngineError";
+  }
+}
+
+export function createMockTable(input: {
+  tableId: string;
+  name: string;
+  maxSeats: number;
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  anteType: MockAnteType;
+  actionTimeoutSecs?: number;
+  tournamentId?: number | null;
+}): MockTable {
+  if (input.maxSeats < 2 || input.maxSeats > 10) {
+    throw new MockEngineError(`max_seats must be between 2 and 10, got ${input.maxSeats}`);
+  }
+  if (input.smallBlind <= 0 || input.bigBlind < input.smallBlind) {
+    throw new MockEngineError("Invalid blinds");
+  }
+
+  return {
+    tableId: input.tableId,
+    name: input.name,
+    maxSeats: input.maxSeats,
+    smallBlind: input.smallBlind,
+    bigBlind: input.bigBlind,
+    ante: input.ante,
+    anteType: input.anteType,
+    street: "Waiting",
+    dealerButton: null,
+    pot: 0,
+    board: [],
+    deck: [],
+    seats: Array.from({ length: input.maxSeats }, () => null),
+    handInProgress: false,
+    currentActorSeat: null,
+    lastRaiseSize: input.bigBlind,
+    handId: null,
+    handsPlayed: 0,
+    actionTimeoutSecs: input.actionTimeoutSecs ?? 30,
+    actorElapsedSecs: 0,
+    idleSecs: 0,
+    tournamentId: input.tournamentId ?? null,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Seats
+// -----------------------------------------------------------------------------
+
+function occupiedSeats(table: MockTable): MockSeat[] {
+  return table.seats.filter((s): s is MockSeat => s !== null);
+}
+
+function isInHand(s: MockSeat): boolean {
+  return s.holeCards !== null && (s.status === "Active" || s.status === "AllIn");
+}
+
+function nextSeat(
+  table: MockTable,
+  from: number,
+  predicate: (s: MockSeat) => boolean
+): MockSeat | null {
+  for (let i = 1; i <= table.maxSeats; i += 1) {
+    const s = table.seats[(from + i + table.maxSeats) % table.maxSeats];
+    if (s && predicate(s)) return s;
+  }
+  return null;
+}
+
+function seatAt(table: MockTable, seatIndex: number): MockSeat {
+  const s = table.seats[seatIndex];
+  if (!s) throw new MockEngineError(`Seat ${seatIndex} is empty`);
+  return s;
+}
+
+export function seatPlayer(
+  table: MockTable,
+  input: { playerId: number; seatIndex: number; displayName: string; stack: number }
+): void {
+  if (input.seatIndex < 0 || input.seatIndex >= table.maxSeats) {
+    throw new MockEngineError(`Seat ${input.seatIndex} does not exist (max_seats = ${table.maxSeats})`);
+  }
+  if (table.seats[input.seatIndex]) {
+    throw new MockEngineError(`Seat ${input.seatIndex} is already taken`);
+  }
+  if (occupiedSeats(table).some((s) => s.playerId === input.playerId)) {
+    throw new MockEngineError(`Player ${input.playerId} is already seated at this table`);
+  }
+  if (input.stack < 0) throw new MockEngineError("Initial stack must be non-negative");
+
+  table.seats[input.seatIndex] = {
+    playerId: input.playerId,
+    displayName: input.displayName,
+    seatIndex: input.seatIndex,
+    stack: input.stack,
+    currentBet: 0,
+    committed: 0,
+    // сядет в игру со следующей раздачи
+    status: "SittingOut",
+    holeCards: null,
+    hasActed: false,
+  };
+}
+
+export function unseatPlayer(table: MockTable, seatIndex: number): MockSeat {
+  const s = seatAt(table, seatIndex);
+  if (table.handInProgress && isInHand(s)) {
+    throw new MockEngineError("Cannot unseat a player who is still in the hand");
+  }
+  table.seats[seatIndex] = null;
+  return s;
+}
+
+export function adjustStack(table: MockTable, seatIndex: number, delta: number): void {
+  const s = seatAt(table, seatIndex);
+  if (table.handInProgress && isInHand(s)) {
+    throw new MockEngineError("Cannot adjust the stack of a player in the hand");
+  }
+  s.stack = Math.max(0, s.stack + delta);
+}
+
+export function setBlinds(
+  table: MockTable,
+  level: { smallBlind: number; bigBlind: number; ante: number }
+): void {
+  table.smallBlind = level.smallBlind;
+  table.bigBlind = level.bigBlind;
+  table.ante = level.ante;
+}
+
+// -----------------------------------------------------------------------------
+// Hand flow
+// -----------------------------------------------------------------------------
+
+function currentMaxBet(table: MockTable): number {
+  return occupiedSeats(table).reduce((m, s) => Math.max(m, s.currentBet), 0);
+}
+
+function putChips(s: MockSeat, amount: number): void {
+  const chips = Math.min(amount, s.stack);
+  s.stack -= chips;
+  s.currentBet += chips;
+  s.committed += chips;
+  if (s.stack === 0 && s.status === "Active") s.status = "AllIn";
+}
+
+function postAnte(table: MockTable, s: MockSeat, amount: number): void {
+  const chips = Math.min(amount, s.stack);
+  s.stack -= chips;
+  s.committed += chips;
+  table.pot += chips;
+  if (s.stack === 0) s.status = "AllIn";
+}
+
+export function startHand(table: MockTable, handId: number): void {
+  if (table.handInProgress) throw new MockEngineError("Hand already in progress");
+
+  const players = occupiedSeats(table);
+  for (const s of players) {
+    s.currentBet = 0;
+    s.committed = 0;
+    s.hasActed = false;
+    s.holeCards = null;
+    s.status = s.stack > 0 ? "Active" : "SittingOut";
+  }
+
+  const dealtIn = players.filter((s) => s.status === "Active");
+  if (dealtIn.length < 2) {
+    throw new MockEngineError("Need at least two players with chips to start a hand");
+  }
+
+  const isDealt = (s: MockSeat) => s.status === "Active" || s.status === "AllIn";
+  const button = nextSeat(table, table.dealerButton ?? -1, isDealt) as MockSeat;
+  const headsUp = dealtIn.length === 2;
+  const sb = headsUp ? button : (nextSeat(table, button.seatIndex, isDealt) as MockSeat);
+  const bb = nextSeat(table, sb.seatIndex, isDealt) as MockSeat;
+
+  table.dealerButton = button.seatIndex;
+  table.handId = handId;
+  table.board = [];
+  table.pot = 0;
+  table.deck = shuffledDeck(handId ^ hashString(table.tableId));
+  table.street = "PreFlop";
+  table.handInProgress = true;
+  table.lastRaiseSize = table.bigBlind;
+  table.actorElapsedSecs = 0;
+  table.idleSecs = 0;
+
+  if (table.ante > 0 && table.anteType === "Classic") {
+    for (const s of dealtIn) postAnte(table, s, table.ante);
+  } else if (table.ante > 0 && table.anteType === "BigBlind") {
+    postAnte(table, bb, table.ante);
+  }
+
+  putChips(sb, table.smallBlind);
+  putChips(bb, table.bigBlind);
+
+  // по две карты, начиная слева от баттона
+  for (let round = 0; round < 2; round += 1) {
+    let s = nextSeat(table, button.seatIndex, (p) => dealtIn.includes(p));
+    for (let i = 0; i < dealtIn.length && s; i += 1) {
+      s.holeCards = [...(s.holeCards ?? []), table.deck.pop() as CardCode];
+      s = nextSeat(table, s.seatIndex, (p) => dealtIn.includes(p));
+    }
+  }
+
+  table.currentActorSeat = bb.seatIndex;
+  settle(table);
+}
+
+export function applyAction(table: MockTable, kind: MockActionKind, amount: number | null): void {
+  if (!table.handInProgress || table.currentActorSeat === null) {
+    throw new MockEngineError("No hand in progress");
+  }
+
+  const s = seatAt(table, table.currentActorSeat);
+  const maxBet = currentMaxBet(table);
+  const toCall = maxBet - s.currentBet;
+
+  const raiseTo = (target: number) => {
+    const raiseSize = target - maxBet;
+    putChips(s, target - s.currentBet);
+    if (raiseSize >= table.lastRaiseSize) {
+      // полноценный рейз переоткрывает торговлю для всех остальных
+      table.lastRaiseSize = raiseSize;
+      for (const p of occupiedSeats(table)) if (p !== s) p.hasActed = false;
+    }
+  };
+
+  switch (kind) {
+    case "Fold":
+      s.status = "Folded";
+      break;
+
+    case "Check":
+      if (toCall > 0) throw new MockEngineError(`Cannot check: ${toCall} to call`);
+      break;
+
+    case "Call":
+      if (toCall === 0) throw new MockEngineError("Nothing to call, use Check");
+      putChips(s, toCall);
+      break;
+
+    case "Bet": {
+      if (maxBet > 0) throw new MockEngineError("There is already a bet, use Raise");
+      if (amount === null) throw new MockEngineError("Bet requires an amount");
+      if (amount > s.stack) throw new MockEngineError(`Bet ${amount} exceeds stack ${s.stack}`);
+      if (amount < table.bigBlind && amount < s.stack) {
+        throw new MockEngineError(`Minimum bet is ${table.bigBlind}`);
+      }
+      raiseTo(amount);
+      break;
+    }
+
+    case "Raise": {
+      if (maxBet === 0) throw new MockEngineError("Nothing to raise, use Bet");
+      if (amount === null) throw new MockEngineError("Raise requires an amount");
+      const maxTotal = s.stack + s.currentBet;
+      const minTo = maxBet + table.lastRaiseSize;
+      if (amount > maxTotal) throw new MockEngineError(`Raise to ${amount} exceeds stack`);
+      if (amount <= maxBet) throw new MockEngineError(`Raise must be above the current bet ${maxBet}`);
+      if (amount < minTo && amount < maxTotal) {
+        throw new MockEngineError(`Minimum raise is to ${minTo}`);
+      }
+      raiseTo(amount);
+      break;
+    }
+
+    case "AllIn": {
+      const total = s.stack + s.currentBet;
+      if (total > maxBet) raiseTo(total);
+      else putChips(s, s.stack);
+      break;
+    }
+  }
+
+  s.hasActed = true;
+  table.actorElapsedSecs = 0;
+  settle(table);
+}
+
+/** Таймер стола: авто-check/fold по таймауту actor'а, иначе копим простой. */
+export function tickTable(table: MockTable, deltaSecs: number): void {
+  if (deltaSecs < 0) throw new MockEngineError("delta_secs must be non-negative");
+
+  if (!table.handInProgress || table.currentActorSeat === null) {
+    table.idleSecs += deltaSecs;
+    return;
+  }
+
+  table.actorElapsedSecs += deltaSecs;
+  if (table.actorElapsedSecs < table.actionTimeoutSecs) return;
+
+  const s = seatAt(table, table.currentActorSeat);
+  const canCheck = s.currentBet >= currentMaxBet(table);
+  applyAction(table, canCheck ? "Check" : "Fold", null);
+}
+
+function collectBets(table: MockTable): void {
+  for (const s of occupiedSeats(table)) {
+    table.pot += s.currentBet;
+    s.currentBet = 0;
+    s.hasActed = false;
+  }
+  table.lastRaiseSize = table.bigBlind;
+}
+
+/** Невызванная часть самой большой ставки возвращается владельцу. */
+function returnUncalled(table: MockTable): void {
+  const sorted = occupiedSeats(table)
+    .filter((s) => s.committed > 0)
+    .sort((a, b) => b.committed - a.committed);
+  if (sorted.length === 0) return;
+
+  const top = sorted[0];
+  const second = sorted[1]?.committed ?? 0;
+  const excess = top.committed - second;
+  if (excess <= 0) return;
+
+  top.committed -= excess;
+  top.stack += excess;
+  // возврат может прийти и из ставок текущей улицы, и из собранного банка
+  const fromBet = Math.min(excess, top.currentBet);
+  top.currentBet -= fromBet;
+  table.pot -= excess - fromBet;
+  if (top.status === "AllIn" && top.stack > 0) top.status = "Active";
+}
+
+function dealStreet(table: MockTable): void {
+  table.deck.pop(); // burn
+  const count = table.board.length === 0 ? 3 : 1;
+  for (let i = 0; i < count; i += 1) table.board.push(table.deck.pop() as CardCode);
+  table.street = table.board.length === 3 ? "Flop" : table.board.length === 4 ? "Turn" : "River";
+}
+
+function finishHand(table: MockTable): void {
+  table.handInProgress = false;
+  table.currentActorSeat = null;
+  table.handsPlayed += 1;
+  table.idleSecs = 0;
+  table.actorElapsedSecs = 0;
+}
+
+/** Переход хода / улицы / завершение раздачи после каждого действия. */
+function settle(table: MockTable): void {
+  const inHand = occupiedSeats(table).filter(isInHand);
+
+  if (inHand.length === 1) {
+    returnUncalled(table);
+    collectBets(table);
+    inHand[0].stack += table.pot;
+    table.pot = 0;
+    finishHand(table);
+    return;
+  }
+
+  const canAct = inHand.filter((s) => s.status === "Active");
+  const maxBet = currentMaxBet(table);
+  const pending = canAct.filter((s) => !s.hasActed || s.currentBet < maxBet);
+  const lonelyCovered = canAct.length === 1 && canAct[0].currentBet >= maxBet;
+
+  if (pending.length > 0 && !lonelyCovered) {
+    const from = table.currentActorSeat ?? table.dealerButton ?? -1;
+    const next = nextSeat(table, from, (s) => pending.includes(s));
+    table.currentActorSeat = next ? next.seatIndex : null;
+    return;
+  }
+
+  // круг торговли закрыт
+  returnUncalled(table);
+  collectBets(table);
+
+  if (table.street === "River" || canAct.length <= 1) {
+    while (table.board.length < 5) dealStreet(table);
+    showdown(table);
+    return;
+  }
+
+  dealStreet(table);
+  const first = nextSeat(table, table.dealerButton ?? -1, (s) => s.status === "Active" && isInHand(s));
+  table.currentActorSeat = first ? first.seatIndex : null;
+}
+
+function showdown(table: MockTable): void {
+  table.street = "Showdown";
+
+  const contenders = occupiedSeats(table).filter(isInHand);
+  const scores = new Map<MockSeat, number>(
+    contenders.map((s) => [s, scoreBest([...(s.holeCards ?? []), ...table.board])])
+  );
+
+  const levels = [...new Set(occupiedSeats(table).map((s) => s.committed).filter((c) => c > 0))].sort(
+    (a, b) => a - b
+  );
+
+  let prev = 0;
+  let carryEligible: MockSeat[] = contenders;
+  for (const level of levels) {
+    const amount = occupiedSeats(table).reduce(
+      (sum, s) => sum + Math.max(0, Math.min(s.committed, level) - prev),
+      0
+    );
+    prev = level;
+
+    let eligible = contenders.filter((s) => s.committed >= level);
+    if (eligible.length === 0) eligible = carryEligible;
+    carryEligible = eligible;
+
+    const best = Math.max(...eligible.map((s) => scores.get(s) ?? -1));
+    const winners = eligible.filter((s) => scores.get(s) === best);
+    const share = Math.floor(amount / winners.length);
+    let remainder = amount - share * winners.length;
+
+    // нечётная фишка — первому победителю слева от баттона
+    let s = nextSeat(table, table.dealerButton ?? -1, (p) => winners.includes(p));
+    for (let i = 0; i < winners.length && s; i += 1) {
+      s.stack += share + (remainder > 0 ? 1 : 0);
+      remainder -= 1;
+      s = nextSeat(table, s.seatIndex, (p) => winners.includes(p));
+    }
+  }
+
+  table.pot = 0;
+  for (const s of occupiedSeats(table)) {
+    // на вскрытии показываются только дошедшие до него руки
+    if (s.status === "Folded") s.holeCards = null;
+  }
+  finishHand(table);
+}
+
+// -----------------------------------------------------------------------------
+// View
+// -----------------------------------------------------------------------------
+
+export function toTableView(table: MockTable): GqlTableView {
+  const players: GqlPlayerAtTable[] = occupiedSeats(table).map((s) => ({
+    player_id: s.playerId,
+    display_name: s.displayName,
+    seat_index: s.seatIndex,
+    stack: s.stack,
+    current_bet: s.currentBet,
+    status: s.status,
+    hole_cards: s.holeCards ? s.holeCards.map(toGqlCard) : null,
+  }));
+
+  return {
+    table_id: table.tableId,
+    name: table.name,
+    max_seats: table.maxSeats,
+    small_blind: table.smallBlind,
+    big_blind: table.bigBlind,
+    ante: table.ante,
+    street: table.street,
+    dealer_button: table.dealerButton,
+    total_pot: table.pot,
+    board: table.board.map(toGqlCard),
+    players,
+    hand_in_progress: table.handInProgress,
+    current_actor_seat: table.currentActorSeat,
+  };
+}
@@ -0,0 +1,597 @@
+// src/linera/mockGql.ts
+//
+// Минимальный GraphQL-движок для mock-бэкенда:
+// - парсер документа (операции, переменные, алиасы, аргументы, вложенные selection'ы);
+// - валидация против описания схемы (неизвестные поля/аргументы, enum'ы);
+// - выполнение через резолверы корневых полей + проекция результата по selection;
+// - introspection (__schema / __typename) в объёме, который нужен фронту.
+//
+// Фрагменты и директивы не поддерживаются — pokerApi.ts их не использует.
+
+// -----------------------------------------------------------------------------
+// AST
+// -----------------------------------------------------------------------------
+
+export type GqlValue =
+  | { kind: "variable"; name: string }
+  | { kind: "int"; value: number }
+  | { kind: "float"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "null" }
+  | { kind: "enum"; value: string }
+  | { kind: "list"; values: GqlValue[] }
+  | { kind: "object"; fields: Record<string, GqlValue> };
+
+export type GqlField = {
+  alias: string | null;
+  name: string;
+  args: Record<string, GqlValue>;
+  selections: GqlField[] | null;
+};
+
+export type GqlOperation = {
+  type: "query" | "mutation";
+  name: string | null;
+  variableDefaults: Record<string, GqlValue>;
+  selections: GqlField[];
+};
+
+export class GqlSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GqlSyntaxError";
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Lexer
+// -----------------------------------------------------------------------------
+
+type Token =
+  | { t: "punct"; v: string }
+  | { t: "name"; v: string }
+  | { t: "int"; v: string }
+  | { t: "float"; v: string }
+  | { t: "string"; v: string }
+  | { t: "eof" };
+
+const PUNCT = new Set(["{", "}", "(", ")", ":", "$", "!", "[", "]", "=", "@"]);
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    // пробелы, запятые и BOM в GraphQL незначимы
+    if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r" || ch === "," || ch === "\uFEFF") {
+      i += 1;
+      continue;
+    }
+
+    if (ch === "#") {
+      while (i < src.length && src[i] !== "\n") i += 1;
+      continue;
+    }
+
+    if (src.startsWith("...", i)) {
+      throw new GqlSyntaxError("Fragments are not supported by the mock backend");
+    }
+
+    if (PUNCT.has(ch)) {
+      out.push({ t: "punct", v: ch });
+      i += 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      let j = i + 1;
+      let value = "";
+      while (j < src.length && src[j] !== '"') {
+        if (src[j] === "\\") {
+          const next = src[j + 1];
+          const escapes: Record<string, string> = {
+            n: "\n",
+            t: "\t",
+            r: "\r",
+            '"': '"',
+            "\\": "\\",
+            "/": "/",
+          };
+          if (next === "u") {
+            value += String.fromCharCode(parseInt(src.slice(j + 2, j + 6), 16));
+            j += 6;
+            continue;
+          }
+          value += escapes[next] ?? next;
+          j += 2;
+          continue;
+        }
+        value += src[j];
+        j += 1;
+      }
+      if (j >= src.length) throw new GqlSyntaxError("Unterminated string");
+      out.push({ t: "string", v: value });
+      i = j + 1;
+      continue;
+    }
+
+    const num = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(src.slice(i));
+    if (num) {
+      out.push({ t: num[1] || num[2] ? "float" : "int", v: num[0] });
+      i += num[0].length;
+      continue;
+    }
+
+    const name = /^[_A-Za-z][_0-9A-Za-z]*/.exec(src.slice(i));
+    if (name) {
+      out.push({ t: "name", v: name[0] });
+      i += name[0].length;
+      continue;
+    }
+
+    throw new GqlSyntaxError(`Unexpected character "${ch}"`);
+  }
+
+  out.push({ t: "eof" });
+  return out;
+}
+
+// -----------------------------------------------------------------------------
+// Parser
+// -----------------------------------------------------------------------------
+
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+
+  constructor(src: string) {
+    this.tokens = tokenize(src);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const tok = this.tokens[this.pos];
+    this.pos += 1;
+    return tok;
+  }
+
+  private isPunct(v: string): boolean {
+    const tok = this.peek();
+    return tok.t === "punct" && tok.v === v;
+  }
+
+  private expectPunct(v: string): void {
+    const tok = this.next();
+    if (tok.t !== "punct" || tok.v !== v) {
+      throw new GqlSyntaxError(`Expected "${v}", found ${describe(tok)}`);
+    }
+  }
+
+  private expectName(): string {
+    const tok = this.next();
+    if (tok.t !== "name") {
+      throw new GqlSyntaxError(`Expected name, found ${describe(tok)}`);
+    }
+    return tok.v;
+  }
+
+  parseDocument(): GqlOperation[] {
+    const ops: GqlOperation[] = [];
+    while (this.peek().t !== "eof") {
+      ops.push(this.parseOperation());
+    }
+    if (ops.length === 0) throw new GqlSyntaxError("Document has no operations");
+    return ops;
+  }
+
+  private parseOperation(): GqlOperation {
+    if (this.isPunct("{")) {
+      return { type: "query", name: null, variableDefaults: {}, selections: this.parseSelectionSet() };
+    }
+
+    const kw = this.expectName();
+    if (kw !== "query" && kw !== "mutation") {
+      throw new GqlSyntaxError(`Unsupported operation type "${kw}"`);
+    }
+
+    let name: string | null = null;
+    if (this.peek().t === "name") name = this.expectName();
+
+    const variableDefaults: Record<string, GqlValue> = {};
+    if (this.isPunct("(")) {
+      this.next();
+      while (!this.isPunct(")")) {
+        this.expectPunct("$");
+        const varName = this.expectName();
+        this.expectPunct(":");
+        this.skipType();
+        if (this.isPunct("=")) {
+          this.next();
+          variableDefaults[varName] = this.parseValue(true);
+        }
+      }
+      this.next();
+    }
+
+    return { type: kw, name, variableDefaults, selections: this.parseSelectionSet() };
+  }
+
+  private skipType(): void {
+    if (this.isPunct("[")) {
+      this.next();
+      this.skipType();
+      this.expectPunct("]");
+    } else {
+      this.expectName();
+    }
+    if (this.isPunct("!")) this.next();
+  }
+
+  private parseSelectionSet(): GqlField[] {
+    this.expectPunct("{");
+    const fields: GqlField[] = [];
+    while (!this.isPunct("}")) {
+      fields.push(this.parseField());
+    }
+    this.next();
+    if (fields.length === 0) throw new GqlSyntaxError("Empty selection set");
+    return fields;
+  }
+
+  private parseField(): GqlField {
+    let alias: string | null = null;
+    let name = this.expectName();
+    if (this.isPunct(":")) {
+      this.next();
+      alias = name;
+      name = this.expectName();
+    }
+
+    const args: Record<string, GqlValue> = {};
+    if (this.isPunct("(")) {
+      this.next();
+      while (!this.isPunct(")")) {
+        const argName = this.expectName();
+        this.expectPunct(":");
+        args[argName] = this.parseValue(false);
+      }
+      this.next();
+    }
+
+    if (this.isPunct("@")) {
+      throw new GqlSyntaxError("Directives are not supported by the mock backend");
+    }
+
+    const selections = this.isPunct("{") ? this.parseSelectionSet() : null;
+    return { alias, name, args, selections };
+  }
+
+  private parseValue(isConst: boolean): GqlValue {
+    const tok = this.next();
+    switch (tok.t) {
+      case "punct":
+        if (tok.v === "$" && !isConst) {
+          return { kind: "variable", name: this.expectName() };
+        }
+        if (tok.v === "[") {
+          const values: GqlValue[] = [];
+          while (!this.isPunct("]")) values.push(this.parseValue(isConst));
+          this.next();
+          return { kind: "list", values };
+        }
+        if (tok.v === "{") {
+          const fields: Record<string, GqlValue> = {};
+          while (!this.isPunct("}")) {
+            const key = this.expectName();
+            this.expectPunct(":");
+            fields[key] = this.parseValue(isConst);
+          }
+          this.next();
+          return { kind: "object", fields };
+        }
+        break;
+      case "int":
+        return { kind: "int", value: Number(tok.v) };
+      case "float":
+        return { kind: "float", value: Number(tok.v) };
+      case "string":
+        return { kind: "string", value: tok.v };
+      case "name":
+        if (tok.v === "true" || tok.v === "false") return { kind: "boolean", value: tok.v === "true" };
+        if (tok.v === "null") return { kind: "null" };
+        return { kind: "enum", value: tok.v };
+      case "eof":
+        break;
+    }
+    throw new GqlSyntaxError(`Unexpected ${describe(tok)}`);
+  }
+}
+
+function describe(tok: Token): string {
+  return tok.t === "eof" ? "end of document" : `"${tok.v}"`;
+}
+
+export function parseOperation(query: string, operationName?: string | null): GqlOperation {
+  const ops = new Parser(query).parseDocument();
+  if (operationName) {
+    const op = ops.find((o) => o.name === operationName);
+    if (!op) throw new GqlSyntaxError(`Unknown operation named "${operationName}"`);
+    return op;
+  }
+  if (ops.length > 1) {
+    throw new GqlSyntaxError("Operation name is required when the document has several operations");
+  }
+  return ops[0];
+}
+
+export function resolveValue(value: GqlValue, variables: Record<string, unknown>): unknown {
+  switch (value.kind) {
+    case "variable":
+      return variables[value.name] ?? null;
+    case "int":
+    case "float":
+    case "string":
+    case "boolean":
+    case "enum":
+      return value.value;
+    case "null":
+      return null;
+    case "list":
+      return value.values.map((v) => resolveValue(v, variables));
+    case "object": {
+      const out: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value.fields)) out[k] = resolveValue(v, variables);
+      return out;
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Schema description
+// -----------------------------------------------------------------------------
+
+/** Описание поля: тип в SDL-нотации ("[GqlTableView!]!") и аргументы (имя -> тип). */
+export type FieldSpec = {
+  type: string;
+  args?: Record<string, string>;
+};
+
+export type SchemaSpec = {
+  objects: Record<string, Record<string, FieldSpec>>;
+  enums: Record<string, string[]>;
+  scalars: string[];
+};
+
+const BUILTIN_SCALARS = ["Int", "Float", "String", "Boolean", "ID"];
+
+/** "[GqlCard!]!" -> "GqlCard" */
+function namedType(sdl: string): string {
+  return sdl.replace(/[[\]!]/g, "");
+}
+
+function isLeaf(schema: SchemaSpec, typeName: string): boolean {
+  return (
+    BUILTIN_SCALARS.includes(typeName) ||
+    schema.scalars.includes(typeName) ||
+    typeName in schema.enums
+  );
+}
+
+export type GqlErrorOut = { message: string; path?: (string | number)[] };
+
+function validateSelections(
+  schema: SchemaSpec,
+  typeName: string,
+  fields: GqlField[],
+  variables: Record<string, unknown>,
+  errors: GqlErrorOut[]
+): void {
+  const spec = schema.objects[typeName];
+
+  for (const field of fields) {
+    if (field.name === "__typename") continue;
+    // introspection-поддерево не валидируем: проекция там "мягкая"
+    if (field.name === "__schema") continue;
+
+    const fieldSpec = spec?.[field.name];
+    if (!fieldSpec) {
+      errors.push({ message: `Unknown field "${field.name}" on type "${typeName}".` });
+      continue;
+    }
+
+    const argSpecs = fieldSpec.args ?? {};
+    for (const argName of Object.keys(field.args)) {
+      if (!(argName in argSpecs)) {
+        errors.push({ message: `Unknown argument "${argName}" on field "${typeName}.${field.name}".` });
+      }
+    }
+
+    for (const [argName, argType] of Object.entries(argSpecs)) {
+      const provided = field.args[argName];
+      const value = provided ? resolveValue(provided, variables) : null;
+
+      if (argType.endsWith("!") && (value === null || value === undefined)) {
+        errors.push({
+          message: `Field "${field.name}" argument "${argName}" of type "${argType}" is required, but it was not provided.`,
+        });
+        continue;
+      }
+
+      const enumValues = schema.enums[namedType(argType)];
+      if (enumValues && value !== null && value !== undefined && !enumValues.includes(String(value))) {
+        errors.push({
+          message: `Invalid value for argument "${argName}", enumeration type "${namedType(argType)}" does not contain the value "${String(value)}"`,
+        });
+      }
+    }
+
+    const child = namedType(fieldSpec.type);
+    if (isLeaf(schema, child)) {
+      if (field.selections) {
+        errors.push({ message: `Field "${field.name}" must not have a selection since type "${child}" has no subfields` });
+      }
+    } else if (!field.selections) {
+      errors.push({ message: `Field "${field.name}" of type "${child}" must have a selection of subfields` });
+    } else {
+      validateSelections(schema, child, field.selections, variables, errors);
+    }
+  }
+}
+
+function project(
+  schema: SchemaSpec,
+  typeName: string | null,
+  value: unknown,
+  selections: GqlField[] | null
+): unknown {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map((v) => project(schema, typeName, v, selections));
+  if (!selections) return value;
+
+  const source = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  const spec = typeName ? schema.objects[typeName] : undefined;
+
+  for (const field of selections) {
+    const key = field.alias ?? field.name;
+    if (field.name === "__typename") {
+      out[key] = typeName;
+      continue;
+    }
+    const childType = spec?.[field.name] ? namedType(spec[field.name].type) : null;
+    out[key] = project(schema, childType, source[field.name], field.selections);
+  }
+  return out;
+}
+
+// -----------------------------------------------------------------------------
+// Introspection
+// -----------------------------------------------------------------------------
+
+type TypeRef = { kind: string; name: string | null; ofType: TypeRef | null };
+
+function typeRef(schema: SchemaSpec, sdl: string): TypeRef {
+  if (sdl.endsWith("!")) {
+    return { kind: "NON_NULL", name: null, ofType: typeRef(schema, sdl.slice(0, -1)) };
+  }
+  if (sdl.startsWith("[")) {
+    return { kind: "LIST", name: null, ofType: typeRef(schema, sdl.slice(1, -1)) };
+  }
+  const kind =
+    sdl in schema.enums ? "ENUM" : isLeaf(schema, sdl) ? "SCALAR" : "OBJECT";
+  return { kind, name: sdl, ofType: null };
+}
+
+function introspectObject(schema: SchemaSpec, name: string) {
+  const fields = schema.objects[name] ?? {};
+  return {
+    kind: "OBJECT",
+    name,
+    fields: Object.entries(fields).map(([fieldName, spec]) => ({
+      name: fieldName,
+      type: typeRef(schema, spec.type),
+      args: Object.entries(spec.args ?? {}).map(([argName, argType]) => ({
+        name: argName,
+        type: typeRef(schema, argType),
+        defaultValue: null,
+      })),
+    })),
+    enumValues: null,
+  };
+}
+
+function buildIntrospection(schema: SchemaSpec) {
+  const types = [
+    ...Object.keys(schema.objects).map((name) => introspectObject(schema, name)),
+    ...Object.entries(schema.enums).map(([name, values]) => ({
+      kind: "ENUM",
+      name,
+      fields: null,
+      enumValues: values.map((v) => ({ name: v })),
+    })),
+    ...[...BUILTIN_SCALARS, ...schema.scalars].map((name) => ({
+      kind: "SCALAR",
+      name,
+      fields: null,
+      enumValues: null,
+    })),
+  ];
+
+  return {
+    queryType: "Query" in schema.objects ? introspectObject(schema, "Query") : null,
+    mutationType: "Mutation" in schema.objects ? introspectObject(schema, "Mutation") : null,
+    types,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Execution
+// -----------------------------------------------------------------------------
+
+export type RootResolvers = Record<string, (args: Record<string, unknown>) => unknown>;
+
+export type GqlResponse = { data?: Record<string, unknown> | null; errors?: GqlErrorOut[] };
+
+/**
+ * Выполняет запрос в формате, который шлёт gql() из lineraClient:
+ * { query, variables, operationName }.
+ */
+export function executeRequest(
+  schema: SchemaSpec,
+  resolvers: { query: RootResolvers; mutation: RootResolvers },
+  request: { query: string; variables?: Record<string, unknown> | null; operationName?: string | null }
+): GqlResponse {
+  let op: GqlOperation;
+  try {
+    op = parseOperation(request.query, request.operationName);
+  } catch (e) {
+    return { errors: [{ message: e instanceof Error ? e.message : String(e) }] };
+  }
+
+  const variables: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(op.variableDefaults)) variables[k] = resolveValue(v, {});
+  Object.assign(variables, request.variables ?? {});
+
+  const rootType = op.type === "query" ? "Query" : "Mutation";
+  const errors: GqlErrorOut[] = [];
+  validateSelections(schema, rootType, op.selections, variables, errors);
+  if (errors.length > 0) return { data: null, errors };
+
+  const roots = op.type === "query" ? resolvers.query : resolvers.mutation;
+  const data: Record<string, unknown> = {};
+
+  for (const field of op.selections) {
+    const key = field.alias ?? field.name;
+
+    if (field.name === "__typename") {
+      data[key] = rootType;
+      continue;
+    }
+    if (field.name === "__schema") {
+      data[key] = project(schema, null, buildIntrospection(schema), field.selections);
+      continue;
+    }
+
+    const args: Record<string, unknown> = {};
+    for (const [argName, argValue] of Object.entries(field.args)) {
+      args[argName] = resolveValue(argValue, variables);
+    }
+
+    try {
+      const value = roots[field.name](args);
+      const typeName = namedType(schema.objects[rootType][field.name].type);
+      data[key] = project(schema, typeName, value, field.selections);
+    } catch (e) {
+      data[key] = null;
+      errors.push({ message: e instanceof Error ? e.message : String(e), path: [key] });
+    }
+  }
+
+  return errors.length > 0 ? { data, errors } : { data };
+}
@@ -0,0 +1,72 @@
+// src/linera/playerIdentity.ts
+//
+// Кто такой "герой" за этим браузером.
+//
+// Контракт адресует игроков числовым player_id (Int в GraphQL), а сессия
+// знает только owner (адрес signer'а). Отдельной таблицы owner -> player_id
+// в service.rs нет, поэтому id выводится из owner детерминированно:
+// тот же ключ в localStorage (sessionStore.ts) -> тот же owner -> тот же id
+// на любой странице и после перезагрузки.
+//
+// В mock-режиме faucet'а нет — герой фиксирован (MOCK_HERO).
+
+import { getSessionInfo } from "./lineraClient";
+import { MOCK_HERO } from "./mockBackend";
+import { DEV_MOCK_BACKEND } from "../config/devFlags";
+
+export type HeroIdentity = {
+  owner: string;
+  chainId: string | null;
+  /** player_id для мутаций и сравнения с GqlPlayerAtTable.player_id */
+  playerId: number;
+  displayName: string;
+};
+
+// GraphQL Int — знаковый 32-битный, 0 оставляем как "нет игрока".
+const PLAYER_ID_RANGE = 0x7fffffff;
+
+/**
+ * owner -> player_id: FNV-1a (32 бита) по нормализованному адресу,
+ * сведённый в 1..2^31-1. Коллизии возможны, но на масштабе одного стола
+ * / турнира пренебрежимы.
+ */
+export function derivePlayerId(owner: string): number {
+  const normalized = owner.trim().toLowerCase();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i += 1) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return (hash % (PLAYER_ID_RANGE - 1)) + 1;
+}
+
+/** Короткое имя по умолчанию: "Player 1a2b3c". */
+export function defaultDisplayName(owner: string): string {
+  const hex = owner.toLowerCase().replace(/^0x/, "");
+  return `Player ${hex.slice(0, 6) || "anon"}`;
+}
+
+let heroPromise: Promise<HeroIdentity> | null = null;
+
+export async function getHeroIdentity(): Promise<HeroIdentity> {
+  if (!heroPromise) {
+    heroPromise = (async () => {
+      if (DEV_MOCK_BACKEND) {
+        return { ...MOCK_HERO, chainId: null };
+      }
+
+      const session = await getSessionInfo();
+      return {
+        owner: session.owner,
+        chainId: session.chainId,
+        playerId: derivePlayerId(session.owner),
+        displayName: defaultDisplayName(session.owner),
+      };
+    })();
+
+    heroPromise.catch(() => {
+      heroPromise = null;
+    });
+  }
+  return heroPromise;
+}
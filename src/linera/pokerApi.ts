@@ -1,35 +1,83 @@
 // src/linera/pokerApi.ts
 import { gql } from "./lineraClient";
+import {
+  adaptDocument,
+  getSchemaProbe,
+  resolveOperation,
+  snakeToCamel,
+  type OperationKind,
+} from "./graphqlSchema";
+import {
+  GraphQLRequestError,
+  MutationRejectedError,
+  SchemaMismatchError,
+} from "./errors";
 
 /**
- * У тебя GraphQL построен на async-graphql. В зависимости от настроек,
- * имена полей/аргументов могут быть либо snake_case (как в Rust),
- * либо camelCase. Поэтому для надёжности делаем fallback.
+ * GraphQL построен на async-graphql. В зависимости от настроек имена
+ * полей/аргументов либо snake_case (как в Rust), либо camelCase.
+ * Нотация определяется один раз по introspection (graphqlSchema.ts),
+ * документы ниже написаны в snake_case и переводятся при необходимости.
  */
 
-function shouldRetryWithFallback(message: string): boolean {
-  return (
-    message.includes("Cannot query field") ||
-    message.includes("Unknown argument") ||
-    message.includes("Unknown type") ||
-    message.includes("Unknown field") ||
-    message.includes("Did you mean")
-  );
-}
+async function runOperation<TField>(
+  kind: OperationKind,
+  field: string,
+  document: string,
+  variables?: Record<string, unknown>
+): Promise<TField | undefined> {
+  const probe = await getSchemaProbe();
+  const name = resolveOperation(probe, kind, field);
 
-async function gqlWithFallback<TData>(
-  primary: string,
-  fallback: string,
-  variables?: Record<string, unknown>,
-  operationName?: string
-): Promise<TData> {
+  let data: Record<string, unknown>;
   try {
-    return await gql<TData>(primary, variables, operationName);
+    data = await gql<Record<string, unknown>>(
+      adaptDocument(document, probe.convention),
+      variables
+    );
   } catch (e) {
-    const msg = e instanceof Error ? e.message : String(e);
-    if (!fallback || !shouldRetryWithFallback(msg)) throw e;
-    return await gql<TData>(fallback, variables, operationName);
+    // Документы анонимные, поэтому имя операции добавляем к ошибке здесь.
+    if (e instanceof GraphQLRequestError && !e.operationName) {
+      throw new GraphQLRequestError(e.errors, name);
+    }
+    throw e;
+  }
+  return data[name] as TField | undefined;
+}
+
+async function query<TField>(
+  field: string,
+  document: string,
+  variables?: Record<string, unknown>
+): Promise<TField | undefined> {
+  return runOperation<TField>("query", field, document, variables);
+}
+
+/**
+ * По умолчанию мутация возвращает ack как есть (ok: false — не исключение).
+ * С throwOnReject: true отказ контракта превращается в MutationRejectedError
+ * с именем операции и причиной — так делают страницы.
+ */
+export type MutationOptions = {
+  throwOnReject?: boolean;
+};
+
+async function mutate(
+  field: string,
+  document: string,
+  variables?: Record<string, unknown>,
+  options?: MutationOptions
+): Promise<MutationAck> {
+  const raw = await runOperation<unknown>("mutation", field, document, variables);
+  const ack =
+    raw === undefined || raw === null
+      ? { ok: false, message: "Unknown mutation result" }
+      : normalizeAck(raw, field);
+
+  if (!ack.ok && options?.throwOnReject) {
+    throw new MutationRejectedError(field, ack.message);
   }
+  return ack;
 }
 
 // -----------------------------------------------------------------------------
@@ -107,204 +155,230 @@ export enum PlayerActionKind {
 }
 
 // -----------------------------------------------------------------------------
-// Queries
+// Response normalization
 // -----------------------------------------------------------------------------
+//
+// В camelCase-схеме ответ приходит как { tableId, maxSeats, holeCards, ... }.
+// Здесь любой из двух вариантов приводится к каноническим snake_case Gql*
+// типам. Обязательные поля проверяются в рантайме: лучше упасть с понятной
+// ошибкой, чем тихо отрисовать стол из undefined.
 
-export async function fetchSummary(): Promise<SummaryGql> {
-  const q = `query { summary { total_hands_played tables_count tournaments_count } }`;
-  // summary likely одинаково в обеих схемах, но держим единообразно
-  return await gqlWithFallback<{ summary: SummaryGql }>(q, q).then((d) => d.summary);
+type RawObject = Record<string, unknown>;
+
+function malformed(path: string, problem: string): SchemaMismatchError {
+  return new SchemaMismatchError(`Malformed GraphQL response: ${path} ${problem}`);
 }
 
-export async function fetchTables(): Promise<GqlTableView[]> {
-  const qSnake = `query { tables {
-    table_id name max_seats small_blind big_blind ante street dealer_button total_pot
-    board { rank suit }
-    players { player_id display_name seat_index stack current_bet status hole_cards { rank suit } }
-    hand_in_progress current_actor_seat
-  } }`;
-
-  const qCamel = `query { tables {
-    tableId: table_id
-    name
-    maxSeats: max_seats
-    smallBlind: small_blind
-    bigBlind: big_blind
-    ante
-    street
-    dealerButton: dealer_button
-    totalPot: total_pot
-    board { rank suit }
-    players {
-      playerId: player_id
-      displayName: display_name
-      seatIndex: seat_index
-      stack
-      currentBet: current_bet
-      status
-      holeCards: hole_cards { rank suit }
-    }
-    handInProgress: hand_in_progress
-    currentActorSeat: current_actor_seat
-  } }`;
-
-  // Вариант camel использует алиасы, чтобы привести к твоей snake-структуре нельзя.
-  // Поэтому делаем так: если сработал camel запрос — мы должны маппить вручную.
-  // Но проще: используем fallback не на алиасы, а на реальные camel имена полей.
-  // (Ниже второй запрос именно с camelCase полями без алиасов.)
-
-  const qCamelReal = `query { tables {
-    tableId
-    name
-    maxSeats
-    smallBlind
-    bigBlind
-    ante
-    street
-    dealerButton
-    totalPot
-    board { rank suit }
-    players {
-      playerId
-      displayName
-      seatIndex
-      stack
-      currentBet
-      status
-      holeCards { rank suit }
-    }
-    handInProgress
-    currentActorSeat
-  } }`;
+function asObject(v: unknown, path: string): RawObject {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) {
+    throw malformed(path, "is not an object");
+  }
+  return v as RawObject;
+}
 
-  // Пытаемся snake first, потом camel-real
-  const data = await gqlWithFallback<{ tables: GqlTableView[] }>(qSnake, qCamelReal);
-  return data.tables;
+function asArray(v: unknown, path: string): unknown[] {
+  if (!Array.isArray(v)) throw malformed(path, "is not a list");
+  return v;
 }
 
-export async function fetchTable(tableId: TableId): Promise<GqlTableView | null> {
-  const qSnake = `query($tableId: String!) {
-    table(table_id: $tableId) {
-      table_id name max_seats small_blind big_blind ante street dealer_button total_pot
-      board { rank suit }
-      players { player_id display_name seat_index stack current_bet status hole_cards { rank suit } }
-      hand_in_progress current_actor_seat
-    }
-  }`;
+/** Значение поля по snake_case имени или его camelCase варианту. */
+function field(obj: RawObject, snake: string, path: string): unknown {
+  if (snake in obj) return obj[snake];
+  const camel = snakeToCamel(snake);
+  if (camel in obj) return obj[camel];
+  throw malformed(`${path}.${snake}`, "is missing");
+}
 
-  const qCamel = `query($tableId: String!) {
-    table(tableId: $tableId) {
-      tableId
-      name
-      maxSeats
-      smallBlind
-      bigBlind
-      ante
-      street
-      dealerButton
-      totalPot
-      board { rank suit }
-      players { playerId displayName seatIndex stack currentBet status holeCards { rank suit } }
-      handInProgress
-      currentActorSeat
-    }
-  }`;
+function str(obj: RawObject, snake: string, path: string): string {
+  const v = field(obj, snake, path);
+  if (typeof v !== "string") throw malformed(`${path}.${snake}`, `is not a string (got ${typeof v})`);
+  return v;
+}
 
-  const data = await gqlWithFallback<{ table: GqlTableView | null }>(
-    qSnake,
-    qCamel,
-    { tableId }
-  );
-  return data.table;
+function num(obj: RawObject, snake: string, path: string): number {
+  const v = field(obj, snake, path);
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw malformed(`${path}.${snake}`, `is not a number (got ${typeof v})`);
+  }
+  return v;
 }
 
-export async function fetchTournaments(): Promise<GqlTournamentView[]> {
-  const qSnake = `query { tournaments {
-    tournament_id name status current_level players_registered tables_running
-  } }`;
+function numOrNull(obj: RawObject, snake: string, path: string): number | null {
+  const v = field(obj, snake, path);
+  if (v === null) return null;
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw malformed(`${path}.${snake}`, `is not a number or null (got ${typeof v})`);
+  }
+  return v;
+}
 
-  const qCamel = `query { tournaments {
-    tournamentId
-    name
-    status
-    currentLevel
-    playersRegistered
-    tablesRunning
-  } }`;
+function bool(obj: RawObject, snake: string, path: string): boolean {
+  const v = field(obj, snake, path);
+  if (typeof v !== "boolean") throw malformed(`${path}.${snake}`, `is not a boolean (got ${typeof v})`);
+  return v;
+}
 
-  const data = await gqlWithFallback<{ tournaments: GqlTournamentView[] }>(qSnake, qCamel);
-  return data.tournaments;
+/** u64 id: сервис может отдать его строкой или числом — храним строкой. */
+function idString(obj: RawObject, snake: string, path: string): string {
+  const v = field(obj, snake, path);
+  if (typeof v === "string") return v;
+  if (typeof v === "number" && Number.isInteger(v)) return String(v);
+  throw malformed(`${path}.${snake}`, `is not an id (got ${typeof v})`);
 }
 
-export async function fetchTournament(tournamentId: TournamentId): Promise<GqlTournamentView | null> {
-  const qSnake = `query($id: Int!) {
-    tournament_by_id(tournament_id: $id) {
-      tournament_id name status current_level players_registered tables_running
-    }
-  }`;
+export function normalizeCard(raw: unknown, path = "card"): GqlCard {
+  const o = asObject(raw, path);
+  return { rank: str(o, "rank", path), suit: str(o, "suit", path) };
+}
 
-  const qCamel = `query($id: Int!) {
-    tournamentById(tournamentId: $id) {
-      tournamentId
-      name
-      status
-      currentLevel
-      playersRegistered
-      tablesRunning
-    }
-  }`;
+function normalizeCards(raw: unknown, path: string): GqlCard[] {
+  return asArray(raw, path).map((c, i) => normalizeCard(c, `${path}[${i}]`));
+}
 
-  const data = await gqlWithFallback<{ tournament_by_id: GqlTournamentView | null; tournamentById?: GqlTournamentView | null }>(
-    qSnake,
-    qCamel,
-    { id: tournamentId }
-  );
+export function normalizePlayerAtTable(raw: unknown, path = "player"): GqlPlayerAtTable {
+  const o = asObject(raw, path);
+  const holeCards = field(o, "hole_cards", path);
+  return {
+    player_id: num(o, "player_id", path),
+    display_name: str(o, "display_name", path),
+    seat_index: num(o, "seat_index", path),
+    stack: num(o, "stack", path),
+    current_bet: num(o, "current_bet", path),
+    status: str(o, "status", path),
+    hole_cards: holeCards === null ? null : normalizeCards(holeCards, `${path}.hole_cards`),
+  };
+}
 
-  // В зависимости от того, какой запрос отработал, поле будет разное
-  return (data as { tournament_by_id?: GqlTournamentView | null; tournamentById?: GqlTournamentView | null }).tournament_by_id
-    ?? (data as { tournamentById?: GqlTournamentView | null }).tournamentById
-    ?? null;
+export function normalizeTableView(raw: unknown, path = "table"): GqlTableView {
+  const o = asObject(raw, path);
+  return {
+    table_id: idString(o, "table_id", path),
+    name: str(o, "name", path),
+    max_seats: num(o, "max_seats", path),
+    small_blind: num(o, "small_blind", path),
+    big_blind: num(o, "big_blind", path),
+    ante: num(o, "ante", path),
+    street: str(o, "street", path),
+    dealer_button: numOrNull(o, "dealer_button", path),
+    total_pot: num(o, "total_pot", path),
+    board: normalizeCards(field(o, "board", path), `${path}.board`),
+    players: asArray(field(o, "players", path), `${path}.players`).map((p, i) =>
+      normalizePlayerAtTable(p, `${path}.players[${i}]`)
+    ),
+    hand_in_progress: bool(o, "hand_in_progress", path),
+    current_actor_seat: numOrNull(o, "current_actor_seat", path),
+  };
 }
 
-export async function fetchTournamentTables(tournamentId: TournamentId): Promise<GqlTableView[]> {
-  const qSnake = `query($id: Int!) {
-    tournament_tables(tournament_id: $id) {
-      table_id name max_seats small_blind big_blind ante street dealer_button total_pot
-      board { rank suit }
-      players { player_id display_name seat_index stack current_bet status hole_cards { rank suit } }
-      hand_in_progress current_actor_seat
-    }
-  }`;
+export function normalizeTournamentView(raw: unknown, path = "tournament"): GqlTournamentView {
+  const o = asObject(raw, path);
+  return {
+    tournament_id: num(o, "tournament_id", path),
+    name: str(o, "name", path),
+    status: str(o, "status", path),
+    current_level: num(o, "current_level", path),
+    players_registered: num(o, "players_registered", path),
+    tables_running: num(o, "tables_running", path),
+  };
+}
 
-  const qCamel = `query($id: Int!) {
-    tournamentTables(tournamentId: $id) {
-      tableId
-      name
-      maxSeats
-      smallBlind
-      bigBlind
-      ante
-      street
-      dealerButton
-      totalPot
-      board { rank suit }
-      players { playerId displayName seatIndex stack currentBet status holeCards { rank suit } }
-      handInProgress
-      currentActorSeat
-    }
+function normalizeSummary(raw: unknown, path = "summary"): SummaryGql {
+  const o = asObject(raw, path);
+  return {
+    total_hands_played: num(o, "total_hands_played", path),
+    tables_count: num(o, "tables_count", path),
+    tournaments_count: num(o, "tournaments_count", path),
+  };
+}
+
+function normalizeAck(raw: unknown, path: string): MutationAck {
+  const o = asObject(raw, path);
+  return { ok: bool(o, "ok", path), message: str(o, "message", path) };
+}
+
+function normalizeTableList(raw: unknown, path: string): GqlTableView[] {
+  if (raw === undefined || raw === null) return [];
+  return asArray(raw, path).map((t, i) => normalizeTableView(t, `${path}[${i}]`));
+}
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+const TABLE_VIEW_FIELDS = `
+  table_id name max_seats small_blind big_blind ante street dealer_button total_pot
+  board { rank suit }
+  players { player_id display_name seat_index stack current_bet status hole_cards { rank suit } }
+  hand_in_progress current_actor_seat
+`;
+
+const TOURNAMENT_VIEW_FIELDS = `
+  tournament_id name status current_level players_registered tables_running
+`;
+
+export async function fetchSummary(): Promise<SummaryGql> {
+  const q = `query { summary { total_hands_played tables_count tournaments_count } }`;
+  const summary = await query<unknown>("summary", q);
+  if (summary === undefined || summary === null) throw malformed("summary", "is missing");
+  return normalizeSummary(summary);
+}
+
+export async function fetchTables(): Promise<GqlTableView[]> {
+  const q = `query { tables { ${TABLE_VIEW_FIELDS} } }`;
+  return normalizeTableList(await query<unknown>("tables", q), "tables");
+}
+
+export async function fetchTable(tableId: TableId): Promise<GqlTableView | null> {
+  const q = `query($tableId: String!) {
+    table(table_id: $tableId) { ${TABLE_VIEW_FIELDS} }
   }`;
+  const raw = await query<unknown>("table", q, { tableId });
+  return raw === undefined || raw === null ? null : normalizeTableView(raw);
+}
+
+export async function fetchTournaments(): Promise<GqlTournamentView[]> {
+  const q = `query { tournaments { ${TOURNAMENT_VIEW_FIELDS} } }`;
+  const raw = await query<unknown>("tournaments", q);
+  if (raw === undefined || raw === null) return [];
+  return asArray(raw, "tournaments").map((t, i) =>
+    normalizeTournamentView(t, `tournaments[${i}]`)
+  );
+}
 
-  const data = await gqlWithFallback<
-    { tournament_tables: GqlTableView[]; tournamentTables?: GqlTableView[] }
-  >(qSnake, qCamel, { id: tournamentId });
+export async function fetchTournament(tournamentId: TournamentId): Promise<GqlTournamentView | null> {
+  const q = `query($id: Int!) {
+    tournament_by_id(tournament_id: $id) { ${TOURNAMENT_VIEW_FIELDS} }
+  }`;
+  const raw = await query<unknown>("tournament_by_id", q, { id: tournamentId });
+  return raw === undefined || raw === null
+    ? null
+    : normalizeTournamentView(raw, "tournament_by_id");
+}
 
-  return (
-    (data as { tournament_tables?: GqlTableView[] }).tournament_tables ??
-    (data as { tournamentTables?: GqlTableView[] }).tournamentTables ??
-    []
+export async function fetchTournamentTables(tournamentId: TournamentId): Promise<GqlTableView[]> {
+  const q = `query($id: Int!) {
+    tournament_tables(tournament_id: $id) { ${TABLE_VIEW_FIELDS} }
+  }`;
+  return normalizeTableList(
+    await query<unknown>("tournament_tables", q, { id: tournamentId }),
+    "tournament_tables"
   );
 }
 
+/**
+ * Турнир, которому принадлежит стол. TableViewDto не содержит tournament_id,
+ * поэтому перебираем идущие турниры и их столы; null — кэш-стол.
+ */
+export async function findTournamentForTable(tableId: TableId): Promise<TournamentId | null> {
+  const tournaments = await fetchTournaments();
+  for (const t of tournaments) {
+    if (t.status === "Registering" || t.status === "Finished") continue;
+    const tables = await fetchTournamentTables(t.tournament_id);
+    if (tables.some((table) => table.table_id === tableId)) return t.tournament_id;
+  }
+  return null;
+}
+
 // -----------------------------------------------------------------------------
 // Mutations
 // -----------------------------------------------------------------------------
@@ -317,8 +391,8 @@ export async function createTable(input: {
   bigBlind: number;
   ante: number;
   anteType: AnteType;
-}): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $name: String!, $maxSeats: Int!, $sb: Int!, $bb: Int!, $ante: Int!, $anteType: GqlAnteType!) {
+}, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $name: String!, $maxSeats: Int!, $sb: Int!, $bb: Int!, $ante: Int!, $anteType: GqlAnteType!) {
     create_table(
       table_id: $tableId,
       name: $name,
@@ -330,19 +404,7 @@ export async function createTable(input: {
     ) { ok message }
   }`;
 
-  const mCamel = `mutation($tableId: String!, $name: String!, $maxSeats: Int!, $sb: Int!, $bb: Int!, $ante: Int!, $anteType: GqlAnteType!) {
-    createTable(
-      tableId: $tableId,
-      name: $name,
-      maxSeats: $maxSeats,
-      smallBlind: $sb,
-      bigBlind: $bb,
-      ante: $ante,
-      anteType: $anteType
-    ) { ok message }
-  }`;
-
-  const vars = {
+  return mutate("create_table", m, {
     tableId: input.tableId,
     name: input.name,
     maxSeats: input.maxSeats,
@@ -350,19 +412,7 @@ export async function createTable(input: {
     bb: input.bigBlind,
     ante: input.ante,
     anteType: input.anteType,
-  };
-
-  const data = await gqlWithFallback<{ create_table: MutationAck; createTable?: MutationAck }>(
-    mSnake,
-    mCamel,
-    vars
-  );
-
-  return (
-    (data as { create_table?: MutationAck }).create_table ??
-    (data as { createTable?: MutationAck }).createTable ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  }, options);
 }
 
 export async function seatPlayer(input: {
@@ -371,8 +421,8 @@ export async function seatPlayer(input: {
   seatIndex: number;
   displayName: string;
   initialStack: number;
-}): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $playerId: Int!, $seatIndex: Int!, $displayName: String!, $initialStack: Int!) {
+}, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $playerId: Int!, $seatIndex: Int!, $displayName: String!, $initialStack: Int!) {
     seat_player(
       table_id: $tableId,
       player_id: $playerId,
@@ -382,284 +432,138 @@ export async function seatPlayer(input: {
     ) { ok message }
   }`;
 
-  const mCamel = `mutation($tableId: String!, $playerId: Int!, $seatIndex: Int!, $displayName: String!, $initialStack: Int!) {
-    seatPlayer(
-      tableId: $tableId,
-      playerId: $playerId,
-      seatIndex: $seatIndex,
-      displayName: $displayName,
-      initialStack: $initialStack
-    ) { ok message }
-  }`;
-
-  const vars = {
+  return mutate("seat_player", m, {
     tableId: input.tableId,
     playerId: input.playerId,
     seatIndex: input.seatIndex,
     displayName: input.displayName,
     initialStack: input.initialStack,
-  };
-
-  const data = await gqlWithFallback<{ seat_player: MutationAck; seatPlayer?: MutationAck }>(
-    mSnake,
-    mCamel,
-    vars
-  );
-
-  return (
-    (data as { seat_player?: MutationAck }).seat_player ??
-    (data as { seatPlayer?: MutationAck }).seatPlayer ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  }, options);
 }
 
-export async function unseatPlayer(tableId: TableId, seatIndex: number): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $seatIndex: Int!) {
+export async function unseatPlayer(tableId: TableId, seatIndex: number, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $seatIndex: Int!) {
     unseat_player(table_id: $tableId, seat_index: $seatIndex) { ok message }
   }`;
-
-  const mCamel = `mutation($tableId: String!, $seatIndex: Int!) {
-    unseatPlayer(tableId: $tableId, seatIndex: $seatIndex) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<{ unseat_player: MutationAck; unseatPlayer?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { tableId, seatIndex }
-  );
-
-  return (
-    (data as { unseat_player?: MutationAck }).unseat_player ??
-    (data as { unseatPlayer?: MutationAck }).unseatPlayer ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("unseat_player", m, { tableId, seatIndex }, options);
 }
 
-export async function adjustStack(tableId: TableId, seatIndex: number, delta: number): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $seatIndex: Int!, $delta: Int!) {
+export async function adjustStack(tableId: TableId, seatIndex: number, delta: number, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $seatIndex: Int!, $delta: Int!) {
     adjust_stack(table_id: $tableId, seat_index: $seatIndex, delta: $delta) { ok message }
   }`;
-
-  const mCamel = `mutation($tableId: String!, $seatIndex: Int!, $delta: Int!) {
-    adjustStack(tableId: $tableId, seatIndex: $seatIndex, delta: $delta) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<{ adjust_stack: MutationAck; adjustStack?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { tableId, seatIndex, delta }
-  );
-
-  return (
-    (data as { adjust_stack?: MutationAck }).adjust_stack ??
-    (data as { adjustStack?: MutationAck }).adjustStack ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("adjust_stack", m, { tableId, seatIndex, delta }, options);
 }
 
-export async function startHand(tableId: TableId, handId: number): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $handId: Int!) {
+export async function startHand(tableId: TableId, handId: number, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $handId: Int!) {
     start_hand(table_id: $tableId, hand_id: $handId) { ok message }
   }`;
-
-  const mCamel = `mutation($tableId: String!, $handId: Int!) {
-    startHand(tableId: $tableId, handId: $handId) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<{ start_hand: MutationAck; startHand?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { tableId, handId }
-  );
-
-  return (
-    (data as { start_hand?: MutationAck }).start_hand ??
-    (data as { startHand?: MutationAck }).startHand ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("start_hand", m, { tableId, handId }, options);
 }
 
-export async function playerAction(tableId: TableId, action: PlayerActionKind, amount?: number): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $action: GqlPlayerActionKind!, $amount: Int) {
+export async function playerAction(tableId: TableId, action: PlayerActionKind, amount?: number, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $action: GqlPlayerActionKind!, $amount: Int) {
     player_action(table_id: $tableId, action: $action, amount: $amount) { ok message }
   }`;
-
-  const mCamel = `mutation($tableId: String!, $action: GqlPlayerActionKind!, $amount: Int) {
-    playerAction(tableId: $tableId, action: $action, amount: $amount) { ok message }
-  }`;
-
-  const vars: Record<string, unknown> = { tableId, action, amount: amount ?? null };
-
-  const data = await gqlWithFallback<{ player_action: MutationAck; playerAction?: MutationAck }>(
-    mSnake,
-    mCamel,
-    vars
-  );
-
-  return (
-    (data as { player_action?: MutationAck }).player_action ??
-    (data as { playerAction?: MutationAck }).playerAction ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("player_action", m, { tableId, action, amount: amount ?? null }, options);
 }
 
-export async function tickTable(tableId: TableId, deltaSecs: number): Promise<MutationAck> {
-  const mSnake = `mutation($tableId: String!, $delta: Int!) {
+export async function tickTable(tableId: TableId, deltaSecs: number, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tableId: String!, $delta: Int!) {
     tick_table(table_id: $tableId, delta_secs: $delta) { ok message }
   }`;
-
-  const mCamel = `mutation($tableId: String!, $delta: Int!) {
-    tickTable(tableId: $tableId, deltaSecs: $delta) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<{ tick_table: MutationAck; tickTable?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { tableId, delta: deltaSecs }
-  );
-
-  return (
-    (data as { tick_table?: MutationAck }).tick_table ??
-    (data as { tickTable?: MutationAck }).tickTable ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("tick_table", m, { tableId, delta: deltaSecs }, options);
 }
 
 // JSON scalar in async-graphql обычно называется JSON.
 // config в service.rs: Json<TournamentConfig>
 export type TournamentConfigJson = Record<string, unknown>;
 
-export async function createTournament(tournamentId: TournamentId, config: TournamentConfigJson): Promise<MutationAck> {
-  const mSnake = `mutation($id: Int!, $cfg: JSON!) {
+export async function createTournament(tournamentId: TournamentId, config: TournamentConfigJson, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($id: Int!, $cfg: JSON!) {
     create_tournament(tournament_id: $id, config: $cfg) { ok message }
   }`;
+  return mutate("create_tournament", m, { id: tournamentId, cfg: config }, options);
+}
 
-  const mCamel = `mutation($id: Int!, $cfg: JSON!) {
-    createTournament(tournamentId: $id, config: $cfg) { ok message }
-  }`;
+const MAX_TOURNAMENT_ID_ATTEMPTS = 5;
 
-  const data = await gqlWithFallback<{ create_tournament: MutationAck; createTournament?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { id: tournamentId, cfg: config }
-  );
+/** Следующий свободный tournament_id: max(существующих) + 1. */
+export async function allocateTournamentId(): Promise<TournamentId> {
+  const existing = await fetchTournaments();
+  return existing.reduce((max, t) => Math.max(max, t.tournament_id), 0) + 1;
+}
 
-  return (
-    (data as { create_tournament?: MutationAck }).create_tournament ??
-    (data as { createTournament?: MutationAck }).createTournament ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+/**
+ * create_tournament с автоматически выделенным id.
+ * Между allocate и create id может занять другой клиент: если мутация
+ * отклонена и турнир с этим id уже существует — берём следующий.
+ * Любой другой отказ — MutationRejectedError с причиной от контракта.
+ */
+export async function createTournamentWithNewId(
+  config: TournamentConfigJson
+): Promise<TournamentId> {
+  let candidate = await allocateTournamentId();
+
+  for (let attempt = 1; ; attempt += 1) {
+    const ack = await createTournament(candidate, config);
+    if (ack.ok) return candidate;
+
+    const taken = await fetchTournament(candidate);
+    if (!taken || attempt >= MAX_TOURNAMENT_ID_ATTEMPTS) {
+      throw new MutationRejectedError("create_tournament", ack.message);
+    }
+    candidate = Math.max(candidate + 1, await allocateTournamentId());
+  }
 }
 
 export async function registerPlayerToTournament(
   tournamentId: TournamentId,
   playerId: number,
-  displayName: string
+  displayName: string,
+  options?: MutationOptions
 ): Promise<MutationAck> {
-  const mSnake = `mutation($tid: Int!, $pid: Int!, $name: String!) {
+  const m = `mutation($tid: Int!, $pid: Int!, $name: String!) {
     register_player_to_tournament(tournament_id: $tid, player_id: $pid, display_name: $name) { ok message }
   }`;
-
-  const mCamel = `mutation($tid: Int!, $pid: Int!, $name: String!) {
-    registerPlayerToTournament(tournamentId: $tid, playerId: $pid, displayName: $name) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<
-    { register_player_to_tournament: MutationAck; registerPlayerToTournament?: MutationAck }
-  >(mSnake, mCamel, { tid: tournamentId, pid: playerId, name: displayName });
-
-  return (
-    (data as { register_player_to_tournament?: MutationAck }).register_player_to_tournament ??
-    (data as { registerPlayerToTournament?: MutationAck }).registerPlayerToTournament ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("register_player_to_tournament", m, {
+    tid: tournamentId,
+    pid: playerId,
+    name: displayName,
+  }, options);
 }
 
 export async function unregisterPlayerFromTournament(
   tournamentId: TournamentId,
-  playerId: number
+  playerId: number,
+  options?: MutationOptions
 ): Promise<MutationAck> {
-  const mSnake = `mutation($tid: Int!, $pid: Int!) {
+  const m = `mutation($tid: Int!, $pid: Int!) {
     unregister_player_from_tournament(tournament_id: $tid, player_id: $pid) { ok message }
   }`;
-
-  const mCamel = `mutation($tid: Int!, $pid: Int!) {
-    unregisterPlayerFromTournament(tournamentId: $tid, playerId: $pid) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<
-    { unregister_player_from_tournament: MutationAck; unregisterPlayerFromTournament?: MutationAck }
-  >(mSnake, mCamel, { tid: tournamentId, pid: playerId });
-
-  return (
-    (data as { unregister_player_from_tournament?: MutationAck }).unregister_player_from_tournament ??
-    (data as { unregisterPlayerFromTournament?: MutationAck }).unregisterPlayerFromTournament ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("unregister_player_from_tournament", m, { tid: tournamentId, pid: playerId }, options);
 }
 
-export async function startTournament(tournamentId: TournamentId): Promise<MutationAck> {
-  const mSnake = `mutation($tid: Int!) {
+export async function startTournament(tournamentId: TournamentId, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tid: Int!) {
     start_tournament(tournament_id: $tid) { ok message }
   }`;
-
-  const mCamel = `mutation($tid: Int!) {
-    startTournament(tournamentId: $tid) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<{ start_tournament: MutationAck; startTournament?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { tid: tournamentId }
-  );
-
-  return (
-    (data as { start_tournament?: MutationAck }).start_tournament ??
-    (data as { startTournament?: MutationAck }).startTournament ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("start_tournament", m, { tid: tournamentId }, options);
 }
 
-export async function advanceTournamentLevel(tournamentId: TournamentId): Promise<MutationAck> {
-  const mSnake = `mutation($tid: Int!) {
+export async function advanceTournamentLevel(tournamentId: TournamentId, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tid: Int!) {
     advance_tournament_level(tournament_id: $tid) { ok message }
   }`;
-
-  const mCamel = `mutation($tid: Int!) {
-    advanceTournamentLevel(tournamentId: $tid) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<
-    { advance_tournament_level: MutationAck; advanceTournamentLevel?: MutationAck }
-  >(mSnake, mCamel, { tid: tournamentId });
-
-  return (
-    (data as { advance_tournament_level?: MutationAck }).advance_tournament_level ??
-    (data as { advanceTournamentLevel?: MutationAck }).advanceTournamentLevel ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("advance_tournament_level", m, { tid: tournamentId }, options);
 }
 
-export async function closeTournament(tournamentId: TournamentId): Promise<MutationAck> {
-  const mSnake = `mutation($tid: Int!) {
+export async function closeTournament(tournamentId: TournamentId, options?: MutationOptions): Promise<MutationAck> {
+  const m = `mutation($tid: Int!) {
     close_tournament(tournament_id: $tid) { ok message }
   }`;
-
-  const mCamel = `mutation($tid: Int!) {
-    closeTournament(tournamentId: $tid) { ok message }
-  }`;
-
-  const data = await gqlWithFallback<{ close_tournament: MutationAck; closeTournament?: MutationAck }>(
-    mSnake,
-    mCamel,
-    { tid: tournamentId }
-  );
-
-  return (
-    (data as { close_tournament?: MutationAck }).close_tournament ??
-    (data as { closeTournament?: MutationAck }).closeTournament ??
-    { ok: false, message: "Unknown mutation result" }
-  );
+  return mutate("close_tournament", m, { tid: tournamentId }, options);
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,79 @@
+// src/linera/preActionStore.ts
+//
+// Пре-экшены героя (check/fold, call, call any, fold to any bet), по
+// одному на стол. Лежат в localStorage, чтобы пережить перезагрузку
+// вкладки посреди раздачи.
+//
+// Формат версионирован так же, как sessionStore.
+
+import type { TableId } from "./pokerApi";
+
+export type PreActionKind = "check_fold" | "call" | "call_any" | "fold_any";
+
+export type PreAction = {
+  kind: PreActionKind;
+  /**
+   * Раздача, в которой поставили галочку. Id раздачи TableView не отдаёт,
+   * поэтому это dealer_button + карманные карты героя: без неё "call any"
+   * из прошлой раздачи сработал бы в новой на той же улице.
+   */
+  hand: string;
+  /** Улица, на которой поставили галочку: на следующей пре-экшен сбрасывается */
+  street: string;
+  /** Ставка на улице в момент выбора; для "call" её смена = сброс */
+  againstBet: number;
+};
+
+const STORAGE_KEY = "linera-poker.pre-actions";
+
+// v2: добавлен hand; старые записи без него отбрасываются
+export const PRE_ACTIONS_FORMAT_VERSION = 2;
+
+type StoredPreActions = {
+  version: typeof PRE_ACTIONS_FORMAT_VERSION;
+  tables: Record<string, PreAction>;
+};
+
+function readAll(): StoredPreActions {
+  const empty: StoredPreActions = { version: PRE_ACTIONS_FORMAT_VERSION, tables: {} };
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return empty;
+  }
+  if (raw === null) return empty;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredPreActions>;
+    if (
+      parsed.version !== PRE_ACTIONS_FORMAT_VERSION ||
+      typeof parsed.tables !== "object" ||
+      parsed.tables === null
+    ) {
+      return empty;
+    }
+    return parsed as StoredPreActions;
+  } catch {
+    return empty;
+  }
+}
+
+export function loadPreAction(tableId: TableId): PreAction | null {
+  return readAll().tables[tableId] ?? null;
+}
+
+/** null — снять пре-экшен со стола. */
+export function savePreAction(tableId: TableId, preAction: PreAction | null): void {
+  const all = readAll();
+  if (preAction) {
+    all.tables[tableId] = preAction;
+  } else {
+    delete all.tables[tableId];
+  }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("[Linera] failed to persist pre-action:", e);
+  }
+}
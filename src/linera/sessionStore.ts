@@ -0,0 +1,111 @@
+// src/linera/sessionStore.ts
+//
+// Хранение Linera-идентичности между перезагрузками страницы:
+// - приватный ключ signer'а;
+// - owner (адрес, выведенный из ключа);
+// - chainId, полученный от faucet через claimChain.
+//
+// Формат версионирован: при смене структуры поднимаем SESSION_FORMAT_VERSION,
+// а старые/битые записи считаются отсутствующими.
+
+const STORAGE_KEY = "linera-poker.session";
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export type StoredSession = {
+  version: typeof SESSION_FORMAT_VERSION;
+  faucetUrl: string;
+  privateKey: string; // 0x-hex, 32 байта
+  owner: string;
+  chainId: string;
+  createdAt: string; // ISO datetime
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.length > 0;
+}
+
+function isStoredSession(v: unknown): v is StoredSession {
+  return (
+    isRecord(v) &&
+    v.version === SESSION_FORMAT_VERSION &&
+    isNonEmptyString(v.faucetUrl) &&
+    isNonEmptyString(v.privateKey) &&
+    /^0x[0-9a-fA-F]{64}$/.test(v.privateKey) &&
+    isNonEmptyString(v.owner) &&
+    isNonEmptyString(v.chainId) &&
+    isNonEmptyString(v.createdAt)
+  );
+}
+
+/**
+ * Читает сохранённую сессию.
+ * Возвращает null, если записи нет, она битая, другой версии
+ * или принадлежит другому faucet (другой сети).
+ */
+export function loadStoredSession(faucetUrl: string): StoredSession | null {
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // localStorage может быть недоступен (private mode, политики браузера)
+    return null;
+  }
+  if (raw === null) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    console.warn("[Linera] stored session is not valid JSON, discarding");
+    clearStoredSession();
+    return null;
+  }
+
+  if (!isStoredSession(parsed)) {
+    console.warn("[Linera] stored session has unknown format, discarding");
+    clearStoredSession();
+    return null;
+  }
+
+  if (parsed.faucetUrl !== faucetUrl) {
+    console.warn(
+      "[Linera] stored session belongs to another faucet, discarding:",
+      parsed.faucetUrl
+    );
+    clearStoredSession();
+    return null;
+  }
+
+  return parsed;
+}
+
+export function saveStoredSession(session: StoredSession): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (e) {
+    // Не фейлим сессию: просто при следующей загрузке создадим новую.
+    console.warn("[Linera] failed to persist session:", e);
+  }
+}
+
+export function clearStoredSession(): void {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // nothing to clear
+  }
+}
+
+/** Новый случайный приватный ключ (0x + 64 hex). */
+export function generatePrivateKeyHex(): string {
+  const bytes = new Uint8Array(32);
+  window.crypto.getRandomValues(bytes);
+  return (
+    "0x" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+  );
+}
@@ -0,0 +1,82 @@
+// src/linera/tableEventStream.ts
+//
+// Поток событий стола поверх liveUpdates: каждый новый снимок
+// сравнивается с предыдущим (utils/tableEvents.ts), события рассылаются
+// подписчикам (лог раздачи, анимации).
+//
+// Один поток на стол, общий для всех подписчиков: id событий сквозные,
+// а недавняя история (TABLE_EVENT_HISTORY_LIMIT) достаётся и тем,
+// кто подписался позже.
+
+import { subscribeTable } from "./liveUpdates";
+import type { GqlTableView, TableId } from "./pokerApi";
+import { diffTableViews, type TableEvent } from "../utils/tableEvents";
+
+export const TABLE_EVENT_HISTORY_LIMIT = 300;
+
+export type TableEventEntry = {
+  /** Сквозной возрастающий номер */
+  id: number;
+  tableId: TableId;
+  /** Date.now() снимка, в котором событие замечено */
+  at: number;
+  event: TableEvent;
+};
+
+type Listener = (entries: TableEventEntry[]) => void;
+
+type Stream = {
+  listeners: Set<Listener>;
+  history: TableEventEntry[];
+  last: GqlTableView | null;
+  unsubscribe: () => void;
+};
+
+const streams = new Map<TableId, Stream>();
+// от текущего времени: id не пересекаются с сохранёнными до перезагрузки
+let nextId = Date.now();
+
+function onSnapshot(tableId: TableId, stream: Stream, view: GqlTableView): void {
+  const events = diffTableViews(stream.last, view);
+  stream.last = view;
+  if (events.length === 0) return;
+
+  const at = Date.now();
+  const entries = events.map((event) => ({ id: nextId++, tableId, at, event }));
+  stream.history = [...stream.history, ...entries].slice(-TABLE_EVENT_HISTORY_LIMIT);
+  for (const l of stream.listeners) l(entries);
+}
+
+/** Подписка на новые события стола. Возвращает отписку. */
+export function subscribeTableEvents(tableId: TableId, listener: Listener): () => void {
+  let stream = streams.get(tableId);
+  if (!stream) {
+    const created: Stream = {
+      listeners: new Set(),
+      history: [],
+      last: null,
+      unsubscribe: () => undefined,
+    };
+    created.unsubscribe = subscribeTable(tableId, (state) => {
+      if (state.data) onSnapshot(tableId, created, state.data);
+    });
+    streams.set(tableId, created);
+    stream = created;
+  }
+
+  stream.listeners.add(listener);
+
+  const owned = stream;
+  return () => {
+    owned.listeners.delete(listener);
+    if (owned.listeners.size === 0 && streams.get(tableId) === owned) {
+      owned.unsubscribe();
+      streams.delete(tableId);
+    }
+  };
+}
+
+/** Недавние события стола (пусто, если на стол никто не подписан). */
+export function getTableEventHistory(tableId: TableId): TableEventEntry[] {
+  return streams.get(tableId)?.history ?? [];
+}
@@ -0,0 +1,61 @@
+// src/linera/tournamentConfigStore.ts
+//
+// Локальная копия UI-конфига турниров, созданных из этого браузера.
+// TournamentViewDto не отдаёт структуру выплат / уровней, поэтому
+// TournamentPage берёт их отсюда (для чужих турниров записи нет).
+//
+// Формат версионирован так же, как sessionStore.
+
+import type { TournamentConfig } from "../types/poker";
+import type { TournamentId } from "./pokerApi";
+
+const STORAGE_KEY = "linera-poker.tournament-configs";
+
+export const TOURNAMENT_CONFIGS_FORMAT_VERSION = 1;
+
+type StoredConfigs = {
+  version: typeof TOURNAMENT_CONFIGS_FORMAT_VERSION;
+  configs: Record<string, TournamentConfig>;
+};
+
+function readAll(): StoredConfigs {
+  const empty: StoredConfigs = { version: TOURNAMENT_CONFIGS_FORMAT_VERSION, configs: {} };
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return empty;
+  }
+  if (raw === null) return empty;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredConfigs>;
+    if (
+      parsed.version !== TOURNAMENT_CONFIGS_FORMAT_VERSION ||
+      typeof parsed.configs !== "object" ||
+      parsed.configs === null
+    ) {
+      console.warn("[Linera] stored tournament configs have unknown format, discarding");
+      return empty;
+    }
+    return parsed as StoredConfigs;
+  } catch {
+    console.warn("[Linera] stored tournament configs are not valid JSON, discarding");
+    return empty;
+  }
+}
+
+export function saveTournamentConfig(id: TournamentId, config: TournamentConfig): void {
+  const all = readAll();
+  all.configs[String(id)] = config;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("[Linera] failed to persist tournament config:", e);
+  }
+}
+
+/** Конфиг турнира, созданного отсюда; null — турнир чужой или запись потеряна. */
+export function loadTournamentConfig(id: TournamentId): TournamentConfig | null {
+  return readAll().configs[String(id)] ?? null;
+}
@@ -138,6 +138,9 @@ export function mapPlayer(
   dealerSeat: number | null,
   smallBlindSeat: number | null,
   bigBlindSeat: number | null,
+  actorSeat: number | null,
+  /** Вскрытие: карты, которые вернул движок, открыты всем */
+  showdown: boolean,
   heroPlayerId?: string
 ): Player {
   const { isFolded, isAllIn } = deriveStatusFlags(p.status);
@@ -146,7 +149,7 @@ export function mapPlayer(
     heroPlayerId !== undefined && String(p.player_id) === heroPlayerId;
 
   const cards =
-    p.hole_cards?.map((c: OnChainCard) => mapCard(c, !isHero)) ??
+    p.hole_cards?.map((c: OnChainCard) => mapCard(c, !isHero && !showdown)) ??
     undefined;
 
   return {
@@ -157,6 +160,9 @@ export function mapPlayer(
 
     cards,
 
+    currentBet: p.current_bet,
+    isActing: actorSeat !== null && p.seat_index === actorSeat,
+
     isDealer: dealerSeat !== null && p.seat_index === dealerSeat,
     isSmallBlind:
       smallBlindSeat !== null && p.seat_index === smallBlindSeat,
@@ -238,6 +244,8 @@ export function mapTableToUi(
         dealerSeat,
         smallBlindSeat,
         bigBlindSeat,
+        table.current_actor_seat,
+        table.street === "Showdown",
         heroPlayerId
       )
   );
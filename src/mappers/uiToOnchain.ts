@@ -0,0 +1,125 @@
+// src/mappers/uiToOnchain.ts
+//
+// Обратное направление к onchainToUi.ts: UI-типы из src/types/poker.ts
+// -> JSON, который ждёт контракт (OnChain* из src/types/onchain.ts).
+//
+// UI мыслит минутами и "none/ante/bba", Rust — секундами и enum'ами.
+
+import type {
+  OnChainAnteType,
+  OnChainBlindLevel,
+  OnChainPayoutKind,
+  OnChainTournamentConfig,
+} from "../types/onchain";
+import type {
+  AnteType,
+  BlindLevel,
+  PayoutType,
+  TournamentConfig,
+} from "../types/poker";
+
+export function minutesToSeconds(minutes: number): number {
+  return Math.max(0, Math.round(minutes * 60));
+}
+
+/**
+ * Значение <input type="datetime-local"> (или ISO-строка) -> unix seconds.
+ * Пустая / нераспознанная строка -> null.
+ */
+export function isoToUnixSeconds(value: string): number | null {
+  if (!value.trim()) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+}
+
+/** "none" | "ante" | "bba" -> None | Classic | BigBlind. */
+export function mapAnteTypeToOnchain(anteType: AnteType): OnChainAnteType {
+  switch (anteType) {
+    case "ante":
+      return "Classic";
+    case "bba":
+      return "BigBlind";
+    case "none":
+    default:
+      return "None";
+  }
+}
+
+export function mapPayoutTypeToOnchain(payoutType: PayoutType): OnChainPayoutKind {
+  switch (payoutType) {
+    case "flat":
+      return "Flat";
+    case "satellite":
+      return "Satellite";
+    case "topHeavy":
+    default:
+      return "TopHeavy";
+  }
+}
+
+export function mapBlindLevelToOnchain(
+  level: BlindLevel,
+  levelDurationMinutes: number,
+  anteType: AnteType
+): OnChainBlindLevel {
+  if (level.isBreak) {
+    return {
+      level: level.level,
+      small_blind: 0,
+      big_blind: 0,
+      ante: 0,
+      duration_secs: minutesToSeconds(level.durationMinutes ?? 0),
+      is_break: true,
+    };
+  }
+
+  return {
+    level: level.level,
+    small_blind: Math.round(level.smallBlind),
+    big_blind: Math.round(level.bigBlind),
+    // без анте в конфиге значение уровня не должно "протекать" в контракт
+    ante: anteType === "none" ? 0 : Math.round(level.ante),
+    duration_secs: minutesToSeconds(levelDurationMinutes),
+    is_break: false,
+  };
+}
+
+/** TournamentConfig (UI) -> TournamentConfig (Rust) для create_tournament. */
+export function tournamentConfigToOnchain(
+  config: TournamentConfig
+): OnChainTournamentConfig {
+  return {
+    name: config.name.trim(),
+    description: config.description.trim(),
+    prize_description: config.prizeDescription.trim(),
+    start_time_unix_secs: isoToUnixSeconds(config.startTime),
+    reg_close_unix_secs: isoToUnixSeconds(config.regCloseTime),
+
+    table_size: config.tableSize,
+    max_players: config.maxPlayers,
+    starting_stack: config.startingStack,
+    action_time_secs: config.actionTime,
+    time_bank_secs: config.timeBankSeconds,
+    level_duration_secs: minutesToSeconds(config.blindLevelDuration),
+    late_reg_secs: minutesToSeconds(config.lateRegMinutes),
+
+    ante_type: mapAnteTypeToOnchain(config.anteType),
+    progressive_ante: config.anteType !== "none" && config.isProgressiveAnte,
+    blind_levels: config.blindLevels.map((lvl) =>
+      mapBlindLevelToOnchain(lvl, config.blindLevelDuration, config.anteType)
+    ),
+
+    break_every_secs: minutesToSeconds(config.breakEveryMinutes),
+    break_duration_secs: minutesToSeconds(config.breakDurationMinutes),
+
+    payout_kind: mapPayoutTypeToOnchain(config.payoutType),
+    min_payout_places: config.minPayoutPlaces,
+    guaranteed_prize_pool: config.guaranteedPrizePool,
+    bounty_amount: config.isBounty ? config.bountyAmount : null,
+    final_table_bonus: config.hasFinalTableBonus ? config.finalTableBonus : null,
+
+    instant_registration: config.instantRegistration,
+    re_entry_allowed: config.reEntryAllowed,
+    rebuys_allowed: config.rebuysAllowed,
+  };
+}
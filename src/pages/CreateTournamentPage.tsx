@@ -1,6 +1,6 @@
 // src/pages/CreateTournamentPage.tsx
 
-import React, { useMemo, useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   AnteType,
@@ -8,9 +8,25 @@ import {
   BlindPace,
   PayoutType,
   TournamentConfig,
+  TournamentConfigField,
+  TournamentConfigValidation,
+  parseTournamentConfig,
+  validateTournamentConfig,
 } from "../types/poker";
-import { createTournament } from "../linera/pokerApi";
-import type { OnChainTournamentViewDto } from "../types/onchain";
+import { createTournamentWithNewId } from "../linera/pokerApi";
+import { describeError } from "../linera/errors";
+import { tournamentConfigToOnchain } from "../mappers/uiToOnchain";
+import { saveTournamentConfig } from "../linera/tournamentConfigStore";
+import BlindStructureEditor from "../components/BlindStructureEditor";
+import PayoutTable from "../components/PayoutTable";
+import { calculatePayouts, payoutInputFromConfig } from "../utils/payouts";
+import {
+  BlindPresetInput,
+  applyAnteSchedule,
+  generateBlindStructure,
+  renumberLevels,
+  structureDurationMinutes,
+} from "../utils/blindStructure";
 
 const CreateTournamentPage: React.FC = () => {
   // Basic
@@ -29,6 +45,7 @@ const CreateTournamentPage: React.FC = () => {
   const [actionTime, setActionTime] = useState(15);
   const [blindLevelDuration, setBlindLevelDuration] = useState(5);
   const [blindPace, setBlindPace] = useState<BlindPace>("regular");
+  const [targetDurationMinutes, setTargetDurationMinutes] = useState(120);
 
   // Stacks & players
   const [startingStack, setStartingStack] = useState(20000);
@@ -65,44 +82,50 @@ const CreateTournamentPage: React.FC = () => {
   // UX
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [importNotice, setImportNotice] = useState<{
+    kind: "ok" | "error";
+    text: string;
+  } | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
 
   // ===== BLIND LEVELS =====
-  const blindLevels: BlindLevel[] = useMemo(() => {
-    const baseLevels: BlindLevel[] = [
-      { level: 1, smallBlind: 100, bigBlind: 200, ante: 0 },
-      { level: 2, smallBlind: 150, bigBlind: 300, ante: 0 },
-      { level: 3, smallBlind: 200, bigBlind: 400, ante: 0 },
-      { level: 4, smallBlind: 300, bigBlind: 600, ante: 0 },
-      { level: 5, smallBlind: 400, bigBlind: 800, ante: 0 },
-      { level: 6, smallBlind: 500, bigBlind: 1000, ante: 0 },
-      { level: 7, smallBlind: 600, bigBlind: 1200, ante: 0 },
-    ];
-
-    let multiplier = 1;
-    if (blindPace === "turbo") multiplier = 1.5;
-    if (blindPace === "hyper") multiplier = 2;
-    if (blindPace === "slow") multiplier = 0.8;
-
-    return baseLevels.map((lvl, index) => {
-      const factor = Math.pow(multiplier, index);
-      const sb = Math.round(lvl.smallBlind * factor);
-      const bb = Math.round(lvl.bigBlind * factor);
-
-      let ante = 0;
-      if (anteType === "ante") {
-        ante = Math.round(bb * 0.125);
-      } else if (anteType === "bba") {
-        ante = bb;
-      }
-
-      return {
-        ...lvl,
-        smallBlind: sb,
-        bigBlind: bb,
-        ante,
-      };
-    });
-  }, [blindPace, anteType]);
+  const presetInput = (patch: Partial<BlindPresetInput> = {}): BlindPresetInput => ({
+    pace: blindPace,
+    levelDurationMinutes: blindLevelDuration,
+    targetDurationMinutes,
+    startingStack,
+    anteType,
+    isProgressiveAnte,
+    breakEveryMinutes,
+    breakDurationMinutes,
+    ...patch,
+  });
+
+  const [blindLevels, setBlindLevels] = useState<BlindLevel[]>(() =>
+    generateBlindStructure(presetInput())
+  );
+  // После ручной правки (или импорта) пресет структуру больше не перетирает.
+  const [structureEdited, setStructureEdited] = useState(false);
+
+  const updatePreset = (patch: Partial<BlindPresetInput>): void => {
+    if (!structureEdited) setBlindLevels(generateBlindStructure(presetInput(patch)));
+  };
+
+  const resetStructure = (): void => {
+    setStructureEdited(false);
+    setBlindLevels(generateBlindStructure(presetInput()));
+  };
+
+  const editStructure = (rows: BlindLevel[]): void => {
+    setStructureEdited(true);
+    setBlindLevels(rows);
+  };
+
+  const changeAnte = (type: AnteType, progressive: boolean): void => {
+    setAnteType(type);
+    setIsProgressiveAnte(progressive);
+    setBlindLevels((prev) => applyAnteSchedule(prev, type, progressive));
+  };
 
   const navigate = useNavigate();
 
@@ -169,9 +192,109 @@ const CreateTournamentPage: React.FC = () => {
     ]
   );
 
+  const validation = useMemo(
+    () => validateTournamentConfig(config),
+    [config]
+  );
+
+  // Превью выплат при полном поле (maxPlayers)
+  const payouts = useMemo(
+    () => calculatePayouts(payoutInputFromConfig(config, maxPlayers)),
+    [config, maxPlayers]
+  );
+
+  const errorCount = validation.issues.filter(
+    (i) => i.severity === "error"
+  ).length;
+  const warningCount = validation.issues.length - errorCount;
+
+  const applyConfig = (c: TournamentConfig): void => {
+    setName(c.name);
+    setDescription(c.description);
+    setPrizeDescription(c.prizeDescription);
+    setStartTime(c.startTime);
+    setRegCloseTime(c.regCloseTime);
+    setTableSize(c.tableSize);
+    setActionTime(c.actionTime);
+    setBlindLevelDuration(c.blindLevelDuration);
+    setBlindPace(c.blindPace);
+    setStartingStack(c.startingStack);
+    setMaxPlayers(c.maxPlayers);
+    setLateRegMinutes(c.lateRegMinutes);
+    setAnteType(c.anteType);
+    setIsProgressiveAnte(c.isProgressiveAnte);
+    setPayoutType(c.payoutType);
+    setMinPayoutPlaces(c.minPayoutPlaces);
+    setGuaranteedPrizePool(c.guaranteedPrizePool);
+    setIsBounty(c.isBounty);
+    setBountyAmount(c.bountyAmount);
+    setHasFinalTableBonus(c.hasFinalTableBonus);
+    setFinalTableBonus(c.finalTableBonus);
+    setTimeBankSeconds(c.timeBankSeconds);
+    setBreakEveryMinutes(c.breakEveryMinutes);
+    setBreakDurationMinutes(c.breakDurationMinutes);
+    setInstantRegistration(c.instantRegistration);
+    setReEntryAllowed(c.reEntryAllowed);
+    setRebuysAllowed(c.rebuysAllowed);
+    setBlindLevels(renumberLevels(c.blindLevels));
+    setStructureEdited(true);
+  };
+
+  const handleImportFile = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text()) as unknown;
+    } catch {
+      setImportNotice({ kind: "error", text: `${file.name} is not valid JSON` });
+      return;
+    }
+
+    const parsed = parseTournamentConfig(raw, config);
+    if (!parsed.ok) {
+      setImportNotice({ kind: "error", text: `${file.name}: ${parsed.error}` });
+      return;
+    }
+
+    applyConfig(parsed.config);
+
+    // Тот же валидатор, что и для формы: импорт не обходит проверки.
+    const v = validateTournamentConfig(parsed.config);
+    const errors = v.issues.filter((i) => i.severity === "error").length;
+    const warnings = v.issues.length - errors;
+    if (v.issues.some((i) => ADVANCED_FIELDS.includes(i.field))) {
+      setShowAdvanced(true);
+    }
+    setImportNotice({
+      kind: errors > 0 ? "error" : "ok",
+      text:
+        `Imported "${parsed.config.name}"` +
+        (errors + warnings > 0
+          ? `: ${errors} error(s), ${warnings} warning(s) — see the highlighted fields`
+          : ""),
+    });
+  };
+
+  const handleExport = (): void => {
+    const blob = new Blob([JSON.stringify(config, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${config.name.trim() || "tournament"}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const totalDurationMinutes = useMemo(
-    () => blindLevels.length * blindLevelDuration,
-    [blindLevels.length, blindLevelDuration]
+    () => structureDurationMinutes(blindLevels, blindLevelDuration),
+    [blindLevels, blindLevelDuration]
   );
 
   const estimatedTables = useMemo(
@@ -180,20 +303,25 @@ const CreateTournamentPage: React.FC = () => {
   );
 
   const handleCreate = async (): Promise<void> => {
+    if (!validation.isValid) {
+      setSubmitError("Fix the highlighted errors before creating the tournament.");
+      return;
+    }
+
     setSubmitError(null);
     setIsSubmitting(true);
 
     try {
-      const created: OnChainTournamentViewDto = await createTournament(config);
+      const tournamentId = await createTournamentWithNewId(
+        tournamentConfigToOnchain(config)
+      );
+      // on-chain view не отдаёт выплаты / структуру — помним их локально
+      saveTournamentConfig(tournamentId, config);
 
-      navigate("/lobby", {
-        state: { createdTournament: created },
-      });
+      navigate(`/tournaments/${tournamentId}`);
     } catch (error: unknown) {
       console.error("createTournament failed:", error);
-      const message =
-        error instanceof Error ? error.message : String(error);
-      setSubmitError(message || "Failed to create tournament");
+      setSubmitError(describeError(error, "Failed to create tournament"));
     } finally {
       setIsSubmitting(false);
     }
@@ -213,17 +341,53 @@ const CreateTournamentPage: React.FC = () => {
             </h1>
             <p className="text-sm text-gray-300 mt-2 max-w-xl">
               Configure structure, payouts and advanced settings. This will
-              create a Linera Poker tournament config and send you to the lobby.
+              create a Linera Poker tournament and open its page.
             </p>
           </div>
-          <button
-            className="px-6 py-2 rounded-full border border-white/20 bg-white/5 hover:bg-white/10 text-sm font-medium"
-            onClick={() => navigate("/")}
-          >
-            ← Back to Landing
-          </button>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                void handleImportFile(e)
+              }
+            />
+            <button
+              className="px-4 py-2 rounded-full border border-white/20 bg-white/5 hover:bg-white/10 text-sm font-medium"
+              onClick={() => importInputRef.current?.click()}
+            >
+              Import JSON
+            </button>
+            <button
+              className="px-4 py-2 rounded-full border border-white/20 bg-white/5 hover:bg-white/10 text-sm font-medium"
+              onClick={handleExport}
+            >
+              Export JSON
+            </button>
+            <button
+              className="px-6 py-2 rounded-full border border-white/20 bg-white/5 hover:bg-white/10 text-sm font-medium"
+              onClick={() => navigate("/")}
+            >
+              ← Back to Landing
+            </button>
+          </div>
         </header>
 
+        {importNotice && (
+          <div
+            className={
+              "rounded-xl px-4 py-3 text-sm border " +
+              (importNotice.kind === "error"
+                ? "bg-red-900/40 border-red-500/60 text-red-100"
+                : "bg-emerald-900/30 border-emerald-500/50 text-emerald-100")
+            }
+          >
+            {importNotice.text}
+          </div>
+        )}
+
         {submitError && (
           <div className="bg-red-900/40 border border-red-500/60 text-sm text-red-100 rounded-xl px-4 py-3">
             {submitError}
@@ -250,6 +414,7 @@ const CreateTournamentPage: React.FC = () => {
                       setName(e.target.value)
                     }
                   />
+                  <FieldIssues field="name" validation={validation} />
                 </div>
 
                 <div>
@@ -263,6 +428,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLTextAreaElement>
                     ) => setDescription(e.target.value)}
                   />
+                  <FieldIssues field="description" validation={validation} />
                 </div>
 
                 <div>
@@ -276,6 +442,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLTextAreaElement>
                     ) => setPrizeDescription(e.target.value)}
                   />
+                  <FieldIssues field="prizeDescription" validation={validation} />
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
@@ -291,6 +458,7 @@ const CreateTournamentPage: React.FC = () => {
                         e: React.ChangeEvent<HTMLInputElement>
                       ) => setStartTime(e.target.value)}
                     />
+                    <FieldIssues field="startTime" validation={validation} />
                   </div>
                   <div>
                     <label className="block text-xs text-gray-300 mb-1">
@@ -304,6 +472,7 @@ const CreateTournamentPage: React.FC = () => {
                         e: React.ChangeEvent<HTMLInputElement>
                       ) => setRegCloseTime(e.target.value)}
                     />
+                    <FieldIssues field="regCloseTime" validation={validation} />
                   </div>
                 </div>
               </div>
@@ -330,6 +499,7 @@ const CreateTournamentPage: React.FC = () => {
                     <option value={8}>8-max</option>
                     <option value={9}>9-max</option>
                   </select>
+                  <FieldIssues field="tableSize" validation={validation} />
                 </div>
 
                 <div>
@@ -346,6 +516,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLInputElement>
                     ) => setActionTime(Number(e.target.value))}
                   />
+                  <FieldIssues field="actionTime" validation={validation} />
                 </div>
 
                 <div>
@@ -360,8 +531,13 @@ const CreateTournamentPage: React.FC = () => {
                     value={blindLevelDuration}
                     onChange={(
                       e: React.ChangeEvent<HTMLInputElement>
-                    ) => setBlindLevelDuration(Number(e.target.value))}
+                    ) => {
+                      const v = Number(e.target.value);
+                      setBlindLevelDuration(v);
+                      updatePreset({ levelDurationMinutes: v });
+                    }}
                   />
+                  <FieldIssues field="blindLevelDuration" validation={validation} />
                 </div>
 
                 <div>
@@ -373,13 +549,18 @@ const CreateTournamentPage: React.FC = () => {
                     value={blindPace}
                     onChange={(
                       e: React.ChangeEvent<HTMLSelectElement>
-                    ) => setBlindPace(e.target.value as BlindPace)}
+                    ) => {
+                      const v = e.target.value as BlindPace;
+                      setBlindPace(v);
+                      updatePreset({ pace: v });
+                    }}
                   >
                     <option value="slow">Slow</option>
                     <option value="regular">Regular</option>
                     <option value="turbo">Turbo</option>
                     <option value="hyper">Hyper</option>
                   </select>
+                  <FieldIssues field="blindPace" validation={validation} />
                 </div>
 
                 <div>
@@ -393,8 +574,13 @@ const CreateTournamentPage: React.FC = () => {
                     value={startingStack}
                     onChange={(
                       e: React.ChangeEvent<HTMLInputElement>
-                    ) => setStartingStack(Number(e.target.value))}
+                    ) => {
+                      const v = Number(e.target.value);
+                      setStartingStack(v);
+                      updatePreset({ startingStack: v });
+                    }}
                   />
+                  <FieldIssues field="startingStack" validation={validation} />
                 </div>
 
                 <div>
@@ -410,6 +596,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLInputElement>
                     ) => setMaxPlayers(Number(e.target.value))}
                   />
+                  <FieldIssues field="maxPlayers" validation={validation} />
                 </div>
 
                 <div>
@@ -425,6 +612,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLInputElement>
                     ) => setLateRegMinutes(Number(e.target.value))}
                   />
+                  <FieldIssues field="lateRegMinutes" validation={validation} />
                 </div>
               </div>
             </section>
@@ -444,21 +632,68 @@ const CreateTournamentPage: React.FC = () => {
                     value={anteType}
                     onChange={(
                       e: React.ChangeEvent<HTMLSelectElement>
-                    ) => setAnteType(e.target.value as AnteType)}
+                    ) => changeAnte(e.target.value as AnteType, isProgressiveAnte)}
                   >
                     <option value="none">No Ante</option>
                     <option value="ante">Classic Ante</option>
                     <option value="bba">Big Blind Ante</option>
                   </select>
+                  <FieldIssues field="anteType" validation={validation} />
                 </div>
 
                 <ToggleRow
                   label="Progressive Ante"
                   description="Ante grows more aggressively on later levels."
                   checked={isProgressiveAnte}
-                  onChange={setIsProgressiveAnte}
+                  onChange={(v: boolean) => changeAnte(anteType, v)}
                 />
+                <FieldIssues field="isProgressiveAnte" validation={validation} />
+
+                <div>
+                  <label className="block text-xs text-gray-300 mb-1">
+                    Target Duration (min)
+                  </label>
+                  <input
+                    type="number"
+                    className="w-full rounded-lg bg-black/40 border border-white/15 px-3 py-2 outline-none focus:border-red-500"
+                    min={10}
+                    value={targetDurationMinutes}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      const v = Number(e.target.value);
+                      setTargetDurationMinutes(v);
+                      updatePreset({ targetDurationMinutes: v });
+                    }}
+                  />
+                  <p className="text-[10px] text-gray-400 mt-1">
+                    Preset levels are sized from pace and this duration.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between text-xs text-gray-300">
+                <span>
+                  {structureEdited
+                    ? "Custom structure — preset changes no longer overwrite it."
+                    : `Preset: ${blindPace} pace, ~${targetDurationMinutes} min.`}
+                </span>
+                {structureEdited && (
+                  <button
+                    className="px-3 py-1.5 rounded-full border border-white/20 bg-white/5 hover:bg-white/10"
+                    onClick={resetStructure}
+                  >
+                    Reset to preset
+                  </button>
+                )}
               </div>
+
+              <BlindStructureEditor
+                rows={blindLevels}
+                anteType={anteType}
+                levelDurationMinutes={blindLevelDuration}
+                breakDurationMinutes={breakDurationMinutes || 5}
+                onChange={editStructure}
+              />
+              <FieldIssues field="blindLevels" validation={validation} />
             </section>
 
             {/* PAYOUTS */}
@@ -484,6 +719,7 @@ const CreateTournamentPage: React.FC = () => {
                       Satellite (tickets / seats)
                     </option>
                   </select>
+                  <FieldIssues field="payoutType" validation={validation} />
                 </div>
 
                 <div>
@@ -499,6 +735,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLInputElement>
                     ) => setMinPayoutPlaces(Number(e.target.value))}
                   />
+                  <FieldIssues field="minPayoutPlaces" validation={validation} />
                 </div>
 
                 <div>
@@ -514,6 +751,7 @@ const CreateTournamentPage: React.FC = () => {
                       e: React.ChangeEvent<HTMLInputElement>
                     ) => setGuaranteedPrizePool(Number(e.target.value))}
                   />
+                  <FieldIssues field="guaranteedPrizePool" validation={validation} />
                 </div>
 
                 <ToggleRow
@@ -537,6 +775,7 @@ const CreateTournamentPage: React.FC = () => {
                         e: React.ChangeEvent<HTMLInputElement>
                       ) => setBountyAmount(Number(e.target.value))}
                     />
+                    <FieldIssues field="bountyAmount" validation={validation} />
                   </div>
                 )}
 
@@ -561,6 +800,7 @@ const CreateTournamentPage: React.FC = () => {
                         e: React.ChangeEvent<HTMLInputElement>
                       ) => setFinalTableBonus(Number(e.target.value))}
                     />
+                    <FieldIssues field="finalTableBonus" validation={validation} />
                   </div>
                 )}
               </div>
@@ -595,6 +835,7 @@ const CreateTournamentPage: React.FC = () => {
                         e: React.ChangeEvent<HTMLInputElement>
                       ) => setTimeBankSeconds(Number(e.target.value))}
                     />
+                    <FieldIssues field="timeBankSeconds" validation={validation} />
                   </div>
 
                   <div>
@@ -608,8 +849,13 @@ const CreateTournamentPage: React.FC = () => {
                       value={breakEveryMinutes}
                       onChange={(
                         e: React.ChangeEvent<HTMLInputElement>
-                      ) => setBreakEveryMinutes(Number(e.target.value))}
+                      ) => {
+                        const v = Number(e.target.value);
+                        setBreakEveryMinutes(v);
+                        updatePreset({ breakEveryMinutes: v });
+                      }}
                     />
+                    <FieldIssues field="breakEveryMinutes" validation={validation} />
                   </div>
 
                   <div>
@@ -623,8 +869,13 @@ const CreateTournamentPage: React.FC = () => {
                       value={breakDurationMinutes}
                       onChange={(
                         e: React.ChangeEvent<HTMLInputElement>
-                      ) => setBreakDurationMinutes(Number(e.target.value))}
+                      ) => {
+                        const v = Number(e.target.value);
+                        setBreakDurationMinutes(v);
+                        updatePreset({ breakDurationMinutes: v });
+                      }}
                     />
+                    <FieldIssues field="breakDurationMinutes" validation={validation} />
                   </div>
 
                   <ToggleRow
@@ -647,6 +898,7 @@ const CreateTournamentPage: React.FC = () => {
                     checked={rebuysAllowed}
                     onChange={setRebuysAllowed}
                   />
+                  <FieldIssues field="rebuysAllowed" validation={validation} />
                 </div>
               )}
             </section>
@@ -708,7 +960,8 @@ const CreateTournamentPage: React.FC = () => {
                 <div>
                   <p className="text-xs text-gray-300">Timing</p>
                   <p className="text-sm text-gray-100">
-                    ~{totalDurationMinutes} min of levels (excluding breaks)
+                    ~{totalDurationMinutes} min of structure (incl. breaks) ·{" "}
+                    {blindLevels.filter((l) => !l.isBreak).length} levels
                   </p>
                 </div>
 
@@ -723,9 +976,47 @@ const CreateTournamentPage: React.FC = () => {
                 </div>
               </div>
 
+              <div>
+                <p className="text-xs text-gray-300 mb-1">
+                  Payouts at full field ({maxPlayers} players)
+                </p>
+                <PayoutTable payouts={payouts} maxRows={10} />
+              </div>
+
+              <div
+                className={
+                  "rounded-xl border px-3 py-2 text-xs space-y-1 " +
+                  (errorCount > 0
+                    ? "border-red-500/60 bg-red-900/30 text-red-100"
+                    : warningCount > 0
+                      ? "border-amber-500/50 bg-amber-900/20 text-amber-100"
+                      : "border-emerald-500/40 bg-emerald-900/20 text-emerald-100")
+                }
+              >
+                <p className="font-semibold">
+                  {errorCount > 0
+                    ? `${errorCount} error(s) must be fixed`
+                    : warningCount > 0
+                      ? `Config is valid · ${warningCount} warning(s)`
+                      : "Config is valid"}
+                </p>
+                {validation.issues.map((issue, idx) => (
+                  <p
+                    key={idx}
+                    className={
+                      issue.severity === "error"
+                        ? "text-red-200"
+                        : "text-amber-200"
+                    }
+                  >
+                    {issue.severity === "error" ? "✕" : "⚠"} {issue.message}
+                  </p>
+                ))}
+              </div>
+
               <button
                 onClick={handleCreate}
-                disabled={isSubmitting}
+                disabled={isSubmitting || !validation.isValid}
                 className="w-full mt-2 py-3 rounded-full bg-red-600 hover:bg-red-500 font-semibold shadow-[0_0_30px_rgba(248,113,113,0.9)] transition disabled:opacity-60 disabled:cursor-not-allowed"
               >
                 {isSubmitting ? "Creating on-chain..." : "Create Tournament"}
@@ -738,6 +1029,43 @@ const CreateTournamentPage: React.FC = () => {
   );
 };
 
+// Поля из секции Advanced: при импорте с проблемами в них секцию раскрываем.
+const ADVANCED_FIELDS: TournamentConfigField[] = [
+  "timeBankSeconds",
+  "breakEveryMinutes",
+  "breakDurationMinutes",
+  "instantRegistration",
+  "reEntryAllowed",
+  "rebuysAllowed",
+];
+
+type FieldIssuesProps = {
+  field: TournamentConfigField;
+  validation: TournamentConfigValidation;
+};
+
+// Ошибки / предупреждения валидатора прямо под полем формы.
+const FieldIssues: React.FC<FieldIssuesProps> = ({ field, validation }) => {
+  const errors = validation.errors[field] ?? [];
+  const warnings = validation.warnings[field] ?? [];
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {errors.map((m) => (
+        <p key={`e-${m}`} className="text-[11px] text-red-400">
+          {m}
+        </p>
+      ))}
+      {warnings.map((m) => (
+        <p key={`w-${m}`} className="text-[11px] text-amber-300">
+          {m}
+        </p>
+      ))}
+    </div>
+  );
+};
+
 type ToggleRowProps = {
   label: string;
   description?: string;
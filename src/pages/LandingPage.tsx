@@ -2,7 +2,12 @@
 
 import React, { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { getBackend } from "../linera/lineraClient";
+import {
+  getBackend,
+  peekStoredIdentity,
+  resetIdentity,
+} from "../linera/lineraClient";
+import { describeError } from "../linera/errors";
 
 const isDev = import.meta.env.DEV;
 
@@ -12,6 +17,21 @@ const LandingPage: React.FC = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
+  // Сохранённая идентичность (ключ + цепочка) из прошлых сессий, если есть.
+  const [storedIdentity] = useState(() => peekStoredIdentity());
+
+  function handleResetIdentity() {
+    const confirmed = window.confirm(
+      "Сбросить Linera-идентичность? Будут созданы новый ключ и новая цепочка: " +
+        "места за столами и регистрации в турнирах старого owner станут недоступны."
+    );
+    if (!confirmed) return;
+
+    resetIdentity();
+    // WASM-клиент уже инициализирован со старым ключом — проще перезапустить страницу.
+    window.location.reload();
+  }
+
   async function handlePlayTournament() {
     if (isConnecting) return;
 
@@ -59,9 +79,10 @@ const LandingPage: React.FC = () => {
       let userMessage =
         "Не удалось подключиться к Linera testnet. Попробуйте обновить страницу или зайти позже.";
 
-      // Если есть текст ошибки — добавим его
-      if (err?.message) {
-        userMessage += `\nДетали: ${String(err.message)}`;
+      // Если есть текст ошибки — добавим его (для типизированных ошибок — с причиной)
+      const details = describeError(e, "");
+      if (details) {
+        userMessage += `\nДетали: ${details}`;
       }
 
       // В dev-режиме выводим максимум данных в консоль
@@ -124,8 +145,10 @@ const LandingPage: React.FC = () => {
 
             <p className="text-xs text-gray-400 max-w-md">
               При первом нажатии будет создан Linera-кошелёк и цепочка в
-              публичном Conway testnet. Все дальнейшие действия за столом будут
-              подписываться этим кошельком автоматически.
+              публичном Conway testnet. Ключ сохраняется в браузере, поэтому
+              после перезагрузки вы остаётесь тем же игроком. Все дальнейшие
+              действия за столом будут подписываться этим кошельком
+              автоматически.
             </p>
 
             {errorMessage && (
@@ -133,6 +156,25 @@ const LandingPage: React.FC = () => {
                 {errorMessage}
               </p>
             )}
+
+            {storedIdentity && (
+              <div className="text-[11px] text-gray-500 max-w-md flex flex-col items-center gap-1">
+                <span>
+                  Owner:{" "}
+                  <span className="font-mono text-gray-400">
+                    {storedIdentity.owner}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={handleResetIdentity}
+                  disabled={isConnecting}
+                  className="text-red-400 hover:text-red-300 underline disabled:opacity-50"
+                >
+                  Reset identity
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -19,6 +19,8 @@ import {
     advanceTournamentLevel,
     closeTournament
 } from "../linera/lineraClient";
+import { describeError } from "../linera/errors";
+import { useHero } from "../hooks/useHero";
 
 import type { OnChainTournamentViewDto } from "../types/onchain";
 
@@ -35,6 +37,9 @@ const Lobby: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [busy, setBusy] = useState<boolean>(false);
 
+    // Регистрация идёт от имени героя (player_id из owner'а сессии).
+    const { hero } = useHero();
+
     // Загрузка турниров
     const loadTournaments = useCallback(async () => {
         setLoading(true);
@@ -45,7 +50,7 @@ const Lobby: React.FC = () => {
             setTournaments(data);
         } catch (e: unknown) {
             console.error("[Lobby] fetch error:", e);
-            setError(e instanceof Error ? e.message : "Failed to load tournaments");
+            setError(describeError(e, "Failed to load tournaments"));
         } finally {
             setLoading(false);
         }
@@ -60,24 +65,32 @@ const Lobby: React.FC = () => {
     // ---------------------------------------------------------
 
     const doRegister = async (tid: number) => {
+        if (!hero) return;
         setBusy(true);
+        setError(null);
         try {
-            await registerToTournament(tid);
+            await registerToTournament(tid, hero.playerId, hero.displayName, {
+                throwOnReject: true,
+            });
             await loadTournaments();
         } catch (e: unknown) {
             console.error("Register failed:", e);
+            setError(describeError(e, "Failed to register"));
         } finally {
             setBusy(false);
         }
     };
 
     const doUnregister = async (tid: number) => {
+        if (!hero) return;
         setBusy(true);
+        setError(null);
         try {
-            await unregisterFromTournament(tid);
+            await unregisterFromTournament(tid, hero.playerId, { throwOnReject: true });
             await loadTournaments();
         } catch (e: unknown) {
             console.error("Unregister failed:", e);
+            setError(describeError(e, "Failed to unregister"));
         } finally {
             setBusy(false);
         }
@@ -85,11 +98,13 @@ const Lobby: React.FC = () => {
 
     const doStart = async (tid: number) => {
         setBusy(true);
+        setError(null);
         try {
-            await startTournament(tid);
+            await startTournament(tid, { throwOnReject: true });
             await loadTournaments();
         } catch (e: unknown) {
             console.error("StartTournament failed:", e);
+            setError(describeError(e, "Failed to start tournament"));
         } finally {
             setBusy(false);
         }
@@ -97,11 +112,13 @@ const Lobby: React.FC = () => {
 
     const doNextLevel = async (tid: number) => {
         setBusy(true);
+        setError(null);
         try {
-            await advanceTournamentLevel(tid);
+            await advanceTournamentLevel(tid, { throwOnReject: true });
             await loadTournaments();
         } catch (e: unknown) {
             console.error("Advance failed:", e);
+            setError(describeError(e, "Failed to advance level"));
         } finally {
             setBusy(false);
         }
@@ -109,11 +126,13 @@ const Lobby: React.FC = () => {
 
     const doClose = async (tid: number) => {
         setBusy(true);
+        setError(null);
         try {
-            await closeTournament(tid);
+            await closeTournament(tid, { throwOnReject: true });
             await loadTournaments();
         } catch (e: unknown) {
             console.error("Close failed:", e);
+            setError(describeError(e, "Failed to close tournament"));
         } finally {
             setBusy(false);
         }
@@ -166,7 +185,7 @@ const Lobby: React.FC = () => {
                     {isRegistering && (
                         <>
                             <button
-                                disabled={busy}
+                                disabled={busy || !hero}
                                 onClick={() => doRegister(t.tournament_id)}
                                 className="flex-1 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-500 text-xs font-semibold disabled:opacity-50"
                             >
@@ -174,7 +193,7 @@ const Lobby: React.FC = () => {
                             </button>
 
                             <button
-                                disabled={busy}
+                                disabled={busy || !hero}
                                 onClick={() => doUnregister(t.tournament_id)}
                                 className="flex-1 px-4 py-2 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-xs font-semibold disabled:opacity-50"
                             >
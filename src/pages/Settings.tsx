@@ -1,4 +1,6 @@
 import { Globe, Palette, Volume2, Bell } from 'lucide-react';
+import HotkeySettingsPanel from '../components/HotkeySettingsPanel';
+import EquityHelperSettingsPanel from '../components/EquityHelperSettingsPanel';
 
 export default function Settings() {
   return (
@@ -89,6 +91,10 @@ export default function Settings() {
               </label>
             </div>
           </div>
+
+          <HotkeySettingsPanel />
+
+          <EquityHelperSettingsPanel />
         </div>
       </div>
     </div>
@@ -6,7 +6,6 @@
 // Без any. Без урезаний.
 
 import React, {
-  useCallback,
   useEffect,
   useMemo,
   useState,
@@ -14,36 +13,44 @@ import React, {
 import { useNavigate, useParams } from "react-router-dom";
 
 import {
-  fetchTable,
+  PlayerActionKind,
   sendPlayerAction,
 } from "../linera/lineraClient";
+import { LIVE_POLL_INTERVAL_MS } from "../linera/liveUpdates";
+import { describeError } from "../linera/errors";
+import { useHero } from "../hooks/useHero";
+import { useLiveTable, useLiveTournament } from "../hooks/useLiveTable";
+import { useTableTournamentId, useTournamentClock } from "../hooks/useTournamentClock";
+import { loadTournamentConfig } from "../linera/tournamentConfigStore";
 
-import type { OnChainTableViewDto } from "../types/onchain";
-
-import {
-  mapTableToUi,
-  type UiTableFromOnchain,
-} from "../mappers/onchainToUi";
+import { mapTableToUi } from "../mappers/onchainToUi";
 
 import OvalTable from "../components/OvalTable";
 import { DEV_MULTI_SEAT_MODE } from "../config/devFlags";
 import DevTableTools from "../components/DevTableTools";
-
-// Временный игрок (как во всех dev-страницах).
-// Внимание: в UI Player.id и heroId строковые, поэтому здесь тоже строка.
-const DEV_PLAYER_ID = "1";
+import ActionButtons, { type ActionButtonKind } from "../components/ActionButtons";
+import { computeLegalActions, validateRaiseTo } from "../utils/legalActions";
+import { betPresets, potAfterCall } from "../utils/betSizing";
+import { formatKey, loadHotkeySettings, type HotkeyAction } from "../config/hotkeys";
+import { useHotkeys } from "../hooks/useHotkeys";
+import { usePreAction } from "../hooks/usePreAction";
+import { useActionTimer } from "../hooks/useActionTimer";
+import { DEFAULT_ACTION_TIME_SECS, DEFAULT_TIME_BANK_SECS } from "../utils/actionTimer";
+import PreActionPanel from "../components/PreActionPanel";
+import { useHandLog } from "../hooks/useHandLog";
+import HandLogPanel from "../components/HandLogPanel";
+import { buildShowdown, type PotAward } from "../utils/showdown";
+import TournamentClock from "../components/TournamentClock";
+import { loadEquityHelperSettings } from "../config/equityHelper";
+import { computePotOdds } from "../utils/equity";
+import { useEquity } from "../hooks/useEquity";
+import EquityPanel from "../components/EquityPanel";
 
 // Локальный UI-тип действий. Это НЕ on-chain enum, а именно то,
-// что приходит из кнопок интерфейса.
-type PlayerActionKindUiButton =
-  | "fold"
-  | "check_or_call"
-  | "bet"
-  | "raise";
+// что приходит из кнопок интерфейса (и хоткеев).
+type PlayerActionKindUiButton = ActionButtonKind;
 
-// Тип действий, который реально уходит в sendPlayerAction / on-chain.
-// Соответствует PlayerActionKindUi из pokerApi.
-type PlayerActionKindWire = "fold" | "check" | "call" | "bet" | "raise";
+const PRESET_HOTKEYS: HotkeyAction[] = ["preset1", "preset2", "preset3", "preset4", "preset5"];
 
 const TablePage: React.FC = () => {
   const navigate = useNavigate();
@@ -55,18 +62,101 @@ const TablePage: React.FC = () => {
     return tableIdParam;
   }, [tableIdParam]);
 
-  // onchainView сейчас используется только как "сырой" снимок,
-  // но мы его оставляем (может пригодиться для дебага / будущих фич).
-  const [, setOnchainView] = useState<OnChainTableViewDto | null>(null);
+  // Живой снимок стола: обновляется по нотификациям цепочки
+  // (или polling'ом), поэтому действия других игроков видны без Refresh.
+  const {
+    table: onchainView,
+    loading,
+    error: liveError,
+    transport,
+    refresh,
+  } = useLiveTable(tableId);
+
+  // Герой = player_id, выведенный из owner'а сессии: только его карты открыты.
+  const { heroId } = useHero();
+
+  // Для турнирных столов — часы турнира в шапке.
+  const tournamentLookup = useTableTournamentId(tableId);
+  const tournamentId = tournamentLookup === "unknown" ? null : tournamentLookup;
+  const { tournament } = useLiveTournament(tournamentId);
+  const tournamentConfig = useMemo(
+    () => (tournamentId !== null ? loadTournamentConfig(tournamentId) : null),
+    [tournamentId]
+  );
+  const clockState = useTournamentClock(tournament, tournamentConfig);
+
+  // Таймер хода: actionTime / timeBankSeconds турнира, для кэша — дефолты.
+  const actionTimer = useActionTimer(
+    tableId,
+    onchainView,
+    tournamentConfig?.actionTime ?? DEFAULT_ACTION_TIME_SECS,
+    tournamentConfig?.timeBankSeconds ?? DEFAULT_TIME_BANK_SECS,
+    onchainView?.players.find((p) => String(p.player_id) === heroId)?.seat_index ?? null
+  );
 
-  const [uiView, setUiView] =
-    useState<UiTableFromOnchain | null>(null);
+  // целые секунды: пересчёт раз в секунду, а не на каждый тик таймера
+  const timeRemaining = Math.ceil(actionTimer?.totalRemainingSecs ?? 0);
+
+  const uiView = useMemo(() => {
+    if (!onchainView) return null;
+    const view = mapTableToUi(onchainView, heroId);
+    return { ...view, gameState: { ...view.gameState, timeRemaining } };
+  }, [onchainView, heroId, timeRemaining]);
+
+  // Лог раздач: события из диффа снимков, переживает перезагрузку.
+  const handLog = useHandLog(tableId);
+
+  // Выплаты последней раздачи — пока новая не началась.
+  const awards = useMemo<PotAward[]>(() => {
+    const last = handLog[handLog.length - 1];
+    if (!last?.finished || onchainView?.hand_in_progress !== false) return [];
+    return last.streets
+      .flatMap((st) => st.entries)
+      .flatMap(({ event }) =>
+        event.type === "pot_awarded"
+          ? [{ playerId: String(event.playerId), seat: event.seat, amount: event.amount }]
+          : []
+      );
+  }, [handLog, onchainView?.hand_in_progress]);
+
+  const showdown = useMemo(
+    () =>
+      uiView && uiView.gameState.street === "Showdown"
+        ? buildShowdown(uiView.players, uiView.communityCards, awards)
+        : null,
+    [uiView, awards]
+  );
 
-  const [loading, setLoading] = useState(false);
   const [commandLoading, setCommandLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const [betAmount, setBetAmount] = useState("");
+  const [betAmount, setBetAmount] = useState(0);
+
+  // Легальные действия героя: какие кнопки активны, колл, min/max raise.
+  const legal = useMemo(
+    () => computeLegalActions(onchainView, heroId),
+    [onchainView, heroId]
+  );
+
+  // Новый ход героя (или сдвиг минимума) -> размер ставки = минимальный рейз.
+  useEffect(() => {
+    if (legal.isHeroTurn) setBetAmount(legal.minRaiseTo);
+  }, [legal.isHeroTurn, legal.minRaiseTo]);
+
+  const pot = potAfterCall(onchainView, legal);
+  const smallBlind = onchainView?.small_blind ?? 0;
+  const presets = useMemo(
+    () => betPresets(legal, pot, smallBlind),
+    [legal, pot, smallBlind]
+  );
+
+  // Хоткеи: настройки читаем при входе на стол (меняются на /settings).
+  const hotkeySettings = useMemo(() => loadHotkeySettings(), []);
+  const [armed, setArmed] = useState<PlayerActionKindUiButton | null>(null);
+
+  useEffect(() => {
+    if (!legal.isHeroTurn) setArmed(null);
+  }, [legal.isHeroTurn]);
 
   // Если tableId отсутствует в URL — сразу уходим
   useEffect(() => {
@@ -75,95 +165,157 @@ const TablePage: React.FC = () => {
     }
   }, [tableId, navigate]);
 
-  // ---------------------------- LOAD TABLE ----------------------------
-
-  const loadTable = useCallback(
-    async (tid: string) => {
-      setLoading(true);
-      setError(null);
-
-      try {
-        const onchain = await fetchTable(tid);
+  // ---------------------------- ACTION HANDLER ----------------------------
 
-        if (!onchain) {
-          setOnchainView(null);
-          setUiView(null);
+  const handleSendAction = async (kind: PlayerActionKindUiButton) => {
+    if (!tableId || !legal.isHeroTurn) return;
+    setArmed(null);
+
+    let action: PlayerActionKind;
+    let amount: number | undefined;
+
+    switch (kind) {
+      case "fold":
+        action = PlayerActionKind.Fold;
+        break;
+
+      case "check_or_call":
+        action = legal.canCall ? PlayerActionKind.Call : PlayerActionKind.Check;
+        break;
+
+      case "bet_or_raise": {
+        amount = betAmount;
+        const invalid = validateRaiseTo(legal, amount);
+        if (invalid) {
+          setError(invalid);
           return;
         }
-
-        setOnchainView(onchain);
-
-        const ui = mapTableToUi(onchain, DEV_PLAYER_ID);
-        setUiView(ui);
-      } catch (e) {
-        const message =
-          e instanceof Error ? e.message : "Failed to load table";
-        setError(message);
-      } finally {
-        setLoading(false);
+        // ставка во весь стек — это all-in, даже если она меньше min-raise
+        action =
+          amount === legal.maxRaiseTo
+            ? PlayerActionKind.AllIn
+            : legal.canRaise
+              ? PlayerActionKind.Raise
+              : PlayerActionKind.Bet;
+        if (action === PlayerActionKind.AllIn) amount = undefined;
+        break;
       }
-    },
-    [],
-  );
 
-  // Первичная загрузка и обновление при смене id
-  useEffect(() => {
-    if (tableId !== null) {
-      void loadTable(tableId);
+      case "all_in":
+        action = PlayerActionKind.AllIn;
+        break;
     }
-  }, [tableId, loadTable]);
-
-  // ---------------------------- ACTION HANDLER ----------------------------
-
-  const handleSendAction = async (kind: PlayerActionKindUiButton) => {
-    if (!tableId || !uiView) return;
 
     setCommandLoading(true);
     setError(null);
 
     try {
-      let action: PlayerActionKindWire = "fold";
-      let amount: number | undefined;
-
-      const currentBet = uiView.gameState.currentBet;
+      await sendPlayerAction(tableId, action, amount, {
+        throwOnReject: true,
+      });
+      await refresh();
+    } catch (e) {
+      setError(describeError(e, "Failed to send action"));
+    } finally {
+      setCommandLoading(false);
+    }
+  };
 
-      switch (kind) {
-        case "fold":
-          action = "fold";
-          break;
+  const isBusy = loading || commandLoading;
 
-        case "check_or_call":
-          action = currentBet > 0 ? "call" : "check";
-          break;
+  const isLegal = (kind: PlayerActionKindUiButton): boolean => {
+    switch (kind) {
+      case "fold":
+        return legal.canFold;
+      case "check_or_call":
+        return legal.canCheck || legal.canCall;
+      case "bet_or_raise":
+        return legal.canBet || legal.canRaise;
+      case "all_in":
+        return legal.canAllIn;
+    }
+  };
 
-        case "bet":
-          action = "bet";
-          amount = Number(betAmount) || 0;
-          break;
+  // С подтверждением хоткей только выбирает действие, отправляет Enter.
+  const chooseByHotkey = (kind: PlayerActionKindUiButton) => {
+    if (!isLegal(kind)) return;
+    if (hotkeySettings.confirmWithEnter) {
+      setArmed(kind);
+    } else {
+      void handleSendAction(kind);
+    }
+  };
 
-        case "raise":
-          action = "raise";
-          amount = Number(betAmount) || 0;
-          break;
+  const handleHotkey = (action: HotkeyAction) => {
+    switch (action) {
+      case "fold":
+        chooseByHotkey("fold");
+        return;
+      case "checkCall":
+        chooseByHotkey("check_or_call");
+        return;
+      case "raise":
+        chooseByHotkey("bet_or_raise");
+        return;
+      case "allIn":
+        chooseByHotkey("all_in");
+        return;
+      case "confirm":
+        if (armed && isLegal(armed)) {
+          setArmed(null);
+          void handleSendAction(armed);
+        }
+        return;
+      case "cancel":
+        setArmed(null);
+        return;
+      default: {
+        // пресеты размера: только выставляют сумму, Bet/Raise остаётся за R / Enter
+        const preset = presets[PRESET_HOTKEYS.indexOf(action)];
+        if (!preset || !isLegal("bet_or_raise")) return;
+        setBetAmount(preset.amount);
+        if (hotkeySettings.confirmWithEnter) setArmed("bet_or_raise");
       }
-
-      await sendPlayerAction(tableId, action, amount);
-      await loadTable(tableId);
-    } catch (e) {
-      const message =
-        e instanceof Error ? e.message : "Failed to send action";
-      setError(message);
-    } finally {
-      setCommandLoading(false);
     }
   };
 
+  useHotkeys(hotkeySettings, legal.isHeroTurn && !isBusy, handleHotkey);
+
+  // Пре-экшен уходит сам, когда живой снимок передаёт ход герою.
+  const preActions = usePreAction(tableId, onchainView, legal, isBusy, (kind) =>
+    void handleSendAction(kind)
+  );
+
+  // Помощник колла: только когда герою есть что коллировать и стол точно
+  // не турнирный (пока турнир стола не выяснен — выключен).
+  const equitySettings = useMemo(() => loadEquityHelperSettings(), []);
+  const potOdds =
+    equitySettings.enabled && tournamentLookup === null && legal.isHeroTurn && legal.canCall
+      ? computePotOdds(legal.callAmount, pot)
+      : null;
+  const equityOpponents =
+    onchainView?.players.filter(
+      (p) =>
+        String(p.player_id) !== heroId &&
+        p.hole_cards !== null &&
+        (p.status === "Active" || p.status === "AllIn")
+    ).length ?? 0;
+  const heroCards = useMemo(
+    () => uiView?.players.find((p) => p.id === heroId)?.cards ?? [],
+    [uiView, heroId]
+  );
+  const equity = useEquity(
+    heroCards,
+    uiView?.communityCards ?? [],
+    equityOpponents,
+    equitySettings.iterations,
+    potOdds !== null
+  );
+
   // ---------------------------- RENDER ----------------------------
 
   if (tableId === null) return null;
 
-  const isBusy = loading || commandLoading;
-
   const potLabel = uiView
     ? uiView.gameState.pot.toLocaleString()
     : "0";
@@ -175,7 +327,9 @@ const TablePage: React.FC = () => {
   const currentBetLabel = currentBetValue.toLocaleString();
 
   const heroPlayer =
-    uiView?.players.find((p) => p.id === DEV_PLAYER_ID);
+    heroId !== undefined
+      ? uiView?.players.find((p) => p.id === heroId)
+      : undefined;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-black via-slate-950 to-black text-white flex flex-col">
@@ -198,7 +352,19 @@ const TablePage: React.FC = () => {
                 </span>
                 <span className="text-sm font-semibold">
                   Table #{tableId}
+                  {tournament && (
+                    <span className="ml-2 text-xs font-normal text-gray-400">
+                      · {tournament.name}
+                    </span>
+                  )}
                 </span>
+                {tournament && (
+                  <TournamentClock
+                    state={clockState}
+                    level={tournament.current_level}
+                    compact
+                  />
+                )}
               </div>
             </div>
 
@@ -213,6 +379,21 @@ const TablePage: React.FC = () => {
                 <span className="font-semibold">{currentBetLabel}</span>
               </div>
 
+              <div
+                className="px-3 py-1 rounded-full bg-black/60 border border-white/15 text-gray-400"
+                title={
+                  transport === "notifications"
+                    ? "Updates pushed by chain notifications"
+                    : `Polling every ${LIVE_POLL_INTERVAL_MS / 1000}s (paused while the tab is hidden)`
+                }
+              >
+                {transport === "notifications"
+                  ? "● Live"
+                  : transport === "polling"
+                    ? "○ Polling"
+                    : "… Connecting"}
+              </div>
+
               {heroPlayer && (
                 <div className="px-3 py-1 rounded-full bg-emerald-500/10 border border-emerald-500/60 text-emerald-300">
                   You:{" "}
@@ -227,7 +408,7 @@ const TablePage: React.FC = () => {
           {DEV_MULTI_SEAT_MODE && (
             <DevTableTools
               tableId={tableId}
-              onReload={() => void loadTable(tableId)}
+              onReload={() => void refresh()}
             />
           )}
         </div>
@@ -243,8 +424,8 @@ const TablePage: React.FC = () => {
           </div>
         )}
 
-        {error && (
-          <div className="text-xs text-red-400">{error}</div>
+        {(error ?? liveError) && (
+          <div className="text-xs text-red-400">{error ?? liveError}</div>
         )}
 
         <div className="relative w-full flex-1 min-h-[420px] md:min-h-[520px]">
@@ -255,7 +436,11 @@ const TablePage: React.FC = () => {
               pot={uiView.gameState.pot}
               currentBet={uiView.gameState.currentBet}
               street={uiView.gameState.street}
-              heroId={DEV_PLAYER_ID}
+              heroId={heroId}
+              maxSeats={onchainView?.max_seats ?? uiView.players.length}
+              actionTimer={actionTimer}
+              showdown={showdown}
+              awards={awards}
             />
           ) : (
             <div className="w-full h-full flex items-center justify-center text-sm text-gray-500">
@@ -267,61 +452,65 @@ const TablePage: React.FC = () => {
         {/* ACTION PANEL */}
         <section className="mt-4 border-t border-white/10 pt-4">
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-            <div className="flex flex-wrap items-center gap-2">
-              <button
-                disabled={isBusy}
-                onClick={() => handleSendAction("fold")}
-                className="px-4 py-2 rounded-xl border border-red-500/60 bg-red-500/10 text-sm hover:bg-red-500/20 disabled:opacity-50 transition"
-              >
-                Fold
-              </button>
-
-              <button
-                disabled={isBusy}
-                onClick={() => handleSendAction("check_or_call")}
-                className="px-4 py-2 rounded-xl border border-slate-500/60 bg-slate-500/10 text-sm hover:bg-slate-500/20 disabled:opacity-50 transition"
-              >
-                {currentBetValue > 0 ? "Call" : "Check"}
-              </button>
-
-              <button
-                disabled={isBusy || !betAmount}
-                onClick={() => handleSendAction("bet")}
-                className="px-4 py-2 rounded-xl border border-emerald-500/60 bg-emerald-500/10 text-sm hover:bg-emerald-500/20 disabled:opacity-50 transition"
-              >
-                Bet
-              </button>
+            <ActionButtons
+              legal={legal}
+              betSize={betAmount}
+              pot={pot}
+              smallBlind={smallBlind}
+              bigBlind={onchainView?.big_blind ?? 0}
+              busy={isBusy}
+              armed={armed}
+              hotkeys={hotkeySettings.enabled ? hotkeySettings.bindings : null}
+              onBetSizeChange={setBetAmount}
+              onFold={() => void handleSendAction("fold")}
+              onCheckCall={() => void handleSendAction("check_or_call")}
+              onBetRaise={() => void handleSendAction("bet_or_raise")}
+              onAllIn={() => void handleSendAction("all_in")}
+            />
 
+            <div className="flex items-center gap-2 text-xs text-gray-300">
+              {preActions.available ? (
+                <PreActionPanel
+                  preAction={preActions.preAction}
+                  callAmount={legal.callAmount}
+                  disabled={isBusy}
+                  onToggle={preActions.toggle}
+                />
+              ) : (
+                !legal.isHeroTurn &&
+                legal.hero && <span className="text-gray-500">Waiting for your turn…</span>
+              )}
+              {armed && (
+                <span className="text-yellow-300">
+                  Press {formatKey(hotkeySettings.bindings.confirm)} to confirm
+                </span>
+              )}
               <button
-                disabled={isBusy || !betAmount}
-                onClick={() => handleSendAction("raise")}
-                className="px-4 py-2 rounded-xl border border-amber-500/60 bg-amber-500/10 text-sm hover:bg-amber-500/20 disabled:opacity-50 transition"
+                type="button"
+                onClick={() => navigate("/settings")}
+                className="px-3 py-1.5 rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 text-xs transition"
+                title="Keyboard shortcuts"
               >
-                Raise
+                ⌨ Hotkeys
               </button>
-            </div>
-
-            <div className="flex items-center gap-2 text-xs text-gray-300">
-              <span>Amount</span>
-              <input
-                type="number"
-                min={0}
-                step={1}
-                value={betAmount}
-                onChange={(e) => setBetAmount(e.target.value)}
-                className="w-28 px-3 py-1.5 rounded-lg bg-black/70 border border-white/15 text-sm outline-none focus:border-red-400"
-                placeholder="Size"
-              />
               <button
                 disabled={isBusy}
-                onClick={() => tableId && void loadTable(tableId)}
+                onClick={() => void refresh()}
                 className="px-3 py-1.5 rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 text-xs disabled:opacity-50 transition"
               >
                 Refresh
               </button>
             </div>
           </div>
+
+          {potOdds && (
+            <div className="mt-3">
+              <EquityPanel odds={potOdds} equity={equity} opponents={equityOpponents} />
+            </div>
+          )}
         </section>
+
+        <HandLogPanel hands={handLog} />
       </main>
     </div>
   );
@@ -6,127 +6,115 @@
 // - в админ-режиме: Start / Next level / Close;
 // - показывает связанные столы и даёт перейти на TablePage.
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import {
   advanceTournamentLevel,
   closeTournament,
-  fetchTournament,
-  fetchTournamentTables,
   registerToTournament,
   startTournament,
   unregisterFromTournament,
 } from "../linera/lineraClient";
-import type {
-  OnChainTableViewDto,
-  OnChainTournamentViewDto,
-} from "../types/onchain";
+import { describeError } from "../linera/errors";
+import { useHero } from "../hooks/useHero";
+import { useLiveTournament } from "../hooks/useLiveTable";
+import { loadTournamentConfig } from "../linera/tournamentConfigStore";
+import PayoutTable from "../components/PayoutTable";
+import TournamentClock from "../components/TournamentClock";
+import AutopilotPanel from "../components/AutopilotPanel";
+import { useTournamentClock } from "../hooks/useTournamentClock";
+import { calculatePayouts, payoutInputFromConfig } from "../utils/payouts";
 
 // Флаг админ-режима (как в Lobby)
 const ADMIN_MODE =
   (import.meta as any).env.VITE_ADMIN_MODE === "true" ||
   (import.meta as any).env.VITE_ADMIN_MODE === "1";
 
-// Один и тот же “текущий игрок” для dev-теста.
-// Реально у тебя идентика делается на ончейне по signer,
-// но на фронте мы пока считаем, что мы Player #1.
-const DEV_PLAYER_ID = 1;
-
 const TournamentPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
 
   const tournamentId = useMemo(() => Number(id), [id]);
 
-  const [tournament, setTournament] =
-    useState<OnChainTournamentViewDto | null>(null);
-  const [tables, setTables] = useState<OnChainTableViewDto[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [isRegistering, setIsRegistering] = useState(false);
-  const [isAdminAction, setIsAdminAction] = useState(false);
-
-  // ---------------------------------------------------------------------------
-  // Загрузка состояния турнира + столов
-  // ---------------------------------------------------------------------------
-
-  async function loadData() {
-    if (!Number.isFinite(tournamentId)) {
-      setError("Invalid tournament id");
-      setLoading(false);
-      return;
-    }
+  const validId = Number.isFinite(tournamentId);
+
+  // Турнир и его столы обновляются сами (нотификации цепочки / polling).
+  const {
+    tournament,
+    tables,
+    loading: liveLoading,
+    error: liveError,
+    refresh: loadData,
+  } = useLiveTournament(validId ? tournamentId : null);
+
+  // player_id героя выводится из owner'а сессии (playerIdentity.ts).
+  const { hero, error: heroError } = useHero();
+
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loading = validId && liveLoading;
+  const error = !validId
+    ? "Invalid tournament id"
+    : actionError ??
+      liveError ??
+      (!liveLoading && !tournament ? "Tournament not found" : null);
+
+  // Конфиг есть только у турниров, созданных из этого браузера.
+  const storedConfig = useMemo(
+    () => (validId ? loadTournamentConfig(tournamentId) : null),
+    [validId, tournamentId]
+  );
 
-    setLoading(true);
-    setError(null);
+  // Выплаты пересчитываются по мере регистрации игроков.
+  const fieldSize = tournament?.players_registered ?? 0;
+  const payouts = useMemo(
+    () => (storedConfig ? calculatePayouts(payoutInputFromConfig(storedConfig, fieldSize)) : null),
+    [storedConfig, fieldSize]
+  );
 
-    try {
-      const [t, ts] = await Promise.all([
-        fetchTournament(tournamentId),
-        fetchTournamentTables(tournamentId),
-      ]);
-
-      if (!t) {
-        setError("Tournament not found");
-        setTournament(null);
-        setTables([]);
-      } else {
-        setTournament(t);
-        setTables(ts);
-      }
-    } catch (e: unknown) {
-      console.error("[TournamentPage] loadData error", e);
-      setError(
-        e instanceof Error ? e.message : "Failed to load tournament data"
-      );
-    } finally {
-      setLoading(false);
-    }
-  }
+  const clockState = useTournamentClock(tournament, storedConfig);
 
-  useEffect(() => {
-    void loadData();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tournamentId]);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [isAdminAction, setIsAdminAction] = useState(false);
 
   // ---------------------------------------------------------------------------
   // Регистрация / отмена
   // ---------------------------------------------------------------------------
 
   const handleRegister = async () => {
-    if (!tournament) return;
+    if (!tournament || !hero) return;
     setIsRegistering(true);
-    setError(null);
+    setActionError(null);
 
     try {
-      // Сейчас в бекенд уходит player_id = 1,
-      // а на ончейне он привязывается к signer.
-      await registerToTournament(tournament.tournament_id);
+      await registerToTournament(
+        tournament.tournament_id,
+        hero.playerId,
+        hero.displayName,
+        { throwOnReject: true }
+      );
       await loadData();
     } catch (e: unknown) {
       console.error("[TournamentPage] handleRegister error", e);
-      setError(
-        e instanceof Error ? e.message : "Failed to register to tournament"
-      );
+      setActionError(describeError(e, "Failed to register to tournament"));
     } finally {
       setIsRegistering(false);
     }
   };
 
   const handleUnregister = async () => {
-    if (!tournament) return;
+    if (!tournament || !hero) return;
     setIsRegistering(true);
-    setError(null);
+    setActionError(null);
 
     try {
-      await unregisterFromTournament(tournament.tournament_id);
+      await unregisterFromTournament(tournament.tournament_id, hero.playerId, {
+        throwOnReject: true,
+      });
       await loadData();
     } catch (e: unknown) {
       console.error("[TournamentPage] handleUnregister error", e);
-      setError(
-        e instanceof Error ? e.message : "Failed to unregister from tournament"
-      );
+      setActionError(describeError(e, "Failed to unregister from tournament"));
     } finally {
       setIsRegistering(false);
     }
@@ -141,23 +129,27 @@ const TournamentPage: React.FC = () => {
   ) => {
     if (!tournament) return;
     setIsAdminAction(true);
-    setError(null);
+    setActionError(null);
 
     try {
       if (action === "start") {
-        await startTournament(tournament.tournament_id);
+        await startTournament(tournament.tournament_id, {
+          throwOnReject: true,
+        });
       } else if (action === "advance") {
-        await advanceTournamentLevel(tournament.tournament_id);
+        await advanceTournamentLevel(tournament.tournament_id, {
+          throwOnReject: true,
+        });
       } else if (action === "close") {
-        await closeTournament(tournament.tournament_id);
+        await closeTournament(tournament.tournament_id, {
+          throwOnReject: true,
+        });
       }
 
       await loadData();
     } catch (e: unknown) {
       console.error("[TournamentPage] admin action error", action, e);
-      setError(
-        e instanceof Error ? e.message : `Failed to perform ${action} action`
-      );
+      setActionError(describeError(e, `Failed to perform ${action} action`));
     } finally {
       setIsAdminAction(false);
     }
@@ -255,33 +247,42 @@ const TournamentPage: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left: основные действия */}
           <div className="lg:col-span-1 space-y-4">
+            <TournamentClock state={clockState} level={tournament.current_level} />
+
             <div className="rounded-2xl bg-neutral-900/70 border border-neutral-800/70 px-5 py-4">
               <div className="text-sm font-semibold mb-3">
                 Registration
               </div>
               <div className="text-xs text-gray-400 mb-4">
-                Player (dev) ID: {DEV_PLAYER_ID}
+                {hero ? (
+                  <>
+                    {hero.displayName} · Player ID: {hero.playerId}
+                  </>
+                ) : heroError ? (
+                  <span className="text-red-300">{heroError}</span>
+                ) : (
+                  "Resolving player identity…"
+                )}
               </div>
               <div className="flex gap-3">
                 <button
                   className="flex-1 inline-flex items-center justify-center px-4 py-2 rounded-lg bg-red-600 hover:bg-red-500 text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                   onClick={handleRegister}
-                  disabled={isRegistering}
+                  disabled={isRegistering || !hero}
                 >
                   {isRegistering ? "Processing…" : "Register"}
                 </button>
                 <button
                   className="flex-1 inline-flex items-center justify-center px-4 py-2 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                   onClick={handleUnregister}
-                  disabled={isRegistering}
+                  disabled={isRegistering || !hero}
                 >
                   {isRegistering ? "Processing…" : "Unregister"}
                 </button>
               </div>
               <div className="mt-3 text-[11px] text-gray-500">
-                В прод-версии здесь будет связка с настоящим аккаунтом /
-                кошельком. Сейчас мы тестируем турнир на фиксированном
-                player_id = 1.
+                player_id выводится из owner'а Linera-кошелька в этом
+                браузере: тот же ключ — тот же игрок после перезагрузки.
               </div>
             </div>
 
@@ -319,6 +320,27 @@ const TournamentPage: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {ADMIN_MODE && (
+              <AutopilotPanel
+                tournamentId={tournament.tournament_id}
+                levelDurationMinutes={storedConfig?.blindLevelDuration ?? null}
+              />
+            )}
+
+            <div className="rounded-2xl bg-neutral-900/70 border border-neutral-800/70 px-5 py-4">
+              <div className="text-sm font-semibold mb-3">
+                Payouts · {fieldSize} entrants
+              </div>
+              {payouts ? (
+                <PayoutTable payouts={payouts} />
+              ) : (
+                <div className="text-xs text-gray-500">
+                  Структура выплат неизвестна: турнир создан не из этого
+                  браузера.
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Right: столы турнира */}
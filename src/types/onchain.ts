@@ -54,6 +54,60 @@ export interface OnChainTournamentViewDto {
   tables_running: number;
 }
 
+/// Тип анте в Rust (AnteType). В UI это "none" | "ante" | "bba".
+export type OnChainAnteType = "None" | "Classic" | "BigBlind";
+
+/// Схема выплат (PayoutKind).
+export type OnChainPayoutKind = "TopHeavy" | "Flat" | "Satellite";
+
+/// Уровень блайндов в TournamentConfig.
+/// Перерыв — строка с is_break = true и нулевыми блайндами.
+export type OnChainBlindLevel = {
+  level: number;
+  small_blind: number;
+  big_blind: number;
+  ante: number;
+  duration_secs: number;
+  is_break: boolean;
+};
+
+/// Конфиг турнира (TournamentConfig из poker_engine), который уходит
+/// в create_tournament(config: JSON). Все длительности — в секундах,
+/// время — unix seconds (null = не задано).
+/// Объявлен через type, а не interface: так он совместим с TournamentConfigJson.
+export type OnChainTournamentConfig = {
+  name: string;
+  description: string;
+  prize_description: string;
+  start_time_unix_secs: number | null;
+  reg_close_unix_secs: number | null;
+
+  table_size: number;
+  max_players: number;
+  starting_stack: number;
+  action_time_secs: number;
+  time_bank_secs: number;
+  level_duration_secs: number;
+  late_reg_secs: number;
+
+  ante_type: OnChainAnteType;
+  progressive_ante: boolean;
+  blind_levels: OnChainBlindLevel[];
+
+  break_every_secs: number; // 0 = без перерывов
+  break_duration_secs: number;
+
+  payout_kind: OnChainPayoutKind;
+  min_payout_places: number;
+  guaranteed_prize_pool: number;
+  bounty_amount: number | null;
+  final_table_bonus: number | null;
+
+  instant_registration: boolean;
+  re_entry_allowed: boolean;
+  rebuys_allowed: boolean;
+};
+
 /// При желании можно добавить тип для ответов CommandResponse
 /// (если ты хочешь их разбирать напрямую на фронте).
 /// Пока оставим как обобщённый JSON.
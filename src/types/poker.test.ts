@@ -0,0 +1,156 @@
+// src/types/poker.test.ts
+//
+// validateTournamentConfig: противоречивые конфиги из формы и импорта;
+// parseTournamentConfig: битый JSON при импорте.
+
+import { describe, expect, it } from "vitest";
+import { parseTournamentConfig, validateTournamentConfig, type TournamentConfig } from "./poker";
+
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+
+/** Корректный конфиг: 3 уровня по 10 мин + перерыв 5 мин = 35 мин расписания. */
+function config(patch: Partial<TournamentConfig> = {}): TournamentConfig {
+  return {
+    name: "Sunday Test",
+    description: "",
+    prizeDescription: "",
+    startTime: "2026-01-02T18:00:00Z",
+    regCloseTime: "2026-01-02T18:30:00Z",
+    tableSize: 9,
+    actionTime: 15,
+    blindLevelDuration: 10,
+    blindPace: "regular",
+    startingStack: 10000,
+    maxPlayers: 100,
+    lateRegMinutes: 20,
+    anteType: "ante",
+    isProgressiveAnte: false,
+    payoutType: "topHeavy",
+    minPayoutPlaces: 10,
+    guaranteedPrizePool: 0,
+    isBounty: false,
+    bountyAmount: 0,
+    hasFinalTableBonus: false,
+    finalTableBonus: 0,
+    timeBankSeconds: 30,
+    breakEveryMinutes: 0,
+    breakDurationMinutes: 0,
+    instantRegistration: true,
+    reEntryAllowed: false,
+    rebuysAllowed: false,
+    blindLevels: [
+      { level: 1, smallBlind: 25, bigBlind: 50, ante: 0 },
+      { level: 2, smallBlind: 50, bigBlind: 100, ante: 10 },
+      { level: 2, smallBlind: 0, bigBlind: 0, ante: 0, isBreak: true, durationMinutes: 5 },
+      { level: 3, smallBlind: 75, bigBlind: 150, ante: 15 },
+    ],
+    ...patch,
+  };
+}
+
+const validate = (patch: Partial<TournamentConfig>) => validateTournamentConfig(config(patch), NOW);
+
+describe("validateTournamentConfig", () => {
+  it("accepts a consistent config", () => {
+    const result = validate({});
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual({});
+  });
+
+  it("rejects minPayoutPlaces above maxPlayers", () => {
+    const result = validate({ maxPlayers: 8, minPayoutPlaces: 9 });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.minPayoutPlaces).toEqual(["Cannot pay 9 places with at most 8 players"]);
+  });
+
+  it("rejects late registration longer than the whole schedule", () => {
+    const result = validate({ lateRegMinutes: 36 });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.lateRegMinutes?.[0]).toContain("longer than the whole blind schedule (35 min)");
+    expect(validate({ lateRegMinutes: 35 }).errors.lateRegMinutes).toBeUndefined();
+  });
+
+  it("rejects zero-length breaks: interval without duration", () => {
+    const result = validate({ breakEveryMinutes: 60, breakDurationMinutes: 0 });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.breakDurationMinutes).toEqual(["Breaks are enabled but have zero length"]);
+  });
+
+  it("rejects zero-length break rows in the structure", () => {
+    const blindLevels = config().blindLevels.map((r) => (r.isBreak ? { ...r, durationMinutes: 0 } : r));
+    const result = validate({ blindLevels });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.blindLevels).toEqual([
+      "Break after level 2: duration must be greater than 0 minutes",
+    ]);
+  });
+
+  it("rejects regCloseTime before startTime", () => {
+    const result = validate({ regCloseTime: "2026-01-02T17:00:00Z" });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.regCloseTime).toEqual([
+      "Registration cannot close before the tournament starts",
+    ]);
+  });
+
+  it("rejects unparsable dates", () => {
+    expect(validate({ startTime: "tomorrow-ish" }).errors.startTime).toEqual([
+      "Start time is not a valid date",
+    ]);
+  });
+
+  it("only warns about a start time in the past", () => {
+    const result = validate({ startTime: "2025-12-31T00:00:00Z", regCloseTime: "" });
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.startTime).toEqual(["Start time is in the past"]);
+  });
+});
+
+describe("parseTournamentConfig", () => {
+  it("keeps base values for missing fields", () => {
+    const result = parseTournamentConfig({ name: "Imported", maxPlayers: 50 }, config());
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.config.name).toBe("Imported");
+      expect(result.config.maxPlayers).toBe(50);
+      expect(result.config.tableSize).toBe(9);
+    }
+  });
+
+  it.each([
+    ["an array", [], "Config must be a JSON object"],
+    ["null", null, "Config must be a JSON object"],
+    ["a string", "{}", "Config must be a JSON object"],
+    ["a wrongly typed field", { maxPlayers: "100" }, "maxPlayers must be a number"],
+    ["an unknown enum value", { payoutType: "winnerTakesAll" }, "payoutType must be one of: topHeavy, flat, satellite"],
+    ["blindLevels that is not a list", { blindLevels: {} }, "blindLevels must be a list"],
+    ["a level without blinds", { blindLevels: [{ smallBlind: 10 }] }, "blindLevels[0] needs numeric smallBlind and bigBlind"],
+    ["a break without duration", { blindLevels: [{ isBreak: true }] }, "blindLevels[0] is a break and needs numeric durationMinutes"],
+  ])("rejects %s", (_label, raw, error) => {
+    expect(parseTournamentConfig(raw, config())).toEqual({ ok: false, error });
+  });
+
+  it("renumbers imported levels and breaks", () => {
+    const result = parseTournamentConfig(
+      {
+        blindLevels: [
+          { smallBlind: 10, bigBlind: 20 },
+          { isBreak: true, durationMinutes: 10 },
+          { smallBlind: 20, bigBlind: 40, ante: 5 },
+        ],
+      },
+      config()
+    );
+    expect(result.ok && result.config.blindLevels).toEqual([
+      { level: 1, smallBlind: 10, bigBlind: 20, ante: 0 },
+      { level: 1, smallBlind: 0, bigBlind: 0, ante: 0, isBreak: true, durationMinutes: 10 },
+      { level: 2, smallBlind: 20, bigBlind: 40, ante: 5 },
+    ]);
+  });
+
+  it("feeds the imported config into the validator", () => {
+    const result = parseTournamentConfig({ maxPlayers: 5, minPayoutPlaces: 6 }, config());
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(validateTournamentConfig(result.config, NOW).isValid).toBe(false);
+  });
+});
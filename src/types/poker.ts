@@ -6,10 +6,13 @@ export type AnteType = "none" | "ante" | "bba";
 export type BlindPace = "slow" | "regular" | "turbo" | "hyper";
 
 export type BlindLevel = {
-  level: number;
+  level: number; // у перерыва — номер предыдущего уровня
   smallBlind: number;
   bigBlind: number;
   ante: number;
+  // Перерыв внутри структуры: блайнды не играются (0), длится durationMinutes
+  isBreak?: boolean;
+  durationMinutes?: number;
 };
 
 export type PayoutType = "topHeavy" | "flat" | "satellite";
@@ -59,7 +62,7 @@ export type TournamentConfig = {
   reEntryAllowed: boolean;
   rebuysAllowed: boolean;
 
-  // Сгенерированный список уровней
+  // Структура блайндов (уровни + перерывы), см. utils/blindStructure.ts
   blindLevels: BlindLevel[];
 };
 
@@ -100,6 +103,9 @@ export type Player = {
 
   cards?: UICard[];
 
+  currentBet: number; // ставка в текущем раунде торговли (current_bet)
+  isActing: boolean; // сейчас ход этого игрока (current_actor_seat)
+
   isDealer?: boolean;
   isSmallBlind?: boolean;
   isBigBlind?: boolean;
@@ -119,3 +125,277 @@ export type GameState = {
   currentPlayer: string; // id игрока, который действует
   timeRemaining: number; // секунды
 };
+
+// ====== Валидация TournamentConfig ======
+//
+// errors блокируют создание турнира, warnings — только подсказки.
+// Один и тот же валидатор используется формой CreateTournamentPage
+// и импортом конфига из JSON.
+
+export type TournamentConfigField = keyof TournamentConfig;
+
+export type ConfigIssueSeverity = "error" | "warning";
+
+export type TournamentConfigIssue = {
+  field: TournamentConfigField;
+  severity: ConfigIssueSeverity;
+  message: string;
+};
+
+export type TournamentConfigValidation = {
+  issues: TournamentConfigIssue[];
+  errors: Partial<Record<TournamentConfigField, string[]>>;
+  warnings: Partial<Record<TournamentConfigField, string[]>>;
+  isValid: boolean;
+};
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function parseDateMs(value: string): number | null {
+  if (!value.trim()) return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+export function validateTournamentConfig(
+  config: TournamentConfig,
+  now: number = Date.now()
+): TournamentConfigValidation {
+  const issues: TournamentConfigIssue[] = [];
+  const error = (field: TournamentConfigField, message: string) =>
+    issues.push({ field, severity: "error", message });
+  const warning = (field: TournamentConfigField, message: string) =>
+    issues.push({ field, severity: "warning", message });
+
+  const nonNegativeInt = (field: TournamentConfigField, label: string): boolean => {
+    const v = config[field];
+    if (!isFiniteNumber(v) || !Number.isInteger(v) || v < 0) {
+      error(field, `${label} must be a whole number ≥ 0`);
+      return false;
+    }
+    return true;
+  };
+
+  // --- Базовая инфа ---
+  if (!config.name.trim()) error("name", "Name is required");
+  else if (config.name.trim().length > 64) error("name", "Name must be at most 64 characters");
+
+  const startMs = parseDateMs(config.startTime);
+  const regCloseMs = parseDateMs(config.regCloseTime);
+  if (config.startTime.trim() && startMs === null) error("startTime", "Start time is not a valid date");
+  if (config.regCloseTime.trim() && regCloseMs === null) {
+    error("regCloseTime", "Registration close time is not a valid date");
+  }
+  if (startMs !== null && startMs < now) warning("startTime", "Start time is in the past");
+  if (startMs !== null && regCloseMs !== null && regCloseMs < startMs) {
+    error("regCloseTime", "Registration cannot close before the tournament starts");
+  }
+
+  // --- Структура ---
+  if (!isFiniteNumber(config.tableSize) || !Number.isInteger(config.tableSize) || config.tableSize < 2 || config.tableSize > 10) {
+    error("tableSize", "Table size must be between 2 and 10 seats");
+  }
+  if (!isFiniteNumber(config.actionTime) || config.actionTime < 5 || config.actionTime > 120) {
+    error("actionTime", "Action time must be between 5 and 120 seconds");
+  }
+  if (!isFiniteNumber(config.blindLevelDuration) || config.blindLevelDuration <= 0) {
+    error("blindLevelDuration", "Level duration must be greater than 0 minutes");
+  } else if (config.blindLevelDuration < 3) {
+    warning("blindLevelDuration", "Levels shorter than 3 minutes leave very little play per level");
+  }
+
+  // --- Стеки / игроки ---
+  if (!isFiniteNumber(config.startingStack) || !Number.isInteger(config.startingStack) || config.startingStack <= 0) {
+    error("startingStack", "Starting stack must be a positive whole number");
+  }
+  if (!isFiniteNumber(config.maxPlayers) || !Number.isInteger(config.maxPlayers) || config.maxPlayers < 2) {
+    error("maxPlayers", "At least 2 players are required");
+  } else if (isFiniteNumber(config.tableSize) && config.maxPlayers <= config.tableSize) {
+    warning("maxPlayers", "All players fit on one table — this is a single-table tournament");
+  }
+
+  // --- Уровни блайндов ---
+  const rows = config.blindLevels;
+  const levels = rows.filter((r) => !r.isBreak);
+  if (levels.length === 0) {
+    error("blindLevels", "At least one blind level is required");
+  }
+  rows.forEach((row, i) => {
+    if (!row.isBreak) return;
+    if (!isFiniteNumber(row.durationMinutes) || row.durationMinutes <= 0) {
+      error("blindLevels", `Break after level ${row.level}: duration must be greater than 0 minutes`);
+    }
+    if (i === 0 || i === rows.length - 1 || rows[i - 1].isBreak) {
+      warning("blindLevels", `Break after level ${row.level} is not between two levels`);
+    }
+  });
+  levels.forEach((lvl, i) => {
+    const label = `Level ${i + 1}`;
+    if (!isFiniteNumber(lvl.smallBlind) || lvl.smallBlind <= 0) {
+      error("blindLevels", `${label}: small blind must be greater than 0`);
+    }
+    if (!isFiniteNumber(lvl.bigBlind) || lvl.bigBlind < lvl.smallBlind) {
+      error("blindLevels", `${label}: big blind must be at least the small blind`);
+    }
+    if (!isFiniteNumber(lvl.ante) || lvl.ante < 0) {
+      error("blindLevels", `${label}: ante cannot be negative`);
+    }
+    const prev = levels[i - 1];
+    if (prev && lvl.bigBlind < prev.bigBlind) {
+      warning("blindLevels", `${label}: blinds go down compared to level ${i}`);
+    }
+  });
+  if (config.anteType === "none" && levels.some((l) => l.ante > 0)) {
+    warning("blindLevels", "Levels contain antes, but ante type is \"No Ante\" — they will be ignored");
+  }
+  if (config.anteType === "none" && config.isProgressiveAnte) {
+    warning("isProgressiveAnte", "Progressive ante has no effect without antes");
+  }
+  if (levels.length > 0 && isFiniteNumber(config.startingStack) && config.startingStack < levels[0].bigBlind * 10) {
+    warning("startingStack", "Starting stack is under 10 big blinds of the first level");
+  }
+
+  // --- Поздняя регистрация ---
+  const scheduleMinutes =
+    levels.length * (isFiniteNumber(config.blindLevelDuration) ? config.blindLevelDuration : 0) +
+    rows.reduce((sum, r) => sum + (r.isBreak && isFiniteNumber(r.durationMinutes) ? r.durationMinutes : 0), 0);
+  if (nonNegativeInt("lateRegMinutes", "Late registration")) {
+    if (scheduleMinutes > 0 && config.lateRegMinutes > scheduleMinutes) {
+      error(
+        "lateRegMinutes",
+        `Late registration (${config.lateRegMinutes} min) is longer than the whole blind schedule (${scheduleMinutes} min)`
+      );
+    }
+  }
+
+  // --- Выплаты ---
+  if (!isFiniteNumber(config.minPayoutPlaces) || !Number.isInteger(config.minPayoutPlaces) || config.minPayoutPlaces < 1) {
+    error("minPayoutPlaces", "At least 1 place must be paid");
+  } else if (isFiniteNumber(config.maxPlayers) && config.minPayoutPlaces > config.maxPlayers) {
+    error("minPayoutPlaces", `Cannot pay ${config.minPayoutPlaces} places with at most ${config.maxPlayers} players`);
+  } else if (isFiniteNumber(config.maxPlayers) && config.payoutType !== "satellite" && config.minPayoutPlaces > config.maxPlayers / 2) {
+    warning("minPayoutPlaces", "More than half of the field is paid");
+  }
+  nonNegativeInt("guaranteedPrizePool", "Guaranteed prize pool");
+  if (config.isBounty && (!isFiniteNumber(config.bountyAmount) || config.bountyAmount <= 0)) {
+    error("bountyAmount", "Bounty amount must be greater than 0 for a bounty tournament");
+  }
+  if (config.hasFinalTableBonus && (!isFiniteNumber(config.finalTableBonus) || config.finalTableBonus <= 0)) {
+    error("finalTableBonus", "Final table bonus must be greater than 0");
+  }
+
+  // --- Таймбанк / перерывы ---
+  nonNegativeInt("timeBankSeconds", "Timebank");
+  const breakEveryOk = nonNegativeInt("breakEveryMinutes", "Break interval");
+  const breakDurationOk = nonNegativeInt("breakDurationMinutes", "Break duration");
+  if (breakEveryOk && breakDurationOk) {
+    if (config.breakEveryMinutes > 0 && config.breakDurationMinutes === 0) {
+      error("breakDurationMinutes", "Breaks are enabled but have zero length");
+    }
+    if (config.breakEveryMinutes === 0 && config.breakDurationMinutes > 0) {
+      warning("breakDurationMinutes", "Break duration is ignored: breaks are disabled (interval 0)");
+    }
+    if (
+      config.breakEveryMinutes > 0 &&
+      isFiniteNumber(config.blindLevelDuration) &&
+      config.breakEveryMinutes < config.blindLevelDuration
+    ) {
+      warning("breakEveryMinutes", "Breaks come more often than blind levels change");
+    }
+  }
+
+  if (config.rebuysAllowed && config.lateRegMinutes === 0) {
+    warning("rebuysAllowed", "Rebuys without late registration can only happen before the start");
+  }
+
+  const errors: TournamentConfigValidation["errors"] = {};
+  const warnings: TournamentConfigValidation["warnings"] = {};
+  for (const issue of issues) {
+    const bucket = issue.severity === "error" ? errors : warnings;
+    (bucket[issue.field] ??= []).push(issue.message);
+  }
+
+  return {
+    issues,
+    errors,
+    warnings,
+    isValid: !issues.some((i) => i.severity === "error"),
+  };
+}
+
+/**
+ * Разбор импортированного JSON в TournamentConfig.
+ * Отсутствующие поля берутся из base (текущая форма), поля неверного типа —
+ * ошибка разбора. Содержательные проверки — validateTournamentConfig.
+ */
+export function parseTournamentConfig(
+  raw: unknown,
+  base: TournamentConfig
+): { ok: true; config: TournamentConfig } | { ok: false; error: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: "Config must be a JSON object" };
+  }
+  const input = raw as Record<string, unknown>;
+  const result: TournamentConfig = { ...base };
+  const target = result as Record<TournamentConfigField, unknown>;
+
+  const enumValues: Partial<Record<TournamentConfigField, readonly string[]>> = {
+    anteType: ["none", "ante", "bba"],
+    blindPace: ["slow", "regular", "turbo", "hyper"],
+    payoutType: ["topHeavy", "flat", "satellite"],
+  };
+
+  for (const field of Object.keys(base) as TournamentConfigField[]) {
+    if (!(field in input)) continue;
+    const value = input[field];
+
+    if (field === "blindLevels") {
+      if (!Array.isArray(value)) return { ok: false, error: "blindLevels must be a list" };
+      const levels: BlindLevel[] = [];
+      let level = 0;
+      for (const [i, l] of value.entries()) {
+        const o = typeof l === "object" && l !== null ? (l as Record<string, unknown>) : null;
+        if (o && o.isBreak === true) {
+          if (!isFiniteNumber(o.durationMinutes)) {
+            return { ok: false, error: `blindLevels[${i}] is a break and needs numeric durationMinutes` };
+          }
+          levels.push({
+            level,
+            smallBlind: 0,
+            bigBlind: 0,
+            ante: 0,
+            isBreak: true,
+            durationMinutes: o.durationMinutes,
+          });
+          continue;
+        }
+        if (!o || !isFiniteNumber(o.smallBlind) || !isFiniteNumber(o.bigBlind)) {
+          return { ok: false, error: `blindLevels[${i}] needs numeric smallBlind and bigBlind` };
+        }
+        level += 1;
+        levels.push({
+          level,
+          smallBlind: o.smallBlind,
+          bigBlind: o.bigBlind,
+          ante: isFiniteNumber(o.ante) ? o.ante : 0,
+        });
+      }
+      result.blindLevels = levels;
+      continue;
+    }
+
+    const allowed = enumValues[field];
+    if (allowed) {
+      if (typeof value !== "string" || !allowed.includes(value)) {
+        return { ok: false, error: `${field} must be one of: ${allowed.join(", ")}` };
+      }
+    } else if (typeof value !== typeof base[field]) {
+      return { ok: false, error: `${field} must be a ${typeof base[field]}` };
+    }
+    target[field] = value;
+  }
+
+  return { ok: true, config: result };
+}
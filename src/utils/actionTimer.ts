@@ -0,0 +1,80 @@
+// src/utils/actionTimer.ts
+//
+// Таймер хода: сначала actionTime из конфига турнира, затем личный
+// time bank игрока (timeBankSeconds), потом ход просрочен.
+//
+// Цепочка не отдаёт время начала хода, поэтому отсчёт идёт от момента,
+// когда мы увидели смену "точки решения" (decisionKey). Якорь хранится в
+// localStorage (linera/actionTimerStore.ts) — перезагрузка его не сбрасывает.
+
+import type { GqlTableView } from "../linera/pokerApi";
+
+/** Для кэш-столов и чужих турниров без локального конфига — как в форме создания. */
+export const DEFAULT_ACTION_TIME_SECS = 15;
+export const DEFAULT_TIME_BANK_SECS = 30;
+
+/** За сколько секунд до конца хода герою пищим. */
+export const ACTION_WARNING_SECS = 5;
+
+export type ActionTimerPhase = "action" | "timeBank" | "expired";
+
+export type ActionTimerSnapshot = {
+  seat: number;
+  phase: ActionTimerPhase;
+  /** Осталось в текущей фазе */
+  remainingSecs: number;
+  /** Длина текущей фазы (для ширины TimerBar) */
+  phaseSecs: number;
+  /** Осталось до конца хода вместе с банком */
+  totalRemainingSecs: number;
+};
+
+/**
+ * Точка решения: кто ходит и в какой ситуации. Одинаковый ключ после
+ * перезагрузки = тот же ход; стеки отличают соседние раздачи.
+ */
+export function decisionKey(table: GqlTableView): string | null {
+  if (!table.hand_in_progress || table.current_actor_seat === null) return null;
+  const seats = [...table.players]
+    .sort((a, b) => a.seat_index - b.seat_index)
+    .map((p) => `${p.stack}/${p.current_bet}`)
+    .join(",");
+  return [table.street, table.current_actor_seat, table.total_pot, table.board.length, seats].join("|");
+}
+
+export function computeActionTimer(
+  seat: number,
+  elapsedSecs: number,
+  actionTimeSecs: number,
+  bankSecs: number
+): ActionTimerSnapshot {
+  const elapsed = Math.max(0, elapsedSecs);
+
+  if (elapsed < actionTimeSecs) {
+    return {
+      seat,
+      phase: "action",
+      remainingSecs: actionTimeSecs - elapsed,
+      phaseSecs: actionTimeSecs,
+      totalRemainingSecs: actionTimeSecs - elapsed + bankSecs,
+    };
+  }
+
+  const bankRemaining = bankSecs - (elapsed - actionTimeSecs);
+  if (bankRemaining > 0) {
+    return {
+      seat,
+      phase: "timeBank",
+      remainingSecs: bankRemaining,
+      phaseSecs: bankSecs,
+      totalRemainingSecs: bankRemaining,
+    };
+  }
+
+  return { seat, phase: "expired", remainingSecs: 0, phaseSecs: bankSecs, totalRemainingSecs: 0 };
+}
+
+/** Сколько банка потратил игрок за ход длиной elapsedSecs. */
+export function timeBankUsed(elapsedSecs: number, actionTimeSecs: number, bankSecs: number): number {
+  return Math.min(bankSecs, Math.max(0, elapsedSecs - actionTimeSecs));
+}
@@ -0,0 +1,69 @@
+// src/utils/betSizing.ts
+//
+// Размеры ставок для слайдера на TablePage: пресеты 1/3, 1/2, 2/3, pot,
+// all-in и округление до small blind. Все суммы — "raise to", как в
+// utils/legalActions.ts.
+//
+// total_pot не включает ставки текущей улицы (они собираются в банк
+// в конце улицы), поэтому банк для пресетов = total_pot + все current_bet
+// + колл героя.
+
+import type { GqlTableView } from "../linera/pokerApi";
+import type { LegalActions } from "./legalActions";
+
+export type BetPresetId = "third" | "half" | "twoThirds" | "pot" | "allIn";
+
+export type BetPreset = {
+  id: BetPresetId;
+  label: string;
+  amount: number;
+};
+
+const PRESET_FRACTIONS: Array<{ id: Exclude<BetPresetId, "allIn">; label: string; fraction: number }> = [
+  { id: "third", label: "1/3", fraction: 1 / 3 },
+  { id: "half", label: "1/2", fraction: 1 / 2 },
+  { id: "twoThirds", label: "2/3", fraction: 2 / 3 },
+  { id: "pot", label: "Pot", fraction: 1 },
+];
+
+/** Банк после того, как герой заколлирует (основа для pot-size ставок). */
+export function potAfterCall(table: GqlTableView | null, legal: LegalActions): number {
+  if (!table) return 0;
+  const streetBets = table.players.reduce((sum, p) => sum + p.current_bet, 0);
+  return table.total_pot + streetBets + legal.callAmount;
+}
+
+/** Округление до кратного small blind в границах [min, max]. */
+export function clampBet(
+  amount: number,
+  legal: Pick<LegalActions, "minRaiseTo" | "maxRaiseTo">,
+  smallBlind: number
+): number {
+  if (!Number.isFinite(amount)) return legal.minRaiseTo;
+  const step = Math.max(1, smallBlind);
+  const rounded = Math.round(amount / step) * step;
+  // all-in не обязан быть кратным блайнду
+  if (amount >= legal.maxRaiseTo || rounded >= legal.maxRaiseTo) return legal.maxRaiseTo;
+  return Math.max(legal.minRaiseTo, rounded);
+}
+
+export function betPresets(
+  legal: LegalActions,
+  pot: number,
+  smallBlind: number
+): BetPreset[] {
+  const presets: BetPreset[] = PRESET_FRACTIONS.map(({ id, label, fraction }) => ({
+    id,
+    label,
+    amount: clampBet(legal.currentBet + fraction * pot, legal, smallBlind),
+  }));
+  presets.push({ id: "allIn", label: "All-in", amount: legal.maxRaiseTo });
+  return presets;
+}
+
+/** "1,200" или "6 BB" — в зависимости от выбранных единиц. */
+export function formatBetAmount(amount: number, bigBlind: number, inBigBlinds: boolean): string {
+  if (!inBigBlinds || bigBlind <= 0) return amount.toLocaleString();
+  const bb = amount / bigBlind;
+  return `${Number.isInteger(bb) ? bb : bb.toFixed(1)} BB`;
+}
@@ -0,0 +1,249 @@
+// src/utils/blindStructure.ts
+//
+// Структура блайндов для CreateTournamentPage: генерация пресета из
+// pace + целевой длительности, расписание анте (в т.ч. прогрессивное),
+// перерывы и операции редактора (добавить / удалить / переставить строки).
+//
+// Все функции чистые: принимают список уровней и возвращают новый.
+
+import type { AnteType, BlindLevel, BlindPace } from "../types/poker";
+
+export type BlindPresetInput = {
+  pace: BlindPace;
+  levelDurationMinutes: number;
+  /** Сколько минут должен идти турнир до "финальных" блайндов */
+  targetDurationMinutes: number;
+  startingStack: number;
+  anteType: AnteType;
+  isProgressiveAnte: boolean;
+  /** 0 = без перерывов */
+  breakEveryMinutes: number;
+  breakDurationMinutes: number;
+};
+
+/** Стартовая глубина (в больших блайндах) для каждого темпа. */
+const START_DEPTH_BB: Record<BlindPace, number> = {
+  slow: 200,
+  regular: 100,
+  turbo: 50,
+  hyper: 25,
+};
+
+/** К концу целевой длительности BB = стартовый стек / FINAL_DEPTH_BB. */
+const FINAL_DEPTH_BB = 2;
+
+/** Шаг округления в зависимости от величины — как фишки на реальном столе. */
+function chipStep(value: number): number {
+  if (value < 50) return 5;
+  if (value < 250) return 25;
+  if (value < 1_000) return 50;
+  if (value < 2_500) return 100;
+  if (value < 10_000) return 500;
+  if (value < 25_000) return 1_000;
+  if (value < 100_000) return 5_000;
+  return 10_000;
+}
+
+/** Округляет до "красивого" номинала (25, 50, 100, 500, 1000, ...). */
+export function roundToChipDenomination(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) return 0;
+  const step = chipStep(value);
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+export function isBreakRow(row: BlindLevel): boolean {
+  return row.isBreak === true;
+}
+
+/** Перенумеровывает игровые уровни подряд; перерыв несёт номер предыдущего уровня. */
+export function renumberLevels(rows: BlindLevel[]): BlindLevel[] {
+  let level = 0;
+  return rows.map((row) => {
+    if (isBreakRow(row)) return { ...row, level };
+    level += 1;
+    return { ...row, level };
+  });
+}
+
+/** Длительность всей структуры в минутах (уровни + перерывы). */
+export function structureDurationMinutes(
+  rows: BlindLevel[],
+  levelDurationMinutes: number
+): number {
+  return rows.reduce(
+    (sum, row) =>
+      sum + (isBreakRow(row) ? row.durationMinutes ?? 0 : levelDurationMinutes),
+    0
+  );
+}
+
+/**
+ * Анте уровня по типу анте. Прогрессивное анте растёт от уровня к уровню:
+ * классическое — с 10% до 25% BB, BBA — с половины BB до полного BB.
+ * Непрогрессивное: 12.5% BB / ровно BB.
+ */
+function anteFor(
+  bigBlind: number,
+  index: number,
+  total: number,
+  anteType: AnteType,
+  isProgressiveAnte: boolean
+): number {
+  if (anteType === "none" || bigBlind <= 0) return 0;
+
+  const t = total > 1 ? index / (total - 1) : 1;
+  let ratio: number;
+  if (anteType === "bba") {
+    ratio = isProgressiveAnte ? 0.5 + 0.5 * t : 1;
+  } else {
+    ratio = isProgressiveAnte ? 0.1 + 0.15 * t : 0.125;
+  }
+
+  if (ratio >= 1) return bigBlind;
+  return Math.min(bigBlind, roundToChipDenomination(bigBlind * ratio));
+}
+
+/**
+ * Пересчитывает анте во всех игровых уровнях, не трогая SB/BB.
+ * Используется при смене типа анте / прогрессивности после ручных правок.
+ */
+export function applyAnteSchedule(
+  rows: BlindLevel[],
+  anteType: AnteType,
+  isProgressiveAnte: boolean
+): BlindLevel[] {
+  const total = rows.filter((r) => !isBreakRow(r)).length;
+  let index = 0;
+  return rows.map((row) => {
+    if (isBreakRow(row)) return row;
+    const ante = anteFor(row.bigBlind, index, total, anteType, isProgressiveAnte);
+    index += 1;
+    return { ...row, ante };
+  });
+}
+
+/** Вставляет перерыв каждые breakEveryMinutes игрового времени (не в самом конце). */
+export function insertBreaks(
+  rows: BlindLevel[],
+  levelDurationMinutes: number,
+  breakEveryMinutes: number,
+  breakDurationMinutes: number
+): BlindLevel[] {
+  const levels = rows.filter((r) => !isBreakRow(r));
+  if (breakEveryMinutes <= 0 || breakDurationMinutes <= 0 || levelDurationMinutes <= 0) {
+    return renumberLevels(levels);
+  }
+
+  const result: BlindLevel[] = [];
+  let sinceBreak = 0;
+  levels.forEach((lvl, i) => {
+    result.push(lvl);
+    sinceBreak += levelDurationMinutes;
+    if (sinceBreak >= breakEveryMinutes && i < levels.length - 1) {
+      result.push(makeBreak(breakDurationMinutes));
+      sinceBreak = 0;
+    }
+  });
+  return renumberLevels(result);
+}
+
+/**
+ * Пресет структуры: число уровней — из целевой длительности, стартовый BB —
+ * из глубины для темпа, дальше геометрический рост до стек / 2 к концу.
+ */
+export function generateBlindStructure(input: BlindPresetInput): BlindLevel[] {
+  const duration = Math.max(1, input.levelDurationMinutes);
+  const count = Math.max(1, Math.ceil(Math.max(duration, input.targetDurationMinutes) / duration));
+  const stack = Math.max(1, input.startingStack);
+
+  const startBb = Math.max(10, stack / START_DEPTH_BB[input.pace]);
+  const finalBb = Math.max(startBb, stack / FINAL_DEPTH_BB);
+  const growth = count > 1 ? Math.pow(finalBb / startBb, 1 / (count - 1)) : 1;
+
+  const levels: BlindLevel[] = [];
+  let prevBb = 0;
+  for (let i = 0; i < count; i++) {
+    let sb = roundToChipDenomination((startBb * Math.pow(growth, i)) / 2);
+    // после округления уровни не должны стоять на месте
+    if (sb * 2 <= prevBb) sb = prevBb / 2 + chipStep(prevBb / 2);
+    prevBb = sb * 2;
+    levels.push({ level: i + 1, smallBlind: sb, bigBlind: sb * 2, ante: 0 });
+  }
+
+  const withAntes = applyAnteSchedule(levels, input.anteType, input.isProgressiveAnte);
+  return insertBreaks(
+    withAntes,
+    duration,
+    input.breakEveryMinutes,
+    input.breakDurationMinutes
+  );
+}
+
+function makeBreak(durationMinutes: number): BlindLevel {
+  return {
+    level: 0,
+    smallBlind: 0,
+    bigBlind: 0,
+    ante: 0,
+    isBreak: true,
+    durationMinutes,
+  };
+}
+
+// ----- операции редактора -----
+
+/** Новый уровень после index: BB примерно в 1.5 раза выше предыдущего уровня. */
+export function addLevelAfter(
+  rows: BlindLevel[],
+  index: number,
+  anteType: AnteType
+): BlindLevel[] {
+  const prev = rows
+    .slice(0, index + 1)
+    .reverse()
+    .find((r) => !isBreakRow(r));
+  const sb = prev ? roundToChipDenomination((prev.bigBlind * 1.5) / 2) : 50;
+  const bb = sb * 2;
+  const ante = prev && prev.bigBlind > 0 && anteType !== "none"
+    ? Math.min(bb, roundToChipDenomination((prev.ante / prev.bigBlind) * bb))
+    : 0;
+
+  const next = [...rows];
+  next.splice(index + 1, 0, {
+    level: 0,
+    smallBlind: sb,
+    bigBlind: bb,
+    ante,
+  });
+  return renumberLevels(next);
+}
+
+export function addBreakAfter(
+  rows: BlindLevel[],
+  index: number,
+  durationMinutes: number
+): BlindLevel[] {
+  const next = [...rows];
+  next.splice(index + 1, 0, makeBreak(Math.max(1, durationMinutes)));
+  return renumberLevels(next);
+}
+
+export function removeRow(rows: BlindLevel[], index: number): BlindLevel[] {
+  return renumberLevels(rows.filter((_, i) => i !== index));
+}
+
+export function moveRow(rows: BlindLevel[], index: number, delta: -1 | 1): BlindLevel[] {
+  const target = index + delta;
+  if (target < 0 || target >= rows.length) return rows;
+  const next = [...rows];
+  [next[index], next[target]] = [next[target], next[index]];
+  return renumberLevels(next);
+}
+
+export function updateRow(
+  rows: BlindLevel[],
+  index: number,
+  patch: Partial<Pick<BlindLevel, "smallBlind" | "bigBlind" | "ante" | "durationMinutes">>
+): BlindLevel[] {
+  return rows.map((row, i) => (i === index ? { ...row, ...patch } : row));
+}
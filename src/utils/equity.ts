@@ -0,0 +1,95 @@
+// src/utils/equity.ts
+//
+// Помощник колла: pot odds, нужная эквити и Monte Carlo оценка эквити
+// героя против случайных рук соперников по известному борду.
+//
+// Симуляция тяжёлая — в UI её гоняет workers/equityWorker.ts, здесь
+// только чистые функции.
+
+import type { UICard, UIRank, UISuit } from "../types/poker";
+import { cardKey, handRank } from "./handEvaluator";
+
+export type PotOdds = {
+  callAmount: number;
+  /** Банк, который уже лежит (до колла героя) */
+  pot: number;
+  /** pot : callAmount, например 3 для "3 : 1" */
+  ratio: number;
+  /** Доля эквити, при которой колл в ноль: call / (pot + call) */
+  equityNeeded: number;
+};
+
+export type EquityEstimate = {
+  /** Доля банка героя с учётом сплитов, 0..1 */
+  equity: number;
+  win: number;
+  tie: number;
+  iterations: number;
+};
+
+/** null — колла нет (чек или не ход). */
+export function computePotOdds(callAmount: number, potAfterCall: number): PotOdds | null {
+  if (callAmount <= 0 || potAfterCall <= callAmount) return null;
+  const pot = potAfterCall - callAmount;
+  return { callAmount, pot, ratio: pot / callAmount, equityNeeded: callAmount / potAfterCall };
+}
+
+const RANKS: UIRank[] = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+const SUITS: UISuit[] = ["spades", "hearts", "diamonds", "clubs"];
+
+/**
+ * Эквити героя против `opponents` случайных рук: добираем борд до пяти
+ * карт и раздаём соперникам из оставшейся колоды. Сплит на k игроков
+ * даёт герою 1/k банка.
+ */
+export function estimateEquity(
+  hole: UICard[],
+  board: UICard[],
+  opponents: number,
+  iterations: number,
+  random: () => number = Math.random
+): EquityEstimate | null {
+  if (hole.length !== 2 || hole.some((c) => c.hidden) || opponents < 1 || board.length > 5) {
+    return null;
+  }
+
+  const known = new Set([...hole, ...board].map(cardKey));
+  const deck = RANKS.flatMap((rank) => SUITS.map((suit): UICard => ({ rank, suit }))).filter(
+    (c) => !known.has(cardKey(c))
+  );
+  const missing = 5 - board.length;
+  const draw = missing + opponents * 2;
+  if (draw > deck.length) return null;
+
+  let win = 0;
+  let tie = 0;
+  let share = 0;
+  for (let i = 0; i < iterations; i += 1) {
+    // частичный Фишер–Йейтс: перемешиваем только нужные `draw` карт
+    for (let j = 0; j < draw; j += 1) {
+      const k = j + Math.floor(random() * (deck.length - j));
+      const tmp = deck[j];
+      deck[j] = deck[k];
+      deck[k] = tmp;
+    }
+
+    const fullBoard = missing > 0 ? [...board, ...deck.slice(0, missing)] : board;
+    const hero = handRank([...hole, ...fullBoard]);
+
+    let best = true;
+    let tied = 1;
+    for (let o = 0; o < opponents && best; o += 1) {
+      const at = missing + o * 2;
+      const rank = handRank([deck[at], deck[at + 1], ...fullBoard]);
+      if (rank > hero) best = false;
+      else if (rank === hero) tied += 1;
+    }
+
+    if (!best) continue;
+    if (tied === 1) win += 1;
+    else tie += 1;
+    share += 1 / tied;
+  }
+
+  return { equity: share / iterations, win: win / iterations, tie: tie / iterations, iterations };
+}
@@ -0,0 +1,185 @@
+// src/utils/handEvaluator.test.ts
+//
+// Известные руки: все категории, колесо, кикеры, три пары, два сета,
+// флеш из 6–7 карт, сплиты и точные названия.
+
+import { describe, expect, it } from "vitest";
+import type { UICard, UIRank, UISuit } from "../types/poker";
+import { cardKey, compareHands, evaluateHand, handRank, type HandEvaluation } from "./handEvaluator";
+
+const SUITS: Record<string, UISuit> = { s: "spades", h: "hearts", d: "diamonds", c: "clubs" };
+
+/** "Ah Kd 10c" -> UICard[] */
+function cards(spec: string): UICard[] {
+  return spec.split(" ").map((c) => ({ rank: c.slice(0, -1) as UIRank, suit: SUITS[c.slice(-1)] }));
+}
+
+function evaluate(spec: string): HandEvaluation {
+  const result = evaluateHand(cards(spec));
+  if (!result) throw new Error(`no evaluation for ${spec}`);
+  return result;
+}
+
+/** Лучшая пятёрка в порядке bestFive, в нотации cards(). */
+function bestFive(spec: string): string {
+  return evaluate(spec)
+    .bestFive.map((c) => `${c.rank}${Object.keys(SUITS).find((k) => SUITS[k] === c.suit)}`)
+    .join(" ");
+}
+
+describe("evaluateHand: categories and names", () => {
+  it.each([
+    ["Ah Kh Qh Jh 10h 2c 3d", "StraightFlush", "Royal flush"],
+    ["9s 8s 7s 6s 5s Ad Ac", "StraightFlush", "Straight flush, Nine high"],
+    ["Qc Qd Qh Qs 4d 4c 2h", "FourOfAKind", "Four of a kind, Queens"],
+    ["9h 9d 9c 4h 4d Ks 2c", "FullHouse", "Full house, Nines full of Fours"],
+    ["Ad Jd 8d 6d 2d Kc Qs", "Flush", "Flush, Ace high"],
+    ["10c 9d 8h 7s 6c 2d 2h", "Straight", "Straight, Ten high"],
+    ["7c 7d 7h Ks 9d 4c 2h", "ThreeOfAKind", "Three of a kind, Sevens"],
+    ["Kh Kd 7c 7s 2h 4d 9c", "TwoPair", "Two pair, Kings and Sevens"],
+    ["Jh Jd 8c 6s 4h 3d 2c", "OnePair", "Pair of Jacks"],
+    ["Ah Qd 9c 7s 5h 3d 2c", "HighCard", "High card, Ace"],
+  ])("%s -> %s", (spec, category, name) => {
+    const result = evaluate(spec);
+    expect(result.category).toBe(category);
+    expect(result.name).toBe(name);
+  });
+
+  it("ranks categories in poker order", () => {
+    const ladder = [
+      "Ah Qd 9c 7s 5h 3d 2c",
+      "Jh Jd 8c 6s 4h 3d 2c",
+      "Kh Kd 7c 7s 2h 4d 9c",
+      "7c 7d 7h Ks 9d 4c 2h",
+      "10c 9d 8h 7s 6c 2d 2h",
+      "Ad Jd 8d 6d 2d Kc Qs",
+      "9h 9d 9c 4h 4d Ks 2c",
+      "Qc Qd Qh Qs 4d 4c 2h",
+      "9s 8s 7s 6s 5s Ad Ac",
+      "Ah Kh Qh Jh 10h 2c 3d",
+    ].map(evaluate);
+    for (let i = 1; i < ladder.length; i++) {
+      expect(compareHands(ladder[i], ladder[i - 1])).toBeGreaterThan(0);
+    }
+  });
+
+  it("returns null with fewer than five open cards", () => {
+    expect(evaluateHand(cards("Ah Kh Qh Jh"))).toBeNull();
+    const withHidden = cards("Ah Kh Qh Jh 10h");
+    withHidden[4] = { ...withHidden[4], hidden: true };
+    expect(evaluateHand(withHidden)).toBeNull();
+  });
+});
+
+describe("evaluateHand: wheel", () => {
+  it("plays A-2-3-4-5 as a Five-high straight", () => {
+    const result = evaluate("Ah 2d 3c 4s 5h Kd Kc");
+    expect(result.category).toBe("Straight");
+    expect(result.name).toBe("Straight, Five high");
+    expect(bestFive("Ah 2d 3c 4s 5h Kd Kc")).toBe("5h 4s 3c 2d Ah");
+  });
+
+  it("plays A-2-3-4-5 suited as a Five-high straight flush", () => {
+    const result = evaluate("Ac 2c 3c 4c 5c Kd Qd");
+    expect(result.category).toBe("StraightFlush");
+    expect(result.name).toBe("Straight flush, Five high");
+  });
+
+  it("ranks the wheel below a Six-high straight", () => {
+    expect(compareHands(evaluate("Ah 2d 3c 4s 5h Kd Qc"), evaluate("6h 2d 3c 4s 5h Kd Qc"))).toBeLessThan(0);
+  });
+
+  it("prefers a Six-high straight flush over the wheel in the same suit", () => {
+    expect(evaluate("Ah 2h 3h 4h 5h 6h Kd").name).toBe("Straight flush, Six high");
+  });
+});
+
+describe("evaluateHand: kickers", () => {
+  it("pair: higher kicker wins", () => {
+    const a = evaluate("Ah Ad Kc 8s 6h 3d 2c");
+    const b = evaluate("Ah Ad Qc 8s 6h 3d 2c");
+    expect(compareHands(a, b)).toBeGreaterThan(0);
+    expect(bestFive("Ah Ad Kc 8s 6h 3d 2c")).toBe("Ah Ad Kc 8s 6h");
+  });
+
+  it("two pair: fifth card decides", () => {
+    const a = evaluate("Kh Kd 7c 7s Ah 4d 2c");
+    const b = evaluate("Kh Kd 7c 7s Qh 4d 2c");
+    expect(compareHands(a, b)).toBeGreaterThan(0);
+  });
+
+  it("trips: both kickers count", () => {
+    const a = evaluate("7c 7d 7h As 9d 4c 2h");
+    const b = evaluate("7c 7d 7h As 8d 4c 2h");
+    expect(compareHands(a, b)).toBeGreaterThan(0);
+    expect(bestFive("7c 7d 7h As 9d 4c 2h")).toBe("7c 7d 7h As 9d");
+  });
+
+  it("quads: kicker is the best remaining card, even from a pair or trips", () => {
+    expect(bestFive("Qc Qd Qh Qs 4d 4c Ah")).toBe("Qc Qd Qh Qs Ah");
+    expect(bestFive("Kc Kd Kh Ks 9d 9c 9h")).toBe("Kc Kd Kh Ks 9d");
+    expect(compareHands(evaluate("Qc Qd Qh Qs Ad 4c 2h"), evaluate("Qc Qd Qh Qs Kd 4c 2h"))).toBeGreaterThan(0);
+  });
+});
+
+describe("evaluateHand: multiple groups", () => {
+  it("three pairs: the lowest pair becomes a kicker candidate", () => {
+    const result = evaluate("Ah Ad 7c 7s 3h 3d Kc");
+    expect(result.name).toBe("Two pair, Aces and Sevens");
+    expect(bestFive("Ah Ad 7c 7s 3h 3d Kc")).toBe("Ah Ad 7c 7s Kc");
+    // без старшей одиночки кикером идёт карта младшей пары
+    expect(bestFive("Ah Ad 7c 7s 5h 5d 2c")).toBe("Ah Ad 7c 7s 5h");
+  });
+
+  it("two sets make a full house of the higher set", () => {
+    const result = evaluate("9h 9d 9c 4h 4d 4c Ad");
+    expect(result.category).toBe("FullHouse");
+    expect(result.name).toBe("Full house, Nines full of Fours");
+    expect(bestFive("9h 9d 9c 4h 4d 4c Ad")).toBe("9h 9d 9c 4h 4d");
+  });
+
+  it("full house uses the higher of two available pairs", () => {
+    expect(evaluate("5h 5d 5c Kh Kd 2c 2d").name).toBe("Full house, Fives full of Kings");
+  });
+});
+
+describe("evaluateHand: six- and seven-card flushes", () => {
+  it("six suited cards: best five of the suit", () => {
+    const result = evaluate("2h 3h 5h 9h Jh Qh Kd");
+    expect(result.name).toBe("Flush, Queen high");
+    expect(bestFive("2h 3h 5h 9h Jh Qh Kd")).toBe("Qh Jh 9h 5h 3h");
+  });
+
+  it("seven suited cards: best five of the suit", () => {
+    expect(bestFive("2s 4s 6s 8s 10s Qs As")).toBe("As Qs 10s 8s 6s");
+  });
+
+  it("flush beats a straight on the same board", () => {
+    expect(evaluate("4h 5h 6h 7c 8h Kh 2d").category).toBe("Flush");
+  });
+});
+
+describe("ranking", () => {
+  it("gives equal rank on a split (board plays)", () => {
+    const board = "Ah Kd Qc Js 10h";
+    const a = evaluate(`${board} 2c 3d`);
+    const b = evaluate(`${board} 4s 5s`);
+    expect(a.rank).toBe(b.rank);
+    expect(compareHands(a, b)).toBe(0);
+  });
+
+  it("ignores suits when ranks are equal", () => {
+    expect(evaluate("Ah Ad Kc 8s 6h 3d 2c").rank).toBe(evaluate("As Ac Kh 8d 6c 3h 2s").rank);
+  });
+
+  it("handRank matches evaluateHand().rank", () => {
+    for (const spec of ["Ah Kh Qh Jh 10h 2c 3d", "Kh Kd 7c 7s 2h 4d 9c", "Ah 2d 3c 4s 5h Kd Kc"]) {
+      expect(handRank(cards(spec))).toBe(evaluate(spec).rank);
+    }
+    expect(handRank(cards("Ah Kh"))).toBe(-1);
+  });
+
+  it("cardKey is unique per card", () => {
+    expect(cardKey(cards("10h")[0])).not.toBe(cardKey(cards("10d")[0]));
+  });
+});
@@ -0,0 +1,236 @@
+// src/utils/handEvaluator.ts
+//
+// Оценка руки Texas Hold'em по UICard (5–7 карт): категория, лучшие
+// пять карт, сравнимый rank и читаемое название ("Two pair, Kings and
+// Sevens"). Скрытые карты (hidden) не учитываются.
+//
+// Один проход по картам вместо перебора пятёрок — evaluateHand/handRank
+// зовутся на каждый кадр для руки героя и тысячи раз в оценке эквити.
+
+import type { UICard, UIRank } from "../types/poker";
+
+export type HandCategory =
+  | "HighCard"
+  | "OnePair"
+  | "TwoPair"
+  | "ThreeOfAKind"
+  | "Straight"
+  | "Flush"
+  | "FullHouse"
+  | "FourOfAKind"
+  | "StraightFlush";
+
+const CATEGORY_ORDER: HandCategory[] = [
+  "HighCard",
+  "OnePair",
+  "TwoPair",
+  "ThreeOfAKind",
+  "Straight",
+  "Flush",
+  "FullHouse",
+  "FourOfAKind",
+  "StraightFlush",
+];
+
+export type HandEvaluation = {
+  category: HandCategory;
+  /** Больше = сильнее; равные rank — сплит */
+  rank: number;
+  /** Лучшие пять карт: сначала "значимые" (комбинация), потом кикеры */
+  bestFive: UICard[];
+  name: string;
+};
+
+const RANK_VALUE: Record<UIRank, number> = {
+  "2": 2,
+  "3": 3,
+  "4": 4,
+  "5": 5,
+  "6": 6,
+  "7": 7,
+  "8": 8,
+  "9": 9,
+  "10": 10,
+  J: 11,
+  Q: 12,
+  K: 13,
+  A: 14,
+};
+
+const RANK_NAME: Record<number, [string, string]> = {
+  2: ["Two", "Twos"],
+  3: ["Three", "Threes"],
+  4: ["Four", "Fours"],
+  5: ["Five", "Fives"],
+  6: ["Six", "Sixes"],
+  7: ["Seven", "Sevens"],
+  8: ["Eight", "Eights"],
+  9: ["Nine", "Nines"],
+  10: ["Ten", "Tens"],
+  11: ["Jack", "Jacks"],
+  12: ["Queen", "Queens"],
+  13: ["King", "Kings"],
+  14: ["Ace", "Aces"],
+};
+
+const one = (v: number) => RANK_NAME[v][0];
+const many = (v: number) => RANK_NAME[v][1];
+
+export function cardKey(card: UICard): string {
+  return `${card.rank}${card.suit}`;
+}
+
+type FiveScore = {
+  category: HandCategory;
+  /** Ранги в порядке значимости (для rank и названия) */
+  values: number[];
+  /** Карты в том же порядке */
+  ordered: UICard[];
+};
+
+const valueOf = (c: UICard) => RANK_VALUE[c.rank];
+const byValueDesc = (a: UICard, b: UICard) => valueOf(b) - valueOf(a);
+
+/** Старшая карта стрита среди рангов (по одной карте на ранг) или 0. */
+function straightHigh(byValue: Map<number, UICard>): number {
+  for (let high = 14; high >= 5; high -= 1) {
+    let ok = true;
+    for (let v = high; v > high - 5 && ok; v -= 1) {
+      // туз замыкает колесо A-2-3-4-5 снизу
+      ok = byValue.has(v === 1 ? 14 : v);
+    }
+    if (ok) return high;
+  }
+  return 0;
+}
+
+function straightCards(byValue: Map<number, UICard>, high: number): UICard[] {
+  const cards: UICard[] = [];
+  for (let v = high; v > high - 5; v -= 1) cards.push(byValue.get(v === 1 ? 14 : v) as UICard);
+  return cards;
+}
+
+/**
+ * Лучшая пятёрка из 5–7 карт за один проход, без перебора 21 сочетания:
+ * флеш / стрит по мастям и рангам, остальное — по группам одинаковых рангов.
+ */
+function scoreBest(cards: UICard[]): FiveScore {
+  const sorted = [...cards].sort(byValueDesc);
+
+  const bySuit = new Map<string, UICard[]>();
+  for (const c of sorted) bySuit.set(c.suit, [...(bySuit.get(c.suit) ?? []), c]);
+  const flushCards = [...bySuit.values()].find((cs) => cs.length >= 5) ?? null;
+
+  if (flushCards) {
+    const flushByValue = new Map(flushCards.map((c) => [valueOf(c), c]));
+    const high = straightHigh(flushByValue);
+    if (high > 0) {
+      return { category: "StraightFlush", values: [high], ordered: straightCards(flushByValue, high) };
+    }
+  }
+
+  // группы одинаковых рангов: по размеру, затем по рангу
+  const groups = new Map<number, UICard[]>();
+  for (const c of sorted) groups.set(valueOf(c), [...(groups.get(valueOf(c)) ?? []), c]);
+  const byGroup = [...groups.entries()].sort((a, b) => b[1].length - a[1].length || b[0] - a[0]);
+  const sizes = byGroup.map(([, cs]) => cs.length);
+
+  /** Группы (первые n значимых) + кикеры до пяти карт. */
+  const made = (category: HandCategory, take: number[]): FiveScore => {
+    const ordered: UICard[] = [];
+    const values: number[] = [];
+    byGroup.slice(0, take.length).forEach(([v, cs], i) => {
+      ordered.push(...cs.slice(0, take[i]));
+      values.push(v);
+    });
+    for (const c of sorted) {
+      if (ordered.length >= 5) break;
+      if (!ordered.includes(c)) {
+        ordered.push(c);
+        values.push(valueOf(c));
+      }
+    }
+    return { category, values, ordered };
+  };
+
+  if (sizes[0] === 4) {
+    // кикер — старшая из оставшихся, а не из группы
+    const quads = byGroup[0][1];
+    const kicker = sorted.find((c) => !quads.includes(c)) as UICard;
+    return { category: "FourOfAKind", values: [byGroup[0][0], valueOf(kicker)], ordered: [...quads, kicker] };
+  }
+  if (sizes[0] === 3 && sizes[1] >= 2) {
+    const pair = byGroup[1];
+    return {
+      category: "FullHouse",
+      values: [byGroup[0][0], pair[0]],
+      ordered: [...byGroup[0][1], ...pair[1].slice(0, 2)],
+    };
+  }
+  if (flushCards) {
+    const ordered = flushCards.slice(0, 5);
+    return { category: "Flush", values: ordered.map(valueOf), ordered };
+  }
+
+  const byValue = new Map(byGroup.map(([v, cs]) => [v, cs[0]]));
+  const high = straightHigh(byValue);
+  if (high > 0) return { category: "Straight", values: [high], ordered: straightCards(byValue, high) };
+
+  if (sizes[0] === 3) return made("ThreeOfAKind", [3]);
+  // с тремя парами младшая идёт в кикеры наравне с одиночками
+  if (sizes[0] === 2 && sizes[1] === 2) return made("TwoPair", [2, 2]);
+  if (sizes[0] === 2) return made("OnePair", [2]);
+  return made("HighCard", []);
+}
+
+function rankOf(score: FiveScore): number {
+  let rank = CATEGORY_ORDER.indexOf(score.category);
+  for (let i = 0; i < 5; i += 1) rank = rank * 15 + (score.values[i] ?? 0);
+  return rank;
+}
+
+function nameOf(score: FiveScore): string {
+  const [a, b] = score.values;
+  switch (score.category) {
+    case "StraightFlush":
+      return a === 14 ? "Royal flush" : `Straight flush, ${one(a)} high`;
+    case "FourOfAKind":
+      return `Four of a kind, ${many(a)}`;
+    case "FullHouse":
+      return `Full house, ${many(a)} full of ${many(b)}`;
+    case "Flush":
+      return `Flush, ${one(a)} high`;
+    case "Straight":
+      return `Straight, ${one(a)} high`;
+    case "ThreeOfAKind":
+      return `Three of a kind, ${many(a)}`;
+    case "TwoPair":
+      return `Two pair, ${many(a)} and ${many(b)}`;
+    case "OnePair":
+      return `Pair of ${many(a)}`;
+    case "HighCard":
+      return `High card, ${one(a)}`;
+  }
+}
+
+/** Лучшая 5-карточная рука из 5–7 открытых карт; null — карт меньше пяти. */
+export function evaluateHand(cards: UICard[]): HandEvaluation | null {
+  const open = cards.filter((c) => !c.hidden);
+  if (open.length < 5) return null;
+
+  const best = scoreBest(open);
+  return { category: best.category, rank: rankOf(best), bestFive: best.ordered, name: nameOf(best) };
+}
+
+/**
+ * Только сравнимый rank, без названия — для горячих циклов (Monte Carlo
+ * эквити). Карты не фильтруются по hidden; -1 — карт меньше пяти.
+ */
+export function handRank(cards: UICard[]): number {
+  return cards.length < 5 ? -1 : rankOf(scoreBest(cards));
+}
+
+/** > 0 — рука a сильнее, < 0 — слабее, 0 — сплит. */
+export function compareHands(a: HandEvaluation, b: HandEvaluation): number {
+  return a.rank - b.rank;
+}
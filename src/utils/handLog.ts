@@ -0,0 +1,89 @@
+// src/utils/handLog.ts
+//
+// Лог раздач из потока событий стола (linera/tableEventStream.ts):
+// раздачи по hand_started, внутри — улицы по street_changed.
+
+import type { GqlCard } from "../linera/pokerApi";
+import type { TableEventEntry } from "../linera/tableEventStream";
+
+export const HAND_LOG_MAX_HANDS = 20;
+
+export type HandLogStreet = {
+  street: string;
+  /** Карты, открытые на этой улице */
+  cards: GqlCard[];
+  entries: TableEventEntry[];
+};
+
+export type HandLogHand = {
+  /** id события hand_started (или первого события, если начало не видели) */
+  key: number;
+  startedAt: number;
+  dealerSeat: number | null;
+  /** 0 — блайнды неизвестны (начало раздачи не видели) */
+  bigBlind: number;
+  /** Видели начало раздачи */
+  complete: boolean;
+  /** Банк уже разыгран */
+  finished: boolean;
+  streets: HandLogStreet[];
+};
+
+export function buildHandLog(entries: TableEventEntry[]): HandLogHand[] {
+  const hands: HandLogHand[] = [];
+  let hand: HandLogHand | null = null;
+
+  for (const entry of entries) {
+    const { event } = entry;
+
+    if (event.type === "hand_started") {
+      hand = {
+        key: entry.id,
+        startedAt: entry.at,
+        dealerSeat: event.dealerSeat,
+        bigBlind: event.bigBlind,
+        complete: true,
+        finished: false,
+        streets: [{ street: "PreFlop", cards: [], entries: [] }],
+      };
+      hands.push(hand);
+      continue;
+    }
+
+    if (!hand) {
+      // события до первой увиденной раздачи (середина раздачи, рассадка)
+      hand = {
+        key: entry.id,
+        startedAt: entry.at,
+        dealerSeat: null,
+        bigBlind: 0,
+        complete: false,
+        finished: false,
+        streets: [{ street: "Table", cards: [], entries: [] }],
+      };
+      hands.push(hand);
+    }
+
+    if (event.type === "street_changed") {
+      hand.streets.push({ street: event.street, cards: event.cards, entries: [] });
+      continue;
+    }
+
+    if (event.type === "pot_awarded") hand.finished = true;
+    hand.streets[hand.streets.length - 1].entries.push(entry);
+  }
+
+  return hands;
+}
+
+/** Оставляет события последних maxHands раздач. */
+export function trimToHands(entries: TableEventEntry[], maxHands: number = HAND_LOG_MAX_HANDS): TableEventEntry[] {
+  let seen = 0;
+  for (let i = entries.length - 1; i >= 0; i -= 1) {
+    if (entries[i].event.type === "hand_started") {
+      seen += 1;
+      if (seen === maxHands) return entries.slice(i);
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,123 @@
+// src/utils/legalActions.ts
+//
+// Правила no-limit hold'em для панели действий: по GqlTableView и герою
+// считает, какие действия легальны, сколько коллировать и границы ставки.
+//
+// Все суммы Bet/Raise — "raise to" (итоговая ставка игрока на улице),
+// как их понимает контракт (см. mockEngine.ts).
+//
+// Размер последнего рейза TableView не отдаёт, поэтому берём разрыв между
+// двумя старшими ставками на улице (не меньше big blind). После неполного
+// all-in рейза это чуть занижает минимум — контракт всё равно проверит.
+
+import type { GqlPlayerAtTable, GqlTableView } from "../linera/pokerApi";
+
+export type LegalActions = {
+  /** Сейчас ход героя и раздача идёт */
+  isHeroTurn: boolean;
+  hero: GqlPlayerAtTable | null;
+
+  canFold: boolean;
+  canCheck: boolean;
+  canCall: boolean;
+  canBet: boolean;
+  canRaise: boolean;
+  canAllIn: boolean;
+
+  /** Максимальная ставка на улице */
+  currentBet: number;
+  /** Сколько фишек уйдёт на колл (ограничено стеком) */
+  callAmount: number;
+  /** Размер последнего полного рейза (для min-raise) */
+  lastRaiseSize: number;
+  /** Минимальная сумма Bet / Raise (raise to) */
+  minRaiseTo: number;
+  /** Максимальная сумма Bet / Raise = весь стек (raise to) */
+  maxRaiseTo: number;
+};
+
+const NONE: LegalActions = {
+  isHeroTurn: false,
+  hero: null,
+  canFold: false,
+  canCheck: false,
+  canCall: false,
+  canBet: false,
+  canRaise: false,
+  canAllIn: false,
+  currentBet: 0,
+  callAmount: 0,
+  lastRaiseSize: 0,
+  minRaiseTo: 0,
+  maxRaiseTo: 0,
+};
+
+export function computeLegalActions(
+  table: GqlTableView | null,
+  heroPlayerId: string | undefined
+): LegalActions {
+  if (!table || heroPlayerId === undefined) return NONE;
+
+  const hero = table.players.find((p) => String(p.player_id) === heroPlayerId) ?? null;
+  if (!hero) return NONE;
+
+  const bets = table.players.map((p) => p.current_bet);
+  const currentBet = Math.max(0, ...bets);
+  const secondBet = Math.max(0, ...bets.filter((b) => b < currentBet));
+  const lastRaiseSize = Math.max(table.big_blind, currentBet - secondBet);
+
+  const toCall = Math.max(0, currentBet - hero.current_bet);
+  const maxRaiseTo = hero.stack + hero.current_bet;
+
+  const isHeroTurn =
+    table.hand_in_progress &&
+    table.current_actor_seat === hero.seat_index &&
+    hero.status === "Active" &&
+    hero.stack > 0;
+
+  if (!isHeroTurn) {
+    return {
+      ...NONE,
+      hero,
+      currentBet,
+      callAmount: Math.min(toCall, hero.stack),
+      lastRaiseSize,
+      maxRaiseTo,
+    };
+  }
+
+  const minRaiseTo =
+    currentBet === 0
+      ? Math.min(table.big_blind, maxRaiseTo)
+      : Math.min(currentBet + lastRaiseSize, maxRaiseTo);
+
+  // Bet / Raise меньше минимума возможен только как all-in — его даёт кнопка All-in.
+  const fullRaiseTo = currentBet === 0 ? table.big_blind : currentBet + lastRaiseSize;
+  const canSize = maxRaiseTo > currentBet && maxRaiseTo >= fullRaiseTo;
+
+  return {
+    isHeroTurn,
+    hero,
+    canFold: true,
+    canCheck: toCall === 0,
+    canCall: toCall > 0,
+    canBet: currentBet === 0 && canSize,
+    canRaise: currentBet > 0 && canSize,
+    canAllIn: hero.stack > 0,
+    currentBet,
+    callAmount: Math.min(toCall, hero.stack),
+    lastRaiseSize,
+    minRaiseTo,
+    maxRaiseTo,
+  };
+}
+
+/** Проверка суммы Bet/Raise перед отправкой; null — сумма легальна. */
+export function validateRaiseTo(legal: LegalActions, amount: number): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) return "Enter a bet size";
+  if (amount > legal.maxRaiseTo) return `Max is ${legal.maxRaiseTo.toLocaleString()}`;
+  if (amount < legal.minRaiseTo && amount < legal.maxRaiseTo) {
+    return `Min is ${legal.minRaiseTo.toLocaleString()}`;
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+// src/utils/payouts.test.ts
+//
+// Бонус финального стола: при любой схеме выплат сумма бонусов по
+// строкам равна finalTableBonus.
+
+import { describe, expect, it } from "vitest";
+import { calculatePayouts, type PayoutInput, type PayoutTable } from "./payouts";
+
+function input(patch: Partial<PayoutInput>): PayoutInput {
+  return {
+    fieldSize: 50,
+    prizePool: 10000,
+    payoutType: "topHeavy",
+    minPayoutPlaces: 1,
+    finalTableSize: 9,
+    finalTableBonus: 900,
+    bountyAmount: 0,
+    ...patch,
+  };
+}
+
+const bonusSum = (t: PayoutTable) => t.rows.reduce((sum, r) => sum + r.bonus, 0);
+const amountSum = (t: PayoutTable) =>
+  t.rows.reduce((sum, r) => sum + r.amount * (r.toPlace - r.fromPlace + 1), 0);
+
+describe("calculatePayouts: final-table bonus", () => {
+  it("topHeavy with fewer paid places than the final table pays the whole bonus", () => {
+    const table = calculatePayouts(input({ payoutType: "topHeavy", fieldSize: 50 }));
+    expect(table.paidPlaces).toBe(6);
+    expect(bonusSum(table)).toBe(900);
+    expect(table.rows.every((r) => r.bonus === 150)).toBe(true);
+  });
+
+  it("flat pays the bonus only to final-table places", () => {
+    const table = calculatePayouts(input({ payoutType: "flat", fieldSize: 100 }));
+    expect(table.paidPlaces).toBe(20);
+    expect(bonusSum(table)).toBe(900);
+    for (const row of table.rows) {
+      expect(row.bonus).toBe(row.fromPlace <= 9 ? 100 : 0);
+    }
+  });
+
+  it("satellite band wider than the final table gets bonus for its final-table places only", () => {
+    const table = calculatePayouts(
+      input({ payoutType: "satellite", fieldSize: 100, minPayoutPlaces: 20 })
+    );
+    expect(table.rows[0]).toMatchObject({ fromPlace: 1, toPlace: 20, isSeat: true });
+    expect(bonusSum(table)).toBe(900);
+  });
+
+  it("rounding remainder goes to the first row", () => {
+    const table = calculatePayouts(input({ payoutType: "flat", fieldSize: 100, finalTableBonus: 1000 }));
+    expect(bonusSum(table)).toBe(1000);
+    expect(table.rows[0].bonus).toBe(111 + 1);
+  });
+
+  it("keeps prize amounts summing to the pool", () => {
+    for (const payoutType of ["topHeavy", "flat", "satellite"] as const) {
+      const table = calculatePayouts(input({ payoutType, fieldSize: 37, prizePool: 10003, minPayoutPlaces: 10 }));
+      expect(amountSum(table)).toBe(10003);
+    }
+  });
+
+  it("no final-table bonus -> no bonus on any row", () => {
+    const table = calculatePayouts(input({ finalTableBonus: 0 }));
+    expect(bonusSum(table)).toBe(0);
+  });
+});
@@ -0,0 +1,227 @@
+// src/utils/payouts.ts
+//
+// Расчёт выплат турнира: размер поля + призовой фонд + PayoutType ->
+// таблица мест с процентами и суммами.
+//
+// - topHeavy: ~12% поля в деньгах, крутая кривая (1 / place);
+// - flat: ~20% поля, пологая кривая (1 / place^0.6);
+// - satellite: minPayoutPlaces равных "сидений" + остаток следующему месту.
+//
+// Места за финальным столом объединяются в полосы по PAYOUT_BAND_SIZE
+// с равной выплатой внутри полосы.
+
+import type { PayoutType, TournamentConfig } from "../types/poker";
+
+export type PayoutInput = {
+  fieldSize: number;
+  prizePool: number;
+  payoutType: PayoutType;
+  minPayoutPlaces: number;
+  finalTableSize: number;
+  /** Бонус финальному столу (делится поровну); 0 = нет */
+  finalTableBonus: number;
+  /** Баунти за каждого выбитого игрока; 0 = не баунти-турнир */
+  bountyAmount: number;
+};
+
+export type PayoutRow = {
+  fromPlace: number;
+  toPlace: number;
+  /** Процент призового фонда на одно место в полосе */
+  percent: number;
+  /** Сумма на одно место (без бонуса) */
+  amount: number;
+  /**
+   * Бонус финального стола на всю полосу: только её места до
+   * finalTableSize (в сателлите полоса 1..paid шире финального стола)
+   */
+  bonus: number;
+  /** Для сателлита: место — это "сиденье" в целевом турнире */
+  isSeat: boolean;
+};
+
+export type PayoutTable = {
+  rows: PayoutRow[];
+  paidPlaces: number;
+  prizePool: number;
+  /** Суммарный баунти-фонд (bountyAmount * fieldSize), вне призового фонда */
+  bountyPool: number;
+};
+
+const PAID_SHARE: Record<Exclude<PayoutType, "satellite">, number> = {
+  topHeavy: 0.12,
+  flat: 0.2,
+};
+
+const CURVE_EXPONENT: Record<Exclude<PayoutType, "satellite">, number> = {
+  topHeavy: 1,
+  flat: 0.6,
+};
+
+const PAYOUT_BAND_SIZE = 3;
+
+function toCount(value: number, fallback: number): number {
+  return Number.isFinite(value) ? Math.max(0, Math.floor(value)) : fallback;
+}
+
+/** Сколько мест в деньгах для данного поля. */
+export function paidPlacesFor(
+  fieldSize: number,
+  payoutType: PayoutType,
+  minPayoutPlaces: number
+): number {
+  const field = toCount(fieldSize, 0);
+  if (field === 0) return 0;
+  const min = Math.max(1, toCount(minPayoutPlaces, 1));
+  if (payoutType === "satellite") return Math.min(field, min);
+  return Math.min(field, Math.max(min, Math.ceil(field * PAID_SHARE[payoutType])));
+}
+
+/** Полосы мест: финальный стол поштучно, дальше по PAYOUT_BAND_SIZE. */
+function placeBands(paid: number, finalTableSize: number): Array<[number, number]> {
+  const bands: Array<[number, number]> = [];
+  let place = 1;
+  while (place <= paid) {
+    const width = place <= finalTableSize ? 1 : PAYOUT_BAND_SIZE;
+    const to = Math.min(paid, place + width - 1);
+    bands.push([place, to]);
+    place = to + 1;
+  }
+  return bands;
+}
+
+function curveRows(input: PayoutInput, paid: number, pool: number): PayoutRow[] {
+  const type = input.payoutType === "flat" ? "flat" : "topHeavy";
+  const exp = CURVE_EXPONENT[type];
+  const weight = (place: number) => 1 / Math.pow(place, exp);
+
+  const bands = placeBands(paid, Math.max(1, toCount(input.finalTableSize, 1)));
+  // вес полосы — средний вес её мест, чтобы внутри полосы платили поровну
+  const bandWeights = bands.map(([from, to]) => {
+    let sum = 0;
+    for (let p = from; p <= to; p++) sum += weight(p);
+    return sum / (to - from + 1);
+  });
+  const total = bands.reduce(
+    (sum, [from, to], i) => sum + bandWeights[i] * (to - from + 1),
+    0
+  );
+
+  const rows = bands.map(([from, to], i) => {
+    const share = bandWeights[i] / total;
+    return {
+      fromPlace: from,
+      toPlace: to,
+      percent: share * 100,
+      amount: Math.floor(pool * share),
+      bonus: 0,
+      isSeat: false,
+    };
+  });
+
+  // копейки от округления — победителю, чтобы сумма сходилась с фондом
+  const distributed = rows.reduce((sum, r) => sum + r.amount * (r.toPlace - r.fromPlace + 1), 0);
+  if (rows.length > 0) rows[0].amount += pool - distributed;
+  return rows;
+}
+
+function satelliteRows(paid: number, pool: number, field: number): PayoutRow[] {
+  if (paid === 0) return [];
+  const seatValue = Math.floor(pool / paid);
+  const remainder = pool - seatValue * paid;
+
+  const rows: PayoutRow[] = [
+    {
+      fromPlace: 1,
+      toPlace: paid,
+      percent: pool > 0 ? (seatValue / pool) * 100 : 100 / paid,
+      amount: seatValue,
+      bonus: 0,
+      isSeat: true,
+    },
+  ];
+  if (remainder === 0) return rows;
+
+  // остаток — следующему за сиденьями месту; если все места — сиденья,
+  // то первому, чтобы сумма всё равно сходилась с фондом
+  if (paid < field) {
+    rows.push({
+      fromPlace: paid + 1,
+      toPlace: paid + 1,
+      percent: (remainder / pool) * 100,
+      amount: remainder,
+      bonus: 0,
+      isSeat: false,
+    });
+    return rows;
+  }
+
+  const first: PayoutRow = {
+    ...rows[0],
+    toPlace: 1,
+    percent: ((seatValue + remainder) / pool) * 100,
+    amount: seatValue + remainder,
+  };
+  return [first, { ...rows[0], fromPlace: 2 }];
+}
+
+export function calculatePayouts(input: PayoutInput): PayoutTable {
+  const field = toCount(input.fieldSize, 0);
+  const pool = toCount(input.prizePool, 0);
+  const paid = paidPlacesFor(field, input.payoutType, input.minPayoutPlaces);
+
+  const rows =
+    input.payoutType === "satellite"
+      ? satelliteRows(paid, pool, field)
+      : curveRows(input, paid, pool);
+
+  const ftSize = Math.min(field, Math.max(1, toCount(input.finalTableSize, 1)));
+  const ftBonus = toCount(input.finalTableBonus, 0);
+  // делим между оплачиваемыми местами финального стола — если платят
+  // меньше мест, чем за ним сидит, бонус всё равно раздаётся целиком
+  const bonusPlaces = Math.min(ftSize, paid);
+  if (ftBonus > 0 && bonusPlaces > 0 && rows.length > 0) {
+    const perPlace = Math.floor(ftBonus / bonusPlaces);
+    let given = 0;
+    for (const row of rows) {
+      const places = Math.max(0, Math.min(row.toPlace, bonusPlaces) - row.fromPlace + 1);
+      row.bonus = places * perPlace;
+      given += row.bonus;
+    }
+    // остаток от округления — победителю, чтобы сумма сходилась с бонусом
+    rows[0].bonus += ftBonus - given;
+  }
+
+  return {
+    rows,
+    paidPlaces: rows.length > 0 ? rows[rows.length - 1].toPlace : 0,
+    prizePool: pool,
+    bountyPool: toCount(input.bountyAmount, 0) * field,
+  };
+}
+
+/** PayoutInput из конфига турнира для заданного размера поля. */
+export function payoutInputFromConfig(
+  config: Pick<
+    TournamentConfig,
+    | "payoutType"
+    | "minPayoutPlaces"
+    | "guaranteedPrizePool"
+    | "tableSize"
+    | "isBounty"
+    | "bountyAmount"
+    | "hasFinalTableBonus"
+    | "finalTableBonus"
+  >,
+  fieldSize: number
+): PayoutInput {
+  return {
+    fieldSize,
+    prizePool: config.guaranteedPrizePool,
+    payoutType: config.payoutType,
+    minPayoutPlaces: config.minPayoutPlaces,
+    finalTableSize: config.tableSize,
+    finalTableBonus: config.hasFinalTableBonus ? config.finalTableBonus : 0,
+    bountyAmount: config.isBounty ? config.bountyAmount : 0,
+  };
+}
@@ -0,0 +1,56 @@
+// src/utils/seatLayout.ts
+//
+// Геометрия мест вокруг овального стола. Каждое место 0..maxSeats-1 стоит
+// в фиксированной точке эллипса, места идут по часовой стрелке, а весь
+// стол повёрнут так, чтобы герой сидел внизу по центру (без героя —
+// место 0).
+
+export type SeatPosition = {
+  seat: number;
+  /** Центр места в процентах от контейнера */
+  xPct: number;
+  yPct: number;
+};
+
+// Радиусы эллипса мест (в % от контейнера): чуть шире фетра,
+// чтобы карточки игроков не налезали на борд.
+const RADIUS_X_PCT = 42;
+const RADIUS_Y_PCT = 38;
+
+/**
+ * Точка на луче "центр стола -> место": t = 0 — центр, t = 1 — само место.
+ * lateralPct сдвигает точку поперёк луча (по часовой), чтобы фишки и
+ * баттон одного места не накладывались.
+ */
+export function towardCenter(
+  pos: SeatPosition,
+  t: number,
+  lateralPct = 0
+): { xPct: number; yPct: number } {
+  const dx = pos.xPct - 50;
+  const dy = pos.yPct - 50;
+  const len = Math.hypot(dx, dy) || 1;
+  return {
+    xPct: 50 + dx * t + (-dy / len) * lateralPct,
+    yPct: 50 + dy * t + (dx / len) * lateralPct,
+  };
+}
+
+export function seatPositions(
+  maxSeats: number,
+  bottomSeat: number | null
+): SeatPosition[] {
+  const n = Math.max(2, Math.floor(maxSeats));
+  const anchor = bottomSeat !== null && bottomSeat >= 0 ? bottomSeat % n : 0;
+
+  return Array.from({ length: n }, (_, seat) => {
+    const slot = (seat - anchor + n) % n;
+    // экранные координаты (y вниз): 90° — низ, рост угла — по часовой
+    const angle = Math.PI / 2 + (slot * 2 * Math.PI) / n;
+    return {
+      seat,
+      xPct: 50 + RADIUS_X_PCT * Math.cos(angle),
+      yPct: 50 + RADIUS_Y_PCT * Math.sin(angle),
+    };
+  });
+}
@@ -0,0 +1,54 @@
+// src/utils/showdown.ts
+//
+// Вскрытие для OvalTable: названия рук, победители и их пять карт
+// (для подсветки на борде и в руке).
+//
+// Победителей берём из pot_awarded (linera/tableEventStream.ts) — это
+// учитывает сайд-поты. Если событий нет (открыли стол уже после
+// вскрытия), побеждает лучшая рука.
+
+import type { Player, UICard } from "../types/poker";
+import { cardKey, evaluateHand, type HandEvaluation } from "./handEvaluator";
+
+export type PotAward = {
+  playerId: string;
+  seat: number;
+  amount: number;
+};
+
+export type ShowdownView = {
+  /** Оценка руки по Player.id — для открытых рук */
+  hands: Record<string, HandEvaluation>;
+  winners: string[];
+  /** cardKey() пяти карт победителей */
+  winningCards: Set<string>;
+};
+
+export function buildShowdown(
+  players: Player[],
+  board: UICard[],
+  awards: PotAward[]
+): ShowdownView | null {
+  const hands: Record<string, HandEvaluation> = {};
+  for (const p of players) {
+    if (p.isFolded || !p.cards || p.cards.some((c) => c.hidden)) continue;
+    const evaluation = evaluateHand([...p.cards, ...board]);
+    if (evaluation) hands[p.id] = evaluation;
+  }
+
+  const ids = Object.keys(hands);
+  if (ids.length === 0) return null;
+
+  let winners = awards.map((a) => a.playerId).filter((id) => id in hands);
+  if (winners.length === 0) {
+    const best = Math.max(...ids.map((id) => hands[id].rank));
+    winners = ids.filter((id) => hands[id].rank === best);
+  }
+
+  const winningCards = new Set<string>();
+  for (const id of winners) {
+    for (const c of hands[id].bestFive) winningCards.add(cardKey(c));
+  }
+
+  return { hands, winners, winningCards };
+}
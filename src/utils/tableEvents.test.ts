@@ -0,0 +1,229 @@
+// src/utils/tableEvents.test.ts
+//
+// diffTableViews на фиксированных парах снимков: что видно в логе стола
+// между двумя опросами цепочки.
+
+import { describe, expect, it } from "vitest";
+import type { GqlCard, GqlPlayerAtTable, GqlTableView } from "../linera/pokerApi";
+import { describeTableEvent, diffTableViews } from "./tableEvents";
+
+const RANKS: Record<string, string> = {
+  "2": "Two", "3": "Three", "4": "Four", "5": "Five", "6": "Six", "7": "Seven", "8": "Eight",
+  "9": "Nine", "10": "Ten", J: "Jack", Q: "Queen", K: "King", A: "Ace",
+};
+const SUITS: Record<string, string> = { s: "Spades", h: "Hearts", d: "Diamonds", c: "Clubs" };
+
+/** "Ah Kd 10c" -> карты в формате GraphQL. */
+function cards(s: string): GqlCard[] {
+  return s.split(" ").map((c) => ({ rank: RANKS[c.slice(0, -1)], suit: SUITS[c.slice(-1)] }));
+}
+
+const NAMES = ["Alice", "Bob", "Carol", "Dave"];
+
+function player(seat: number, stack: number, patch: Partial<GqlPlayerAtTable> = {}): GqlPlayerAtTable {
+  return {
+    player_id: seat + 1,
+    display_name: NAMES[seat],
+    seat_index: seat,
+    stack,
+    current_bet: 0,
+    status: "Active",
+    hole_cards: null,
+    ...patch,
+  };
+}
+
+function table(players: GqlPlayerAtTable[], patch: Partial<GqlTableView> = {}): GqlTableView {
+  return {
+    table_id: "1",
+    name: "Test table",
+    max_seats: 6,
+    small_blind: 10,
+    big_blind: 20,
+    ante: 0,
+    street: "PreFlop",
+    dealer_button: 0,
+    total_pot: 0,
+    board: [],
+    players,
+    hand_in_progress: true,
+    current_actor_seat: null,
+    ...patch,
+  };
+}
+
+const log = (prev: GqlTableView | null, next: GqlTableView) =>
+  diffTableViews(prev, next).map(describeTableEvent);
+
+const FLOP = cards("7h 8d Ks");
+
+/** Префлоп трёх игроков: баттон Alice, блайнды Bob и Carol, ход Alice. */
+const preflop = table(
+  [player(0, 1000), player(1, 990, { current_bet: 10 }), player(2, 980, { current_bet: 20 })],
+  { current_actor_seat: 0 }
+);
+
+describe("diffTableViews", () => {
+  it("has no history for the first snapshot or another table", () => {
+    expect(diffTableViews(null, preflop)).toEqual([]);
+    expect(diffTableViews(table([], { table_id: "2" }), preflop)).toEqual([]);
+  });
+
+  it("reports a limped hand step by step", () => {
+    const idle = table([player(0, 1000), player(1, 1000), player(2, 1000)], {
+      street: "Showdown",
+      dealer_button: 2,
+      hand_in_progress: false,
+    });
+    const limp = table(
+      [player(0, 980, { current_bet: 20 }), player(1, 990, { current_bet: 10 }), player(2, 980, { current_bet: 20 })],
+      { current_actor_seat: 1 }
+    );
+    const complete = table(
+      [player(0, 980, { current_bet: 20 }), player(1, 980, { current_bet: 20 }), player(2, 980, { current_bet: 20 })],
+      { current_actor_seat: 2 }
+    );
+    const flop = table([player(0, 980), player(1, 980), player(2, 980)], {
+      street: "Flop",
+      board: FLOP,
+      total_pot: 60,
+      current_actor_seat: 1,
+    });
+
+    expect(log(idle, preflop)).toEqual([
+      "New hand · button on seat 1",
+      "Bob posted small blind 10",
+      "Carol posted big blind 20",
+    ]);
+    expect(log(preflop, limp)).toEqual(["Alice called 20"]);
+    expect(log(limp, complete)).toEqual(["Bob called 10"]);
+    expect(log(complete, flop)).toEqual(["Carol checked", "Flop: 7♥ 8♦ K♠"]);
+  });
+
+  it("reports a raise and the call that closes the street", () => {
+    const raise = table(
+      [player(0, 940, { current_bet: 60 }), player(1, 990, { current_bet: 10 }), player(2, 980, { current_bet: 20 })],
+      { current_actor_seat: 1 }
+    );
+    const fold = table(
+      [
+        player(0, 940, { current_bet: 60 }),
+        player(1, 990, { current_bet: 10, status: "Folded" }),
+        player(2, 980, { current_bet: 20 }),
+      ],
+      { current_actor_seat: 2 }
+    );
+    const flop = table([player(0, 940), player(1, 990, { status: "Folded" }), player(2, 940)], {
+      street: "Flop",
+      board: FLOP,
+      total_pot: 130,
+      current_actor_seat: 2,
+    });
+
+    expect(diffTableViews(preflop, raise)).toEqual([
+      { type: "player_action", seat: 0, playerId: 1, name: "Alice", action: "raise", amount: 60, betTo: 60 },
+    ]);
+    expect(log(preflop, raise)).toEqual(["Alice raised to 60"]);
+    expect(log(raise, fold)).toEqual(["Bob folded"]);
+    expect(log(fold, flop)).toEqual(["Carol called 40", "Flop: 7♥ 8♦ K♠"]);
+  });
+
+  describe("several actions between two snapshots", () => {
+    const fourHanded = (bets: number[], actor: number) =>
+      table(
+        bets.map((bet, seat) => player(seat, 980 - bet, { current_bet: bet })),
+        { street: "Flop", board: FLOP, total_pot: 80, current_actor_seat: actor }
+      );
+
+    it("restores checks of the players the turn passed through", () => {
+      expect(log(fourHanded([0, 0, 0, 0], 1), fourHanded([0, 0, 0, 50], 0))).toEqual([
+        "Bob checked",
+        "Carol checked",
+        "Dave bet 50",
+      ]);
+    });
+
+    it("restores bet, raise and call in seat order", () => {
+      expect(log(fourHanded([0, 0, 0, 0], 1), fourHanded([0, 100, 300, 300], 0))).toEqual([
+        "Bob bet 100",
+        "Carol raised to 300",
+        "Dave called 300",
+      ]);
+    });
+  });
+
+  it("reports a showdown and then the next hand", () => {
+    const river = table(
+      [
+        player(0, 840, { current_bet: 100 }),
+        player(1, 980, { status: "Folded" }),
+        player(2, 940),
+      ],
+      { street: "River", board: cards("7h 8d Ks 2c 3d"), total_pot: 140, current_actor_seat: 2 }
+    );
+    const showdown = table(
+      [
+        player(0, 1180, { hole_cards: cards("As Ah") }),
+        player(1, 980, { status: "Folded" }),
+        player(2, 840, { hole_cards: cards("Qh Qd") }),
+      ],
+      { street: "Showdown", board: river.board, hand_in_progress: false }
+    );
+    const nextHand = table(
+      [
+        player(0, 1160, { current_bet: 20 }),
+        player(1, 980),
+        player(2, 830, { current_bet: 10 }),
+      ],
+      { dealer_button: 1, current_actor_seat: 1 }
+    );
+
+    expect(log(river, showdown)).toEqual([
+      "Carol called 100",
+      "Showdown",
+      "Alice shows A♠ A♥",
+      "Carol shows Q♥ Q♦",
+      "Alice won 340",
+    ]);
+    expect(log(showdown, nextHand)).toEqual([
+      "New hand · button on seat 2",
+      "Carol posted small blind 10",
+      "Alice posted big blind 20",
+    ]);
+  });
+
+  it("awards the main pot and the side pot to different players", () => {
+    // Alice all-in на 200 префлоп; Bob и Carol доиграли сайд-пот до ривера
+    const river = table(
+      [
+        player(0, 0, { status: "AllIn" }),
+        player(1, 200, { current_bet: 150 }),
+        player(2, 350),
+      ],
+      { street: "River", board: cards("7h 8d Ks 2c 3d"), total_pot: 900, current_actor_seat: 2 }
+    );
+    const showdown = table(
+      [
+        player(0, 600, { status: "AllIn", hole_cards: cards("Ks Kd") }),
+        player(1, 800, { hole_cards: cards("8s 8h") }),
+        player(2, 200, { hole_cards: cards("Ac Qc") }),
+      ],
+      { street: "Showdown", board: river.board, hand_in_progress: false }
+    );
+
+    const events = diffTableViews(river, showdown);
+    expect(events.filter((e) => e.type === "pot_awarded")).toEqual([
+      { type: "pot_awarded", seat: 0, playerId: 1, name: "Alice", amount: 600 },
+      { type: "pot_awarded", seat: 1, playerId: 2, name: "Bob", amount: 600 },
+    ]);
+    expect(events.map(describeTableEvent)).toEqual([
+      "Carol called 150",
+      "Showdown",
+      "Alice shows K♠ K♦",
+      "Bob shows 8♠ 8♥",
+      "Carol shows A♣ Q♣",
+      "Alice won 600",
+      "Bob won 600",
+    ]);
+  });
+});
@@ -0,0 +1,429 @@
+// src/utils/tableEvents.ts
+//
+// Дифф двух последовательных GqlTableView -> типизированные события
+// ("Player 3 raised to 1,200", "Flop: 7h 8d Ks", ...).
+//
+// Цепочка отдаёт только снимки, поэтому события восстанавливаются:
+// - фишки, вложенные игроком между снимками = prev.stack - next.stack;
+//   при смене улицы ставки уже собраны в банк, итог прошлой улицы =
+//   prev.current_bet + вложенное - ставка на новой улице;
+// - порядок действий — по местам, начиная с prev.current_actor_seat;
+// - check виден только у игроков, через которых точно прошёл ход.
+// Если между снимками прошло много событий (polling, вкладка спала),
+// часть из них схлопывается или теряется — для лога и анимаций этого
+// достаточно, для учёта фишек используйте сами снимки.
+
+import type { GqlCard, GqlPlayerAtTable, GqlTableView } from "../linera/pokerApi";
+import { mapRank, mapSuit } from "../mappers/onchainToUi";
+import { getSuitSymbol } from "./cardUtils";
+
+export type PlayerActionEventKind = "fold" | "check" | "call" | "bet" | "raise" | "all_in";
+
+type SeatRef = {
+  seat: number;
+  playerId: number;
+  name: string;
+};
+
+export type TableEvent =
+  | { type: "hand_started"; dealerSeat: number | null; smallBlind: number; bigBlind: number }
+  | (SeatRef & { type: "blind_posted"; blind: "small" | "big"; amount: number })
+  | (SeatRef & {
+      type: "player_action";
+      action: PlayerActionEventKind;
+      /** Фишки, вложенные этим действием */
+      amount: number;
+      /** Ставка игрока на улице после действия (для bet / raise — "raise to") */
+      betTo: number;
+    })
+  | { type: "street_changed"; street: string; cards: GqlCard[]; board: GqlCard[] }
+  | (SeatRef & { type: "cards_revealed"; cards: GqlCard[] })
+  | (SeatRef & { type: "pot_awarded"; amount: number })
+  | (SeatRef & { type: "player_seated"; stack: number })
+  | (SeatRef & { type: "player_left" });
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function ref(p: GqlPlayerAtTable): SeatRef {
+  return { seat: p.seat_index, playerId: p.player_id, name: p.display_name };
+}
+
+function inHand(p: GqlPlayerAtTable): boolean {
+  return p.status === "Active" || p.status === "AllIn";
+}
+
+/** Игроки по кругу, начиная с места fromSeat (или первого после него). */
+function seatOrder(players: GqlPlayerAtTable[], fromSeat: number | null): GqlPlayerAtTable[] {
+  const sorted = [...players].sort((a, b) => a.seat_index - b.seat_index);
+  if (fromSeat === null) return sorted;
+  const start = sorted.findIndex((p) => p.seat_index >= fromSeat);
+  return start <= 0 ? sorted : [...sorted.slice(start), ...sorted.slice(0, start)];
+}
+
+function nextSeatAfter(players: GqlPlayerAtTable[], seat: number | null): number | null {
+  const order = seatOrder(players, seat === null ? null : seat + 1);
+  return order[0]?.seat_index ?? null;
+}
+
+function isNewHand(prev: GqlTableView, next: GqlTableView): boolean {
+  if (!next.hand_in_progress) return false;
+  if (!prev.hand_in_progress) return true;
+  return (
+    next.board.length < prev.board.length ||
+    next.dealer_button !== prev.dealer_button ||
+    (prev.street !== "PreFlop" && next.street === "PreFlop")
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Betting round
+// -----------------------------------------------------------------------------
+
+type Move = {
+  /** Итоговая ставка на улице prev после всех действий между снимками */
+  finalBet: number;
+  folded: boolean;
+  allIn: boolean;
+  /** Ход точно проходил через игрока — неизменная ставка = check */
+  mayHaveChecked: boolean;
+};
+
+/** Действия на улице снимка prev по итоговым ставкам игроков. */
+function bettingRound(prev: GqlTableView, moves: Map<number, Move>): TableEvent[] {
+  const events: TableEvent[] = [];
+  let maxBet = Math.max(0, ...prev.players.map((p) => p.current_bet));
+
+  const from = prev.current_actor_seat ?? nextSeatAfter(prev.players, prev.dealer_button);
+  for (const p of seatOrder(prev.players, from)) {
+    const move = moves.get(p.player_id);
+    if (!move || !inHand(p)) continue;
+
+    if (move.folded) {
+      events.push({ ...ref(p), type: "player_action", action: "fold", amount: 0, betTo: p.current_bet });
+      continue;
+    }
+
+    if (move.finalBet > p.current_bet) {
+      const action: PlayerActionEventKind = move.allIn
+        ? "all_in"
+        : move.finalBet > maxBet
+          ? maxBet === 0
+            ? "bet"
+            : "raise"
+          : "call";
+      events.push({
+        ...ref(p),
+        type: "player_action",
+        action,
+        amount: move.finalBet - p.current_bet,
+        betTo: move.finalBet,
+      });
+      maxBet = Math.max(maxBet, move.finalBet);
+      continue;
+    }
+
+    if (move.mayHaveChecked && p.status === "Active" && p.current_bet >= maxBet) {
+      events.push({ ...ref(p), type: "player_action", action: "check", amount: 0, betTo: p.current_bet });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Кто мог чекнуть, если улица закрылась: всегда prev-актёр (например,
+ * опция big blind'а), а при улице без ставок — все от него до баттона.
+ */
+function closingCheckers(prev: GqlTableView, streetMax: number): Set<number> {
+  const ids = new Set<number>();
+  if (prev.current_actor_seat === null) return ids;
+
+  for (const p of seatOrder(prev.players, prev.current_actor_seat)) {
+    if (p.seat_index === prev.current_actor_seat) {
+      ids.add(p.player_id);
+    } else if (streetMax === 0 && prev.street !== "PreFlop") {
+      ids.add(p.player_id);
+    } else {
+      break;
+    }
+    if (p.seat_index === prev.dealer_button) break;
+  }
+  return ids;
+}
+
+function streetChange(prev: GqlTableView, next: GqlTableView): TableEvent | null {
+  if (next.street === prev.street && next.board.length === prev.board.length) return null;
+  return {
+    type: "street_changed",
+    street: next.street,
+    cards: next.board.slice(prev.board.length),
+    board: next.board,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Diff
+// -----------------------------------------------------------------------------
+
+/** Продолжение той же раздачи: действия, при смене улицы — и на новой. */
+function diffSameHand(prev: GqlTableView, next: GqlTableView): TableEvent[] {
+  const byId = new Map(next.players.map((p) => [p.player_id, p]));
+  const change = streetChange(prev, next);
+
+  const nextOrder = seatOrder(prev.players, prev.current_actor_seat);
+  const nextActorIdx = nextOrder.findIndex((p) => p.seat_index === next.current_actor_seat);
+
+  const moves = new Map<number, Move>();
+  for (const p of prev.players) {
+    const n = byId.get(p.player_id);
+    if (!n) continue;
+    const put = p.stack - n.stack;
+    moves.set(p.player_id, {
+      finalBet: p.current_bet + put - (change ? n.current_bet : 0),
+      folded: p.status !== "Folded" && n.status === "Folded",
+      // all-in на новой улице разберёт проход по ней ниже
+      allIn: n.stack === 0 && put > 0 && (!change || n.current_bet === 0),
+      mayHaveChecked: false,
+    });
+  }
+
+  const streetMax = Math.max(0, ...[...moves.values()].map((m) => m.finalBet));
+  const checkers = change ? closingCheckers(prev, streetMax) : null;
+  // ход вернулся к тому же игроку (check, check, bet) — круг пройден целиком
+  const fullCircle =
+    nextActorIdx === 0 &&
+    [...moves.entries()].some(([id, m]) => {
+      const p = prev.players.find((x) => x.player_id === id);
+      return m.folded || (p !== undefined && m.finalBet !== p.current_bet);
+    });
+  nextOrder.forEach((p, idx) => {
+    const move = moves.get(p.player_id);
+    if (!move) return;
+    move.mayHaveChecked = checkers
+      ? checkers.has(p.player_id)
+      : fullCircle || (nextActorIdx > 0 && idx < nextActorIdx);
+  });
+
+  const events = bettingRound(prev, moves);
+  if (!change) return events;
+
+  events.push(change);
+
+  // Ставки уже на новой улице: считаем от "пустой" улицы. Фолды выше
+  // отнесены к прошлой улице, поэтому статусы берём как есть.
+  if (next.players.some((p) => p.current_bet > 0)) {
+    const canAct = next.players.filter(
+      (p) => p.status === "Active" || (p.status === "AllIn" && p.current_bet > 0)
+    );
+    const baseline: GqlTableView = {
+      ...next,
+      players: next.players.map((p) => ({ ...p, stack: p.stack + p.current_bet, current_bet: 0 })),
+      current_actor_seat: nextSeatAfter(canAct, next.dealer_button),
+    };
+    events.push(...diffSameHand(baseline, next));
+  }
+
+  return events;
+}
+
+/** Раздача prev закончилась к снимку next: последние действия и выигрыши. */
+function diffHandEnd(prev: GqlTableView, next: GqlTableView, nextIsNewHand: boolean): TableEvent[] {
+  const byId = new Map(next.players.map((p) => [p.player_id, p]));
+  // в новой раздаче блайнды уже сняты со стека — возвращаем их
+  const endStack = (n: GqlPlayerAtTable) => (nextIsNewHand ? n.stack + n.current_bet : n.stack);
+
+  const winners = prev.players.filter((p) => {
+    const n = byId.get(p.player_id);
+    return n !== undefined && inHand(p) && endStack(n) > p.stack;
+  });
+  const folded = (p: GqlPlayerAtTable) =>
+    !nextIsNewHand && inHand(p) && byId.get(p.player_id)?.status === "Folded";
+  const contenders = prev.players.filter((p) => inHand(p) && !folded(p));
+
+  const moves = new Map<number, Move>();
+  for (const p of prev.players) {
+    const n = byId.get(p.player_id);
+    if (!n || winners.includes(p)) continue;
+    moves.set(p.player_id, {
+      finalBet: p.current_bet + Math.max(0, p.stack - endStack(n)),
+      folded: folded(p),
+      allIn: endStack(n) === 0 && p.stack > 0,
+      mayHaveChecked: false,
+    });
+  }
+
+  // Победитель на вскрытии уравнял самую большую ставку (в пределах стека).
+  const othersMax = Math.max(0, ...[...moves.values()].map((m) => m.finalBet));
+  for (const w of winners) {
+    const finalBet =
+      contenders.length > 1
+        ? Math.max(w.current_bet, Math.min(othersMax, w.current_bet + w.stack))
+        : w.current_bet;
+    moves.set(w.player_id, {
+      finalBet,
+      folded: false,
+      allIn: w.stack > 0 && finalBet - w.current_bet === w.stack,
+      mayHaveChecked: false,
+    });
+  }
+
+  const streetMax = Math.max(0, ...[...moves.values()].map((m) => m.finalBet));
+  for (const id of closingCheckers(prev, streetMax)) {
+    const move = moves.get(id);
+    if (move) move.mayHaveChecked = true;
+  }
+
+  const events = bettingRound(prev, moves);
+
+  if (!nextIsNewHand) {
+    const change = streetChange(prev, next);
+    if (change) events.push(change);
+
+    // на вскрытии дошедшие до него руки открыты
+    if (next.street === "Showdown" && contenders.length > 1) {
+      for (const p of seatOrder(contenders, next.dealer_button)) {
+        const cards = byId.get(p.player_id)?.hole_cards;
+        if (cards && cards.length > 0) events.push({ ...ref(p), type: "cards_revealed", cards });
+      }
+    }
+  }
+
+  for (const w of winners) {
+    const n = byId.get(w.player_id) as GqlPlayerAtTable;
+    const put = (moves.get(w.player_id)?.finalBet ?? w.current_bet) - w.current_bet;
+    const amount = endStack(n) - w.stack + put;
+    if (amount > 0) events.push({ ...ref(n), type: "pot_awarded", amount });
+  }
+
+  return events;
+}
+
+/** Начало раздачи next: баттон, блайнды и действия префлопа. */
+function diffHandStart(next: GqlTableView): TableEvent[] {
+  const events: TableEvent[] = [
+    {
+      type: "hand_started",
+      dealerSeat: next.dealer_button,
+      smallBlind: next.small_blind,
+      bigBlind: next.big_blind,
+    },
+  ];
+
+  const dealt = next.players.filter((p) => inHand(p) || p.status === "Folded");
+  const fromButton = seatOrder(dealt, next.dealer_button);
+  const headsUp = dealt.length === 2;
+  const sb = headsUp ? fromButton[0] : fromButton[1];
+  const bb = headsUp ? fromButton[1] : fromButton[2];
+
+  const blinds = new Map<number, number>();
+  const post = (p: GqlPlayerAtTable | undefined, blind: "small" | "big", size: number) => {
+    if (!p) return;
+    const amount = Math.min(size, p.stack + p.current_bet);
+    blinds.set(p.player_id, amount);
+    events.push({ ...ref(p), type: "blind_posted", blind, amount });
+  };
+  post(sb, "small", next.small_blind);
+  post(bb, "big", next.big_blind);
+
+  // Несколько улиц новой раздачи между снимками не восстанавливаем.
+  if (next.street !== "PreFlop") {
+    const change = streetChange({ ...next, street: "PreFlop", board: [] }, next);
+    if (change) events.push(change);
+    return events;
+  }
+
+  const baseline: GqlTableView = {
+    ...next,
+    players: next.players.map((p) => {
+      const posted = blinds.get(p.player_id) ?? 0;
+      return {
+        ...p,
+        stack: p.stack + p.current_bet - posted,
+        current_bet: posted,
+        status: dealt.includes(p) ? "Active" : p.status,
+      };
+    }),
+    current_actor_seat: bb ? nextSeatAfter(dealt, bb.seat_index) : null,
+  };
+  events.push(...diffSameHand(baseline, next));
+  return events;
+}
+
+/**
+ * События между двумя снимками одного стола. prev = null (первый снимок)
+ * — истории нет, событий тоже.
+ */
+export function diffTableViews(prev: GqlTableView | null, next: GqlTableView): TableEvent[] {
+  if (!prev || prev.table_id !== next.table_id) return [];
+
+  const events: TableEvent[] = [];
+  const prevIds = new Set(prev.players.map((p) => p.player_id));
+  const nextIds = new Set(next.players.map((p) => p.player_id));
+
+  for (const p of next.players) {
+    if (!prevIds.has(p.player_id)) events.push({ ...ref(p), type: "player_seated", stack: p.stack });
+  }
+
+  const newHand = isNewHand(prev, next);
+  if (prev.hand_in_progress && (newHand || !next.hand_in_progress)) {
+    events.push(...diffHandEnd(prev, next, newHand));
+  } else if (prev.hand_in_progress) {
+    events.push(...diffSameHand(prev, next));
+  }
+  if (newHand) events.push(...diffHandStart(next));
+
+  for (const p of prev.players) {
+    if (!nextIds.has(p.player_id)) events.push({ ...ref(p), type: "player_left" });
+  }
+
+  return events;
+}
+
+// -----------------------------------------------------------------------------
+// Text
+// -----------------------------------------------------------------------------
+
+function cardsText(cards: GqlCard[]): string {
+  return cards.map((c) => `${mapRank(c.rank)}${getSuitSymbol(mapSuit(c.suit))}`).join(" ");
+}
+
+/** Строка для лога: "Alice raised to 1,200". */
+export function describeTableEvent(event: TableEvent): string {
+  switch (event.type) {
+    case "hand_started":
+      return event.dealerSeat === null
+        ? "New hand"
+        : `New hand · button on seat ${event.dealerSeat + 1}`;
+    case "blind_posted":
+      return `${event.name} posted ${event.blind} blind ${event.amount.toLocaleString()}`;
+    case "player_action":
+      switch (event.action) {
+        case "fold":
+          return `${event.name} folded`;
+        case "check":
+          return `${event.name} checked`;
+        case "call":
+          return `${event.name} called ${event.amount.toLocaleString()}`;
+        case "bet":
+          return `${event.name} bet ${event.betTo.toLocaleString()}`;
+        case "raise":
+          return `${event.name} raised to ${event.betTo.toLocaleString()}`;
+        case "all_in":
+          return `${event.name} went all-in for ${event.betTo.toLocaleString()}`;
+      }
+      break;
+    case "street_changed":
+      return event.cards.length > 0 ? `${event.street}: ${cardsText(event.cards)}` : event.street;
+    case "cards_revealed":
+      return `${event.name} shows ${cardsText(event.cards)}`;
+    case "pot_awarded":
+      return `${event.name} won ${event.amount.toLocaleString()}`;
+    case "player_seated":
+      return `${event.name} sat down at seat ${event.seat + 1} with ${event.stack.toLocaleString()}`;
+    case "player_left":
+      return `${event.name} left the table`;
+  }
+  return "";
+}
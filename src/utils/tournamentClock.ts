@@ -0,0 +1,108 @@
+// src/utils/tournamentClock.ts
+//
+// Расчёт турнирных часов по структуре блайндов (utils/blindStructure.ts):
+// сколько осталось до конца уровня, текущие / следующие блайнды и
+// сколько до ближайшего перерыва.
+//
+// Время старта уровня цепочка не отдаёт — его передаёт вызывающий
+// (см. hooks/useTournamentClock.ts).
+
+import type { BlindLevel, TournamentConfig } from "../types/poker";
+import { isBreakRow } from "./blindStructure";
+
+export type ClockStructure = Pick<
+  TournamentConfig,
+  "blindLevels" | "blindLevelDuration" | "breakEveryMinutes" | "breakDurationMinutes"
+>;
+
+export type ClockSnapshot = {
+  level: number;
+  /** null — уровень за пределами структуры */
+  current: BlindLevel | null;
+  next: BlindLevel | null;
+  /** Перед следующим уровнем стоит перерыв */
+  breakBeforeNext: boolean;
+  levelDurationSecs: number;
+  levelRemainingSecs: number;
+  /** null — перерывов больше не будет */
+  secsUntilBreak: number | null;
+  breakDurationSecs: number;
+};
+
+/** Индекс строки структуры для игрового уровня (1-based), -1 если нет. */
+function rowIndexOfLevel(rows: BlindLevel[], level: number): number {
+  let seen = 0;
+  for (let i = 0; i < rows.length; i++) {
+    if (isBreakRow(rows[i])) continue;
+    seen += 1;
+    if (seen === level) return i;
+  }
+  return -1;
+}
+
+export function computeClock(
+  structure: ClockStructure,
+  level: number,
+  elapsedInLevelSecs: number
+): ClockSnapshot {
+  const rows = structure.blindLevels;
+  const levelDurationSecs = Math.max(0, structure.blindLevelDuration * 60);
+  const levelRemainingSecs = Math.max(0, levelDurationSecs - elapsedInLevelSecs);
+  const defaultBreakSecs = Math.max(0, structure.breakDurationMinutes * 60);
+
+  const idx = rowIndexOfLevel(rows, level);
+  const current = idx >= 0 ? rows[idx] : null;
+
+  let next: BlindLevel | null = null;
+  let breakBeforeNext = false;
+  let breakDurationSecs = defaultBreakSecs;
+  let secsUntilBreak: number | null = null;
+
+  if (idx >= 0) {
+    // идём вперёд по структуре: первый перерыв и следующий уровень
+    let untilBreak = levelRemainingSecs;
+    for (let i = idx + 1; i < rows.length; i++) {
+      const row = rows[i];
+      if (isBreakRow(row)) {
+        if (secsUntilBreak === null) {
+          secsUntilBreak = untilBreak;
+          breakDurationSecs = (row.durationMinutes ?? 0) * 60;
+        }
+        if (!next) breakBeforeNext = true;
+        continue;
+      }
+      if (!next) next = row;
+      if (secsUntilBreak !== null) break;
+      untilBreak += levelDurationSecs;
+    }
+  }
+
+  // Структура без явных перерывов: считаем по breakEveryMinutes от старта.
+  const hasBreakRows = rows.some(isBreakRow);
+  if (!hasBreakRows && structure.breakEveryMinutes > 0 && defaultBreakSecs > 0) {
+    const everySecs = structure.breakEveryMinutes * 60;
+    const playedSecs = Math.max(0, level - 1) * levelDurationSecs + elapsedInLevelSecs;
+    secsUntilBreak = everySecs - (playedSecs % everySecs);
+    breakBeforeNext = secsUntilBreak <= levelRemainingSecs;
+  }
+
+  return {
+    level,
+    current,
+    next,
+    breakBeforeNext,
+    levelDurationSecs,
+    levelRemainingSecs,
+    secsUntilBreak,
+    breakDurationSecs,
+  };
+}
+
+/** 125 -> "2:05", 3725 -> "1:02:05". */
+export function formatClock(totalSecs: number): string {
+  const s = Math.max(0, Math.floor(totalSecs));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = String(s % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${sec}` : `${m}:${sec}`;
+}
@@ -0,0 +1,26 @@
+// src/workers/equityWorker.ts
+//
+// Web Worker для Monte Carlo эквити (utils/equity.ts), чтобы симуляция
+// не подвешивала стол. Запускается из hooks/useEquity.ts как module worker.
+
+import type { UICard } from "../types/poker";
+import { estimateEquity, type EquityEstimate } from "../utils/equity";
+
+export type EquityRequest = {
+  id: number;
+  hole: UICard[];
+  board: UICard[];
+  opponents: number;
+  iterations: number;
+};
+
+export type EquityResponse = {
+  id: number;
+  estimate: EquityEstimate | null;
+};
+
+self.onmessage = (e: MessageEvent<EquityRequest>) => {
+  const { id, hole, board, opponents, iterations } = e.data;
+  const response: EquityResponse = { id, estimate: estimateEquity(hole, board, opponents, iterations) };
+  self.postMessage(response);
+};